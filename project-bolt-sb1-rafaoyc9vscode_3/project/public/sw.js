@@ -44,4 +44,119 @@ self.addEventListener('activate', (event) => {
       );
     })
   );
-});
\ No newline at end of file
+});
+
+// ===== 每日学习提醒 =====
+// 提醒计划由页面写入 IndexedDB（src/utils/reminders.ts），这里只读取，不负责建表
+const DB_NAME = 'VideoLearningApp';
+const META_STORE = 'meta';
+const REMINDER_SCHEDULE_KEY = 'reminderSchedule';
+const REMINDER_TAG = 'study-reminder';
+const OPEN_REVIEW_URL = '/?open=review';
+
+// 打开页面已创建的数据库；数据库还不存在时放弃，避免建出空库
+const openDatabase = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME);
+  request.onupgradeneeded = () => {
+    request.transaction.abort();
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readSchedule = async () => {
+  const db = await openDatabase();
+  try {
+    if (!db.objectStoreNames.contains(META_STORE)) return null;
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction([META_STORE], 'readonly').objectStore(META_STORE).get(REMINDER_SCHEDULE_KEY);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const writeSchedule = async (schedule) => {
+  const db = await openDatabase();
+  try {
+    await new Promise((resolve, reject) => {
+      const transaction = db.transaction([META_STORE], 'readwrite');
+      transaction.objectStore(META_STORE).put(schedule, REMINDER_SCHEDULE_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// 今天所在的学习日：计划中开始时间不晚于现在的最后一天
+const findToday = (schedule, now) => {
+  const past = schedule.days.filter((day) => day.dayStart <= now);
+  return past.length > 0 ? past[past.length - 1] : null;
+};
+
+// 到了提醒时间且今天还没提醒过，弹出通知
+const checkReminder = async () => {
+  const schedule = await readSchedule().catch(() => null);
+  if (!schedule || !schedule.enabled) return;
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const now = new Date();
+  const today = findToday(schedule, now.getTime());
+  if (!today || schedule.lastNotifiedDay === today.dayStart) return;
+
+  const remindAt = new Date(now);
+  remindAt.setHours(schedule.hour, schedule.minute, 0, 0);
+  if (now.getTime() < remindAt.getTime()) return;
+
+  const total = today.reviewCount + today.newCount;
+  if (self.navigator.setAppBadge) {
+    await (total > 0 ? self.navigator.setAppBadge(total) : self.navigator.clearAppBadge()).catch(() => {});
+  }
+  if (total > 0) {
+    const parts = [];
+    if (today.reviewCount > 0) parts.push(`${today.reviewCount} 个待复习`);
+    if (today.newCount > 0) parts.push(`${today.newCount} 个新内容`);
+    await self.registration.showNotification('今天的学习任务', {
+      body: `${parts.join('，')}，点击开始复习`,
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      tag: REMINDER_TAG,
+      data: { url: OPEN_REVIEW_URL },
+    });
+  }
+  await writeSchedule({ ...schedule, lastNotifiedDay: today.dayStart });
+};
+
+// 后台定期同步（安装为应用后由浏览器触发）
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_TAG) {
+    event.waitUntil(checkReminder());
+  }
+});
+
+// 页面打开期间到点发来的检查请求
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'check-reminder') {
+    event.waitUntil(checkReminder());
+  }
+});
+
+// 点击通知：已打开的窗口直接切到复习预览，否则新开窗口
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || OPEN_REVIEW_URL;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        client.postMessage({ type: 'open-review' });
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
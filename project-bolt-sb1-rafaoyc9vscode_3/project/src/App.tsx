@@ -1,8 +1,9 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import InfoPage from './components/InfoPage';
 import AuthCodeModal from './components/AuthCodeModal';
 import { isTrialValid, isAuthValid } from './utils/authUtils';
-import { Brain, Play, RotateCcw, History, BookOpen, Plus, Loader, Headphones } from 'lucide-react';
+import { Brain, Play, RotateCcw, History, BookOpen, Plus, Loader, Headphones, CalendarDays, Zap, FolderLock } from 'lucide-react';
+import { DailyPlaylist, ForecastDay } from './types';
 import { usePlaylistManager } from './hooks/usePlaylistManager';
 import { VideoUpload } from './components/VideoUpload';
 import { StatsCard } from './components/StatsCard';
@@ -13,14 +14,25 @@ import { VideoLibrary } from './components/VideoLibrary';
 import { VideoPlayer } from './components/VideoPlayer';
 import { InstallPrompt } from './components/InstallPrompt';
 import { CollectionManager } from './components/CollectionManager';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PauseManager } from './components/PauseManager';
+import { WorkloadCalendar } from './components/WorkloadCalendar';
+import { CramSession } from './components/CramSession';
+import { StudyHeatmap } from './components/StudyHeatmap';
+import { StoragePanel } from './components/StoragePanel';
+import { IntegrityDoctor } from './components/IntegrityDoctor';
+import { BackupPanel } from './components/BackupPanel';
+import { ProgressSyncPanel } from './components/ProgressSyncPanel';
+import { useStudyReminders } from './hooks/useStudyReminders';
+import { acquirePlaylistLock } from './utils/crossTab';
 
 
 function App() {
   // ...existing code...
   // 添加视频处理函数，防止未定义报错
-  const handleVideoAdd = async (files: File[], collectionId: string) => {
+  const handleVideoAdd = async (files: File[], collectionId: string, fingerprints?: (string | undefined)[]) => {
     try {
-      await addVideos(files, collectionId);
+      await addVideos(files, collectionId, fingerprints);
       setCurrentPreview(generateTodayPlaylist());
     } catch (e) {
       console.error('添加视频失败', e);
@@ -33,23 +45,60 @@ function App() {
     playlists,
     collections,
     isLoading,
+    settings,
+    updateSettings,
     addVideos,
+    linkFolder,
+    lockedFolders,
+    requestFolderAccess,
+    relinkVideo,
+    markNeedsRelinkIfMissing,
+    findImportMatches,
+    reconnectImport,
+    restoreBackup,
+    applyProgressUpdates,
     createCollection,
     updateCollection,
+    updateCollectionSchedule,
     deleteCollection,
     toggleCollection,
     generateTodayPlaylist,
     createTodayPlaylist,
+    getCramItems,
+    createCramPlaylist,
     getLastPlaylist,
+    discardPlaylist,
     getStats,
     deleteVideo,
     updatePlaylistProgress,
+    recordItemOutcome,
+    creditWatchedItems,
+    gradePlaylistItem,
+    getGradeIntervals,
+    getBacklogPlan,
+    getWorkloadForecast,
+    pausePeriods,
+    pauseLearning,
+    resumeLearning,
+    suspendVideo,
+    unsuspendVideo,
+    resetVideo,
+    setNextReviewDate,
+    shiftVideoStage,
+    undoLastReview,
+    repairCollectionCounts,
+    dropDanglingPlaylistItems,
+    purgeOrphanFiles,
+    updateRelinkFlags,
     getTodayNewVideos,
     getTodayReviews,
   } = usePlaylistManager();
 
   const [showPreview, setShowPreview] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  // 复习量预测：打开时计算一次
+  const [forecast, setForecast] = useState<ForecastDay[] | null>(null);
+  const [showCram, setShowCram] = useState(false);
   const [showPlayer, setShowPlayer] = useState(false);
   const [currentPreview, setCurrentPreview] = useState(generateTodayPlaylist());
   const [currentPlaylist, setCurrentPlaylist] = useState<any>(null);
@@ -59,6 +108,8 @@ function App() {
   // 已移除 singlePlayVideo 状态，回退到原始状态
   const [showInfo, setShowInfo] = useState(false);
   const [globalNotice, setGlobalNotice] = useState<string | null>(null);
+  // 正在播放的列表占用的锁，关闭播放器时释放
+  const playlistLockRef = useRef<(() => void) | null>(null);
 
   // 保证预览进度实时刷新：lastPlayedIndex变化时自动刷新currentPreview
   useEffect(() => {
@@ -175,7 +226,37 @@ function App() {
     }
   };
 
-  const handleStartPlaylist = () => {
+  // 每日学习提醒：点击通知后打开复习预览
+  useStudyReminders({
+    settings,
+    isLoading,
+    videos,
+    collections,
+    playlists,
+    pausePeriods,
+    onOpenReview: () => handleShowPreview('review'),
+  });
+
+  // 占用播放列表后打开播放器；同一个列表已在其他标签页播放时不打开
+  const openPlayer = async (playlist: DailyPlaylist) => {
+    const release = await acquirePlaylistLock(playlist.id);
+    if (!release) {
+      alert('这个播放列表正在另一个标签页中播放，请在那个标签页继续，或关闭它后再试');
+      return false;
+    }
+    playlistLockRef.current?.();
+    playlistLockRef.current = release;
+    setCurrentPlaylist(playlist);
+    setShowPlayer(true);
+    return true;
+  };
+
+  const releasePlaylistLock = () => {
+    playlistLockRef.current?.();
+    playlistLockRef.current = null;
+  };
+
+  const handleStartPlaylist = async () => {
     // 优先复用未完成playlist
     let playlist = null;
     if (previewType === 'review') {
@@ -195,9 +276,7 @@ function App() {
     if (!playlist) {
       playlist = createTodayPlaylist(previewType, currentPreview.isExtraSession);
     }
-    setCurrentPlaylist(playlist);
-    setShowPreview(false);
-    setShowPlayer(true);
+    if (await openPlayer(playlist)) setShowPreview(false);
   };
 
   const handleNewLearning = () => {
@@ -212,17 +291,9 @@ function App() {
       // 过滤掉已被删除的视频
       const validItems = lastNewPlaylist.items.filter(item => videos.find(v => v.id === item.videoId));
       if (validItems.length === 0) {
-        // 如果全部被删光，清除本地未完成新学习记录
-        try {
-          const playlistsRaw = window.localStorage.getItem('playlists');
-          if (playlistsRaw) {
-            const playlistsArr = JSON.parse(playlistsRaw);
-            const filtered = playlistsArr.filter((p: any) => p.isCompleted || p.playlistType !== 'new');
-            window.localStorage.setItem('playlists', JSON.stringify(filtered));
-          }
-        } catch (e) { /* ignore */ }
+        // 如果全部被删光，清除未完成的新学习记录
+        discardPlaylist(lastNewPlaylist.id);
         alert('未完成的新学习视频已全部被删除，相关学习记录已自动清除。');
-        window.location.reload();
         return;
       }
       // 继续上次的新学习也弹出预览窗口（只包含存在的视频）
@@ -245,6 +316,11 @@ function App() {
 
 
   const handlePlayerClose = () => {
+    // 中途退出时，已看够的条目也计入学习记录
+    if (currentPlaylist) {
+      creditWatchedItems(currentPlaylist.id);
+    }
+    releasePlaylistLock();
     setShowPlayer(false);
     setCurrentPlaylist(null);
   };
@@ -254,31 +330,32 @@ function App() {
     console.warn('File missing reported for', videoId);
     setGlobalNotice('检测到视频文件缺失，已跳过该视频');
     setTimeout(() => setGlobalNotice(null), 1800);
+    // 确认是文件被移动还是文件夹未授权，前者在视频库中提示重新关联
+    markNeedsRelinkIfMissing(videoId).then(status => {
+      if (status === 'missing') {
+        setGlobalNotice('视频文件已不在原位置，可在视频库中重新关联');
+        setTimeout(() => setGlobalNotice(null), 2500);
+      }
+    });
+  };
+
+  const handleGrantFolderAccess = async (collectionId: string) => {
+    if (!(await requestFolderAccess(collectionId))) {
+      alert('未获得文件夹的访问权限，关联的视频暂时无法播放');
+    }
   };
 
   const handlePlaylistComplete = () => {
     if (currentPlaylist) {
       updatePlaylistProgress(currentPlaylist.id, currentPlaylist.items.length, true);
-      // --- 新增：同步本地playlists，确保未完成新学习被标记为已完成 ---
-      try {
-        const playlistsRaw = window.localStorage.getItem('playlists');
-        if (playlistsRaw) {
-          const playlistsArr = JSON.parse(playlistsRaw);
-          const updated = playlistsArr.map((p: any) => {
-            if (p.id === currentPlaylist.id) {
-              return { ...p, isCompleted: true };
-            }
-            return p;
-          });
-          window.localStorage.setItem('playlists', JSON.stringify(updated));
-        }
-      } catch (e) { /* ignore */ }
-      // --- END ---
-      const message = currentPlaylist.isExtraSession 
+      const message = currentPlaylist.playlistType === 'cram'
+        ? '突击复习已完成，复习计划保持不变'
+        : currentPlaylist.isExtraSession 
         ? '恭喜！加餐学习任务已完成！' 
         : '恭喜！学习任务已完成！';
       alert(message);
     }
+    releasePlaylistLock();
     setShowPlayer(false);
     setCurrentPlaylist(null);
 
@@ -370,9 +447,38 @@ function App() {
           </button>
         </div>
 
+        {/* Linked Folder Access */}
+        {lockedFolders.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-8">
+            <div className="flex items-center text-amber-800 font-medium mb-2">
+              <FolderLock size={20} className="mr-2" />
+              关联的文件夹需要重新授权才能播放
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {lockedFolders.map(folder => (
+                <button
+                  key={folder.collectionId}
+                  onClick={() => handleGrantFolderAccess(folder.collectionId)}
+                  className="bg-amber-500 hover:bg-amber-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium"
+                >
+                  允许访问“{folder.name}”
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Statistics */}
         <StatsCard stats={stats} />
 
+        {/* 学习日历 */}
+        <StudyHeatmap
+          videos={videos}
+          playlists={playlists}
+          pausePeriods={pausePeriods}
+          dayStartHour={settings.dayStartHour}
+        />
+
         {/* Main Control Panel */}
         <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
           <h2 className="text-2xl font-bold text-gray-800 mb-6 flex items-center">
@@ -427,23 +533,89 @@ function App() {
                 复习 {reviews.length} 个视频
               </span>
             </button>
+
+            {/* 考前突击 */}
+            <button
+              onClick={() => setShowCram(true)}
+              disabled={collections.length === 0}
+              className="bg-rose-600 hover:bg-rose-700 text-white p-6 rounded-xl font-semibold text-lg flex flex-col items-center transition-colors shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Zap size={32} className="mb-3" />
+              考前突击
+              <span className="text-sm text-rose-100 mt-2">
+                整合辑过一遍，不影响复习计划
+              </span>
+            </button>
           </div>
 
           {/* 继续上次播放按钮已删除 */}
 
-          {/* 播放历史 */}
-          <div className="mt-4 text-center">
+          {/* 暂停学习 */}
+          <PauseManager
+            collections={collections}
+            pausePeriods={pausePeriods}
+            onPause={pauseLearning}
+            onResume={resumeLearning}
+            dayStartHour={settings.dayStartHour}
+          />
+
+          {/* 播放历史 / 复习量预测 */}
+          <div className="mt-4 flex flex-col md:flex-row justify-center items-center">
             <button
               onClick={() => setShowHistory(true)}
-              className="text-gray-600 hover:text-gray-800 px-4 py-2 rounded-lg font-medium flex items-center mx-auto transition-colors"
+              className="text-gray-600 hover:text-gray-800 px-4 py-2 rounded-lg font-medium flex items-center transition-colors"
             >
               <History size={18} className="mr-2" />
               查看播放历史
             </button>
+            <button
+              onClick={() => setForecast(getWorkloadForecast())}
+              className="text-gray-600 hover:text-gray-800 px-4 py-2 rounded-lg font-medium flex items-center transition-colors"
+            >
+              <CalendarDays size={18} className="mr-2" />
+              复习量预测
+            </button>
           </div>
         </div>
 
 
+        {/* Settings */}
+        <SettingsPanel
+          settings={settings}
+          onUpdateSettings={updateSettings}
+        />
+
+        {/* Storage */}
+        <StoragePanel videos={videos} collections={collections} />
+
+        {/* Integrity Doctor */}
+        <IntegrityDoctor
+          videos={videos}
+          collections={collections}
+          playlists={playlists}
+          onRecountCollections={repairCollectionCounts}
+          onDropDanglingItems={dropDanglingPlaylistItems}
+          onPurgeOrphanFiles={purgeOrphanFiles}
+          onMarkNeedsRelink={updateRelinkFlags}
+        />
+
+        {/* Backup */}
+        <BackupPanel
+          videos={videos}
+          collections={collections}
+          playlists={playlists}
+          pausePeriods={pausePeriods}
+          settings={settings}
+          onRestore={restoreBackup}
+        />
+
+        {/* Progress Sync */}
+        <ProgressSyncPanel
+          videos={videos}
+          collections={collections}
+          onApply={applyProgressUpdates}
+        />
+
         {/* Collection Manager */}
         <CollectionManager
           collections={collections}
@@ -452,6 +624,7 @@ function App() {
           onToggleCollection={toggleCollection}
           onDeleteCollection={deleteCollection}
           onUpdateCollection={updateCollection}
+          onUpdateCollectionSchedule={updateCollectionSchedule}
         />
 
         {/* Video Upload */}
@@ -459,6 +632,9 @@ function App() {
           collections={collections}
           onVideoAdd={handleVideoAdd}
           onCreateCollection={createCollection}
+          onLinkFolder={linkFolder}
+          onFindMatches={findImportMatches}
+          onReconnect={reconnectImport}
         />
 
         {/* Video Library */}
@@ -466,6 +642,13 @@ function App() {
           videos={videos} 
           collections={collections}
           onDelete={deleteVideo} 
+          onSuspend={suspendVideo}
+          onUnsuspend={unsuspendVideo}
+          onReset={resetVideo}
+          onReschedule={setNextReviewDate}
+          onShiftStage={shiftVideoStage}
+          onUndoReview={undoLastReview}
+          onRelink={relinkVideo}
         />
 
         {/* Empty State */}
@@ -504,6 +687,7 @@ function App() {
                 videos={videos}
                 onStartPlaylist={handleStartPlaylist}
                 previewType={previewType as 'new' | 'review'}
+                backlogPlan={settings.backlogMode ? getBacklogPlan() : undefined}
               />
             </div>
           </div>
@@ -540,6 +724,9 @@ function App() {
           <PlaylistHistory
             playlists={playlists}
             videos={videos}
+            collections={collections}
+            pausePeriods={pausePeriods}
+            dayStartHour={settings.dayStartHour}
             onClose={() => setShowHistory(false)}
             onSinglePlay={(videoId) => {
               setShowHistory(false);
@@ -548,6 +735,27 @@ function App() {
           />
         )
       )}
+      {/* 复习量预测 */}
+      {forecast && (
+        <WorkloadCalendar
+          forecast={forecast}
+          videos={videos}
+          collections={collections}
+          onClose={() => setForecast(null)}
+        />
+      )}
+      {/* 考前突击 */}
+      {showCram && (
+        <CramSession
+          collections={collections}
+          videos={videos}
+          getItems={getCramItems}
+          onStart={async (filter) => {
+            if (await openPlayer(createCramPlaylist(filter))) setShowCram(false);
+          }}
+          onClose={() => setShowCram(false)}
+        />
+      )}
       {/* Video Player（仅用于学习/复习流程） */}
       {showPlayer && currentPlaylist && !singlePlayVideoId && (
         <VideoPlayer
@@ -559,6 +767,12 @@ function App() {
           isAudioMode={currentPlaylist.playlistType === 'review'}
           onProgressUpdate={handleProgressUpdate}
           onFileMissing={handleFileMissing}
+          isCramMode={currentPlaylist.playlistType === 'cram'}
+          onGradeItem={currentPlaylist.playlistType === 'cram'
+            ? undefined
+            : (index, grade) => gradePlaylistItem(currentPlaylist.id, index, grade)}
+          getGradeIntervals={getGradeIntervals}
+          onItemOutcome={(index, outcome) => recordItemOutcome(currentPlaylist.id, index, outcome)}
         />
       )}
       {/* 已移除单独播放逻辑，回退到原始状态 */}
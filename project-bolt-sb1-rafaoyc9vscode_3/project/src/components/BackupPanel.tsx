@@ -0,0 +1,263 @@
+import React, { useRef, useState } from 'react';
+import { Archive, ChevronDown, ChevronUp, Download, Upload, Loader, AlertTriangle } from 'lucide-react';
+import { AppSettings, Collection, DailyPlaylist, PausePeriod, VideoFile } from '../types';
+import { toStoredVideo } from '../utils/metadataStore';
+import { BACKUP_EXTENSION, BackupProgress, ParsedBackup, exportBackup, readBackup } from '../utils/backup';
+import { formatBytes } from '../utils/storageUsage';
+
+type RestoreMode = 'merge' | 'replace';
+
+interface BackupPanelProps {
+  videos: VideoFile[];
+  collections: Collection[];
+  playlists: DailyPlaylist[];
+  pausePeriods: PausePeriod[];
+  settings: AppSettings;
+  onRestore: (
+    backup: ParsedBackup,
+    mode: RestoreMode,
+    onProgress: (progress: BackupProgress) => void
+  ) => Promise<{ videos: number; files: number }>;
+}
+
+// 导出或恢复中的进度
+interface TaskProgress {
+  label: string;
+  progress?: BackupProgress;
+}
+
+// 最多列出的问题条数
+const MAX_PROBLEMS = 5;
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({
+  videos,
+  collections,
+  playlists,
+  pausePeriods,
+  settings,
+  onRestore,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [task, setTask] = useState<TaskProgress | null>(null);
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const linkedCount = collections.filter(collection => collection.storageMode === 'linked').length;
+
+  const handleExport = async () => {
+    setTask({ label: '正在导出备份...' });
+    try {
+      const saved = await exportBackup(
+        { collections, videos: videos.map(toStoredVideo), playlists, pauses: pausePeriods, settings },
+        progress => setTask({ label: '正在导出备份...', progress })
+      );
+      if (saved) alert('备份已导出');
+    } catch (error) {
+      console.error('导出备份失败', error);
+      alert(`导出备份失败：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setTask(null);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setTask({ label: '正在检查备份文件...' });
+    try {
+      setBackup(await readBackup(file));
+      setMode('merge');
+    } catch (error) {
+      console.error('读取备份失败', error);
+      alert(`无法导入：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setTask(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !confirm('替换会删除当前所有的视频、学习记录和设置，改为备份中的内容，无法撤销。确定继续吗？')) {
+      return;
+    }
+    setTask({ label: '正在恢复...' });
+    try {
+      const result = await onRestore(backup, mode, progress => setTask({ label: '正在恢复媒体文件...', progress }));
+      setBackup(null);
+      const missing = result.videos - result.files;
+      alert(`已恢复 ${result.videos} 个视频${missing > 0 ? `，其中 ${missing} 个没有媒体文件，需要在视频库中重新关联` : ''}`);
+    } catch (error) {
+      console.error('恢复备份失败', error);
+      alert(`恢复失败：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setTask(null);
+    }
+  };
+
+  const mediaBytes = backup ? backup.media.reduce((sum, entry) => sum + entry.size, 0) : 0;
+  const progressPercent = task?.progress && task.progress.totalBytes > 0
+    ? Math.round((task.progress.doneBytes / task.progress.totalBytes) * 100)
+    : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <Archive className="mr-3 text-indigo-600" size={28} />
+          备份与恢复
+        </h2>
+        {isExpanded ? <ChevronUp size={24} className="text-gray-500" /> : <ChevronDown size={24} className="text-gray-500" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-6 space-y-6">
+          {/* 进度 */}
+          {task && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-center text-blue-800 font-medium">
+                <Loader size={18} className="animate-spin mr-2" />
+                {task.label}
+                {task.progress && (
+                  <span className="ml-auto text-sm">
+                    {formatBytes(task.progress.doneBytes)} / {formatBytes(task.progress.totalBytes)}
+                  </span>
+                )}
+              </div>
+              {progressPercent !== null && (
+                <div className="w-full bg-blue-200 rounded-full h-2 mt-3">
+                  <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${progressPercent}%` }} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 导出 */}
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">导出完整备份</h3>
+              <p className="text-sm text-gray-600">
+                合辑、视频、学习进度、播放历史、设置和媒体文件打包成一个文件，可在新设备或清除浏览器数据后恢复
+              </p>
+              {linkedCount > 0 && (
+                <p className="text-xs text-orange-600 mt-1">
+                  关联文件夹中的媒体不在浏览器中，不会打包进备份，恢复后需要重新关联
+                </p>
+              )}
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={!!task}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center whitespace-nowrap"
+            >
+              <Download size={16} className="mr-2" />
+              导出备份
+            </button>
+          </div>
+
+          {/* 导入 */}
+          <div className="border-t border-gray-100 pt-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800">从备份恢复</h3>
+                <p className="text-sm text-gray-600">选择之前导出的 {BACKUP_EXTENSION} 文件</p>
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!task}
+                className="bg-white border border-indigo-300 text-indigo-700 hover:bg-indigo-50 disabled:text-gray-400 disabled:border-gray-200 px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center whitespace-nowrap"
+              >
+                <Upload size={16} className="mr-2" />
+                选择备份文件
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={BACKUP_EXTENSION}
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+
+            {backup && (
+              <div className="mt-4 bg-gray-50 rounded-lg p-4 space-y-4">
+                <div className="text-sm text-gray-700 space-y-1">
+                  {!isNaN(backup.createdAt.getTime()) && (
+                    <p>备份时间：{backup.createdAt.toLocaleString('zh-CN')}</p>
+                  )}
+                  <p>
+                    {backup.collections.length} 个合辑，{backup.videos.length} 个视频，
+                    {backup.media.length} 个媒体文件（{formatBytes(mediaBytes)}），
+                    {backup.playlists.length} 个播放列表，{backup.events.length} 条学习记录
+                  </p>
+                </div>
+
+                {backup.problems.length > 0 && (
+                  <div className="flex items-start text-sm text-orange-700">
+                    <AlertTriangle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                    <ul className="space-y-1">
+                      {backup.problems.slice(0, MAX_PROBLEMS).map((problem, index) => (
+                        <li key={index}>{problem}</li>
+                      ))}
+                      {backup.problems.length > MAX_PROBLEMS && (
+                        <li>…… 还有 {backup.problems.length - MAX_PROBLEMS} 项</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="flex items-start text-sm">
+                    <input
+                      type="radio"
+                      checked={mode === 'merge'}
+                      onChange={() => setMode('merge')}
+                      className="mr-2 mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-800">合并</span>
+                      <span className="text-gray-600"> — 备份中的合辑和视频作为新内容加入，保留当前数据和设置</span>
+                    </span>
+                  </label>
+                  <label className="flex items-start text-sm">
+                    <input
+                      type="radio"
+                      checked={mode === 'replace'}
+                      onChange={() => setMode('replace')}
+                      className="mr-2 mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-800">替换</span>
+                      <span className="text-gray-600"> — 删除当前所有数据，完全恢复为备份中的内容和设置</span>
+                    </span>
+                  </label>
+                </div>
+
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleRestore}
+                    disabled={!!task}
+                    className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium"
+                  >
+                    开始恢复
+                  </button>
+                  <button
+                    onClick={() => setBackup(null)}
+                    disabled={!!task}
+                    className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium"
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,34 @@
 import React, { useState } from 'react';
 import { FolderPlus, Folder, Check, Edit2, Trash2, Play, BarChart3 } from 'lucide-react';
-import { Collection, VideoFile } from '../types';
+import { Collection, CollectionSchedule, VideoFile } from '../types';
+import { getCollectionSchedule, validateCollectionSchedule } from '../utils/scheduler';
+import { isGraduated } from '../utils/lifecycle';
 
 interface CollectionManagerProps {
   collections: Collection[];
   videos: VideoFile[];
-  onCreateCollection: (name: string, description?: string) => void;
+  onCreateCollection: (name: string, description?: string, schedule?: CollectionSchedule) => void;
   onToggleCollection: (collectionId: string) => void;
   onDeleteCollection: (collectionId: string) => void;
   onUpdateCollection: (collectionId: string, name: string, description?: string) => void;
+  onUpdateCollectionSchedule: (collectionId: string, schedule: CollectionSchedule) => void;
 }
 
+// 调度设置表单字段（以字符串保存输入内容）
+const toScheduleForm = (schedule: CollectionSchedule) => ({
+  reviewIntervals: schedule.reviewIntervals.join(', '),
+  maxNewPerDay: String(schedule.maxNewPerDay),
+  maxReviewsPerDay: String(schedule.maxReviewsPerDay),
+  extraSessionSize: String(schedule.extraSessionSize),
+  priority: String(schedule.priority),
+});
+
+const emptyForm = () => ({
+  name: '',
+  description: '',
+  ...toScheduleForm(getCollectionSchedule(undefined)),
+});
+
 export const CollectionManager: React.FC<CollectionManagerProps> = ({
   collections,
   videos,
@@ -18,40 +36,67 @@ export const CollectionManager: React.FC<CollectionManagerProps> = ({
   onToggleCollection,
   onDeleteCollection,
   onUpdateCollection,
+  onUpdateCollectionSchedule,
 }) => {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState({ name: '', description: '' });
+  const [formData, setFormData] = useState(emptyForm);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+
+  const parseSchedule = (): CollectionSchedule => ({
+    reviewIntervals: formData.reviewIntervals
+      .split(/[,，\s]+/)
+      .filter(Boolean)
+      .map(Number),
+    maxNewPerDay: Number(formData.maxNewPerDay),
+    maxReviewsPerDay: Number(formData.maxReviewsPerDay),
+    extraSessionSize: Number(formData.extraSessionSize),
+    priority: Number(formData.priority),
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     console.log('Form submitted:', formData); // 调试日志
     
     if (formData.name.trim()) {
+      const schedule = parseSchedule();
+      const error = validateCollectionSchedule(schedule);
+      if (error) {
+        setScheduleError(error);
+        return;
+      }
+      setScheduleError(null);
+
       if (editingId) {
         console.log('Updating collection:', editingId, formData.name.trim(), formData.description.trim());
         onUpdateCollection(editingId, formData.name.trim(), formData.description.trim());
+        onUpdateCollectionSchedule(editingId, schedule);
         setEditingId(null);
       } else {
         console.log('Creating new collection:', formData.name.trim(), formData.description.trim());
-        onCreateCollection(formData.name.trim(), formData.description.trim());
-        setShowCreateForm(false);
+        onCreateCollection(formData.name.trim(), formData.description.trim(), schedule);
       }
-      setFormData({ name: '', description: '' });
+      setShowCreateForm(false);
+      setFormData(emptyForm());
     } else {
       console.log('Form validation failed: name is empty');
     }
   };
 
   const handleEdit = (collection: Collection) => {
-    setFormData({ name: collection.name, description: collection.description || '' });
+    setFormData({
+      name: collection.name,
+      description: collection.description || '',
+      ...toScheduleForm(getCollectionSchedule(collection)),
+    });
+    setScheduleError(null);
     setEditingId(collection.id);
     setShowCreateForm(true);
   };
 
   const getCollectionStats = (collectionId: string) => {
     const collectionVideos = videos.filter(v => v.collectionId === collectionId);
-    const completed = collectionVideos.filter(v => v.status === 'completed').length;
+    const completed = collectionVideos.filter(isGraduated).length;
     return { total: collectionVideos.length, completed };
   };
 
@@ -116,6 +161,73 @@ export const CollectionManager: React.FC<CollectionManagerProps> = ({
                 rows={3}
               />
             </div>
+
+            {/* 调度设置 */}
+            <div className="border-t border-gray-200 pt-4">
+              <h4 className="text-sm font-semibold text-gray-800 mb-3">复习节奏</h4>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    复习间隔阶梯（天，逗号分隔）
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.reviewIntervals}
+                    onChange={(e) => setFormData({ ...formData, reviewIntervals: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    placeholder="1, 4, 7, 15, 30, 90"
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">每日新学上限</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={formData.maxNewPerDay}
+                      onChange={(e) => setFormData({ ...formData, maxNewPerDay: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">每日复习上限</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={formData.maxReviewsPerDay}
+                      onChange={(e) => setFormData({ ...formData, maxReviewsPerDay: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">加餐数量</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={formData.extraSessionSize}
+                      onChange={(e) => setFormData({ ...formData, extraSessionSize: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">优先级</label>
+                    <select
+                      value={formData.priority}
+                      onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      {[1, 2, 3, 4, 5].map(level => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {scheduleError && (
+                  <p className="text-sm text-red-600">{scheduleError}</p>
+                )}
+              </div>
+            </div>
+
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -128,7 +240,8 @@ export const CollectionManager: React.FC<CollectionManagerProps> = ({
                 onClick={() => {
                   setShowCreateForm(false);
                   setEditingId(null);
-                  setFormData({ name: '', description: '' });
+                  setFormData(emptyForm());
+                  setScheduleError(null);
                 }}
                 className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg font-medium"
               >
@@ -151,6 +264,7 @@ export const CollectionManager: React.FC<CollectionManagerProps> = ({
           {collections.map(collection => {
             const stats = getCollectionStats(collection.id);
             const progress = getProgressPercentage(collection.id);
+            const schedule = getCollectionSchedule(collection);
             
             return (
               <div
@@ -194,7 +308,17 @@ export const CollectionManager: React.FC<CollectionManagerProps> = ({
                   </div>
                 </div>
 
-                <h3 className="font-semibold text-gray-800 mb-2">{collection.name}</h3>
+                <h3 className="font-semibold text-gray-800 mb-2 flex items-center">
+                  <span className="truncate">{collection.name}</span>
+                  {collection.storageMode === 'linked' && (
+                    <span
+                      className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700 whitespace-nowrap"
+                      title="媒体留在本地文件夹中，删除合辑不会删除原文件"
+                    >
+                      关联文件夹
+                    </span>
+                  )}
+                </h3>
                 {collection.description && (
                   <p className="text-sm text-gray-600 mb-3">{collection.description}</p>
                 )}
@@ -214,6 +338,9 @@ export const CollectionManager: React.FC<CollectionManagerProps> = ({
                     <span>{progress}% 完成</span>
                     <span>{new Date(collection.dateCreated).toLocaleDateString('zh-CN')}</span>
                   </div>
+                  <div className="text-xs text-gray-500">
+                    间隔 {schedule.reviewIntervals.join('/')} 天 · 每日新学 {schedule.maxNewPerDay} · 优先级 {schedule.priority}
+                  </div>
                 </div>
 
                 {collection.isActive && (
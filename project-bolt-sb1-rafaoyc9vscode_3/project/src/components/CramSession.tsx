@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Zap, Play, Flame } from 'lucide-react';
+import { Collection, CramFilter, LifecycleStage, PlaylistItem, VideoFile } from '../types';
+import { LIFECYCLE_STAGES, STAGE_COLORS, STAGE_LABELS, getStageLabel } from '../utils/lifecycle';
+import { isDifficultVideo } from '../utils/scheduler';
+
+interface CramSessionProps {
+  collections: Collection[];
+  videos: VideoFile[];
+  getItems: (filter: CramFilter) => PlaylistItem[];
+  onStart: (filter: CramFilter) => void;
+  onClose: () => void;
+}
+
+export const CramSession: React.FC<CramSessionProps> = ({
+  collections,
+  videos,
+  getItems,
+  onStart,
+  onClose,
+}) => {
+  const [collectionId, setCollectionId] = useState(collections[0]?.id ?? '');
+  const [stages, setStages] = useState<LifecycleStage[]>([]);
+  const [difficultOnly, setDifficultOnly] = useState(false);
+
+  const filter: CramFilter = { collectionId, stages, difficultOnly };
+  const items = collectionId ? getItems(filter) : [];
+
+  const toggleStage = (stage: LifecycleStage) => {
+    setStages(stages.includes(stage) ? stages.filter(s => s !== stage) : [...stages, stage]);
+  };
+
+  const getVideo = (videoId: string) => videos.find(v => v.id === videoId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-hidden">
+        <div className="bg-gradient-to-r from-rose-600 to-orange-500 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-semibold text-xl flex items-center">
+            <Zap className="mr-3" size={24} />
+            考前突击
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-white hover:text-gray-200 text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-72px)]">
+          <p className="text-sm text-gray-600 mb-4">
+            一次性播放合辑中的条目，不会改变复习次数和下次复习日期。
+          </p>
+
+          {/* 筛选 */}
+          <div className="space-y-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">合辑</label>
+              <select
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+              >
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>{collection.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">阶段（不选表示全部）</label>
+              <div className="flex flex-wrap gap-2">
+                {LIFECYCLE_STAGES.map(stage => (
+                  <button
+                    key={stage}
+                    onClick={() => toggleStage(stage)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border-2 transition-colors ${
+                      stages.includes(stage)
+                        ? `${STAGE_COLORS[stage]} border-rose-500`
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {STAGE_LABELS[stage]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={difficultOnly}
+                onChange={(e) => setDifficultOnly(e.target.checked)}
+                className="mr-3"
+              />
+              <span className="text-gray-800">只看难点</span>
+              <span className="text-xs text-gray-500 ml-2">忘记过、最近评为“忘记了”或“有点难”、重新学习中</span>
+            </label>
+          </div>
+
+          {/* 预览 */}
+          <h4 className="font-semibold text-gray-800 mb-3">共 {items.length} 个条目</h4>
+          {items.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">没有符合条件的条目</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+              {items.map(item => {
+                const video = getVideo(item.videoId);
+                if (!video) return null;
+                return (
+                  <div key={item.videoId} className="p-3 rounded-lg border bg-gray-50 border-gray-200">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-gray-800 truncate mr-2" title={video.name}>
+                        {video.name}
+                      </p>
+                      {isDifficultVideo(video) && (
+                        <span title="难点"><Flame size={14} className="text-rose-500 flex-shrink-0" /></span>
+                      )}
+                    </div>
+                    <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs ${STAGE_COLORS[video.stage]}`}>
+                      {getStageLabel(video)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => onStart(filter)}
+              disabled={items.length === 0}
+              className="flex-1 bg-rose-600 hover:bg-rose-700 text-white px-4 py-2 rounded-lg font-medium flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={18} className="mr-2" />
+              开始突击
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg font-medium"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
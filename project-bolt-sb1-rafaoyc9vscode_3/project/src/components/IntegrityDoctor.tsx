@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { Stethoscope, ChevronDown, ChevronUp, CheckCircle, Loader } from 'lucide-react';
+import { Collection, DailyPlaylist, VideoFile } from '../types';
+import { fileStorage } from '../hooks/useLocalStorage';
+import { diagnoseIntegrity } from '../utils/integrity';
+import { StoredFileInfo, formatBytes } from '../utils/storageUsage';
+
+interface IntegrityDoctorProps {
+  videos: VideoFile[];
+  collections: Collection[];
+  playlists: DailyPlaylist[];
+  onRecountCollections: () => void;
+  onDropDanglingItems: () => void;
+  onPurgeOrphanFiles: (fileIds: string[]) => Promise<void>;
+  onMarkNeedsRelink: (videoIds: string[]) => void;
+}
+
+// 每类问题最多列出的条数
+const MAX_LISTED = 8;
+
+const PLAYLIST_TYPE_LABELS: Record<DailyPlaylist['playlistType'], string> = {
+  new: '新学',
+  review: '复习',
+  cram: '考前突击',
+};
+
+interface IssueSectionProps {
+  title: string;
+  description: string;
+  lines: string[];
+  actionLabel: string;
+  onAction: () => void;
+  disabled?: boolean;
+}
+
+const IssueSection: React.FC<IssueSectionProps> = ({ title, description, lines, actionLabel, onAction, disabled }) => (
+  <div className="border border-orange-200 bg-orange-50 rounded-lg p-4">
+    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+      <div>
+        <h4 className="font-semibold text-gray-800">{title}（{lines.length}）</h4>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+      <button
+        onClick={onAction}
+        disabled={disabled}
+        className="bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap"
+      >
+        {actionLabel}
+      </button>
+    </div>
+    <ul className="mt-3 text-sm text-gray-700 space-y-1">
+      {lines.slice(0, MAX_LISTED).map((line, index) => (
+        <li key={index} className="truncate">· {line}</li>
+      ))}
+      {lines.length > MAX_LISTED && (
+        <li className="text-gray-500">…… 还有 {lines.length - MAX_LISTED} 项</li>
+      )}
+    </ul>
+  </div>
+);
+
+export const IntegrityDoctor: React.FC<IntegrityDoctorProps> = ({
+  videos,
+  collections,
+  playlists,
+  onRecountCollections,
+  onDropDanglingItems,
+  onPurgeOrphanFiles,
+  onMarkNeedsRelink,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  // 已保存文件的列表，为 null 表示还没检查
+  const [files, setFiles] = useState<StoredFileInfo[] | null>(null);
+  // 关联文件夹中已读取不到的文件
+  const [unreadableFileIds, setUnreadableFileIds] = useState<Set<string>>(new Set());
+  const [isScanning, setIsScanning] = useState(false);
+
+  const scanFiles = async () => {
+    setIsScanning(true);
+    try {
+      const nextFiles = await fileStorage.listFiles();
+      // 关联文件只保存了句柄，逐个尝试读取；没有授权的不弹出授权，按正常处理
+      const statuses = await Promise.all(nextFiles
+        .filter(file => file.linked)
+        .map(async file => ({ id: file.id, status: await fileStorage.getFileStatus(file.id) })));
+      setUnreadableFileIds(new Set(statuses.filter(({ status }) => status === 'missing').map(({ id }) => id)));
+      setFiles(nextFiles);
+    } catch (error) {
+      console.error('读取已保存文件失败', error);
+      alert('读取已保存的文件失败，请稍后重试');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // 元数据变化（修复后）时自动重新比对，文件列表只在检查和清理时重新读取
+  const report = useMemo(
+    () => files && diagnoseIntegrity(videos, collections, playlists, files, unreadableFileIds),
+    [videos, collections, playlists, files, unreadableFileIds]
+  );
+
+  const handlePurgeOrphans = async () => {
+    if (!report) return;
+    const bytes = report.orphanFiles.reduce((sum, file) => sum + file.size, 0);
+    if (!confirm(`确定删除 ${report.orphanFiles.length} 个没有对应视频的文件（${formatBytes(bytes)}）吗？删除后无法恢复。`)) return;
+    try {
+      await onPurgeOrphanFiles(report.orphanFiles.map(file => file.id));
+    } catch (error) {
+      console.error('删除孤立文件失败', error);
+      alert('部分文件删除失败，请稍后重试');
+    }
+    await scanFiles();
+  };
+
+  const relinkTargets = report ? [...report.missingFiles.filter(video => !video.needsRelink), ...report.staleRelinkFlags] : [];
+  const issueCount = report
+    ? report.orphanFiles.length + relinkTargets.length + report.counterMismatches.length + report.danglingPlaylists.length
+    : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <Stethoscope className="mr-3 text-teal-600" size={28} />
+          数据体检
+        </h2>
+        {isExpanded ? <ChevronUp size={24} className="text-gray-500" /> : <ChevronDown size={24} className="text-gray-500" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <p className="text-sm text-gray-600">
+              检查已保存的文件、视频记录、合辑计数和未完成的学习任务是否一致
+            </p>
+            <button
+              onClick={scanFiles}
+              disabled={isScanning}
+              className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center whitespace-nowrap"
+            >
+              {isScanning && <Loader size={16} className="animate-spin mr-2" />}
+              {report ? '重新检查' : '开始检查'}
+            </button>
+          </div>
+
+          {report && issueCount === 0 && (
+            <div className="flex items-center bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+              <CheckCircle size={20} className="mr-2" />
+              没有发现问题
+            </div>
+          )}
+
+          {report && report.orphanFiles.length > 0 && (
+            <IssueSection
+              title="孤立文件"
+              description="这些文件没有对应的视频记录（通常是删除时中断留下的），只占用空间"
+              lines={report.orphanFiles.map(file => `${file.name}（${formatBytes(file.size)}）`)}
+              actionLabel="清理孤立文件"
+              onAction={handlePurgeOrphans}
+              disabled={isScanning}
+            />
+          )}
+
+          {report && relinkTargets.length > 0 && (
+            <IssueSection
+              title="文件缺失"
+              description="这些视频在存储中找不到文件，或关联文件夹中的文件已被移动、删除，播放时会被跳过；标记后会在视频库中显示，方便重新导入或关联。文件已恢复的会取消标记"
+              lines={relinkTargets.map(video => video.needsRelink ? `${video.name}（文件已恢复）` : video.name)}
+              actionLabel="更新缺失标记"
+              onAction={() => onMarkNeedsRelink(report.missingFiles.map(video => video.id))}
+            />
+          )}
+
+          {report && report.counterMismatches.length > 0 && (
+            <IssueSection
+              title="合辑计数不符"
+              description="合辑记录的视频数或已完成数与实际不一致"
+              lines={report.counterMismatches.map(item =>
+                `${item.name}：视频 ${item.totalVideos} → ${item.actualTotal}，已完成 ${item.completedVideos} → ${item.actualCompleted}`
+              )}
+              actionLabel="重新计数"
+              onAction={onRecountCollections}
+            />
+          )}
+
+          {report && report.danglingPlaylists.length > 0 && (
+            <IssueSection
+              title="学习任务中的已删除视频"
+              description="未完成的学习任务里有已经删除的视频；去掉后进度保持不变，全部被删除的任务会整个移除"
+              lines={report.danglingPlaylists.map(item =>
+                `${item.date.toLocaleDateString('zh-CN')} ${PLAYLIST_TYPE_LABELS[item.playlistType]}：${item.missingVideoIds.length} 项已删除` +
+                (item.remainingCount === 0 ? '，任务将被移除' : '')
+              )}
+              actionLabel="移除失效项"
+              onAction={onDropDanglingItems}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
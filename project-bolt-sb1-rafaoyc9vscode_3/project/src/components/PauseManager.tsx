@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { PauseCircle, PlayCircle, Plane } from 'lucide-react';
+import { Collection, PausePeriod } from '../types';
+import { getPauseDays, isCollectionPaused } from '../utils/scheduler';
+
+interface PauseManagerProps {
+  collections: Collection[];
+  pausePeriods: PausePeriod[];
+  onPause: (collectionIds?: string[]) => void;
+  onResume: (pauseId: string) => void;
+  dayStartHour?: number;
+}
+
+export const PauseManager: React.FC<PauseManagerProps> = ({
+  collections,
+  pausePeriods,
+  onPause,
+  onResume,
+  dayStartHour = 0,
+}) => {
+  const [showDialog, setShowDialog] = useState(false);
+  const [pauseAll, setPauseAll] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const activePauses = pausePeriods.filter(p => !p.endDate);
+  const isAllPaused = activePauses.some(p => !p.collectionIds);
+  const pausableCollections = collections.filter(c => !isCollectionPaused(pausePeriods, c.id));
+
+  const getScopeText = (pause: PausePeriod) => {
+    if (!pause.collectionIds) return '全部合辑';
+    return pause.collectionIds
+      .map(id => collections.find(c => c.id === id)?.name || '未知合辑')
+      .join('、');
+  };
+
+  const toggleSelected = (collectionId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(collectionId)) {
+      next.delete(collectionId);
+    } else {
+      next.add(collectionId);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleConfirm = () => {
+    if (pauseAll) {
+      onPause();
+    } else if (selectedIds.size > 0) {
+      onPause(Array.from(selectedIds));
+    } else {
+      return;
+    }
+    setShowDialog(false);
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="mt-6">
+      {/* 进行中的暂停 */}
+      {activePauses.map(pause => (
+        <div key={pause.id} className="bg-sky-50 border border-sky-200 rounded-lg p-4 mb-3 flex flex-col md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center mb-3 md:mb-0">
+            <Plane className="text-sky-600 mr-3 flex-shrink-0" size={20} />
+            <div>
+              <p className="text-sky-800 font-medium">
+                学习已暂停：{getScopeText(pause)}
+              </p>
+              <p className="text-sky-700 text-sm">
+                自 {pause.startDate.toLocaleDateString('zh-CN')} 起，已暂停 {getPauseDays(pause, new Date(), dayStartHour)} 天，恢复后复习计划将整体顺延
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => onResume(pause.id)}
+            className="bg-sky-600 hover:bg-sky-700 text-white px-4 py-2 rounded-lg font-medium flex items-center justify-center transition-colors"
+          >
+            <PlayCircle size={18} className="mr-2" />
+            恢复学习
+          </button>
+        </div>
+      ))}
+
+      {!isAllPaused && pausableCollections.length > 0 && (
+        <div className="text-center">
+          <button
+            onClick={() => {
+              setPauseAll(true);
+              setShowDialog(true);
+            }}
+            className="text-gray-600 hover:text-gray-800 px-4 py-2 rounded-lg font-medium flex items-center mx-auto transition-colors"
+          >
+            <PauseCircle size={18} className="mr-2" />
+            暂停学习（假期模式）
+          </button>
+        </div>
+      )}
+
+      {showDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+              <PauseCircle className="mr-2 text-sky-600" size={24} />
+              暂停学习
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              暂停期间不会安排新学和复习；恢复时，复习日期和未完成的任务会按暂停天数整体顺延。
+            </p>
+
+            <div className="space-y-2 mb-6">
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  checked={pauseAll}
+                  onChange={() => setPauseAll(true)}
+                  className="mr-3"
+                />
+                <span className="text-gray-800">全部合辑</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  checked={!pauseAll}
+                  onChange={() => setPauseAll(false)}
+                  className="mr-3"
+                />
+                <span className="text-gray-800">指定合辑</span>
+              </label>
+              {!pauseAll && (
+                <div className="ml-7 space-y-2 max-h-48 overflow-y-auto">
+                  {pausableCollections.map(collection => (
+                    <label key={collection.id} className="flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(collection.id)}
+                        onChange={() => toggleSelected(collection.id)}
+                        className="mr-3"
+                      />
+                      <span
+                        className="w-3 h-3 rounded-full mr-2"
+                        style={{ backgroundColor: collection.color }}
+                      />
+                      <span className="text-gray-700">{collection.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={handleConfirm}
+                disabled={!pauseAll && selectedIds.size === 0}
+                className="flex-1 bg-sky-600 hover:bg-sky-700 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                开始暂停
+              </button>
+              <button
+                onClick={() => setShowDialog(false)}
+                className="flex-1 bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg font-medium"
+              >
+                取消
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
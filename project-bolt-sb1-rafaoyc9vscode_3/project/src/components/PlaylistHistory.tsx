@@ -1,11 +1,16 @@
 import React from 'react';
-import { History, Calendar, Play, Headphones, Video, CheckCircle } from 'lucide-react';
-import { DailyPlaylist, VideoFile } from '../types';
+import { History, Calendar, Play, Headphones, Video, CheckCircle, Plane, Zap } from 'lucide-react';
+import { Collection, DailyPlaylist, PausePeriod, PlaylistItem, VideoFile } from '../types';
+import { STAGE_LABELS } from '../utils/lifecycle';
+import { getPauseDays } from '../utils/scheduler';
 
 
 interface PlaylistHistoryProps {
   playlists: DailyPlaylist[];
   videos: VideoFile[];
+  collections?: Collection[];
+  pausePeriods?: PausePeriod[];
+  dayStartHour?: number;
   onClose: () => void;
   onSinglePlay?: (videoId: string) => void;
 }
@@ -13,9 +18,22 @@ interface PlaylistHistoryProps {
 export const PlaylistHistory: React.FC<PlaylistHistoryProps> = ({
   playlists,
   videos,
+  collections = [],
+  pausePeriods = [],
+  dayStartHour = 0,
   onClose,
   onSinglePlay,
 }) => {
+  // 暂停记录按开始时间倒序显示
+  const sortedPauses = [...pausePeriods].sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+
+  const getPauseScope = (pause: PausePeriod) => {
+    if (!pause.collectionIds) return '全部合辑';
+    return pause.collectionIds
+      .map(id => collections.find(c => c.id === id)?.name || '未知合辑')
+      .join('、');
+  };
+
   const getVideoName = (videoId: string) => {
     const video = videos.find(v => v.id === videoId);
     return video?.name || 'Unknown Video';
@@ -39,6 +57,34 @@ export const PlaylistHistory: React.FC<PlaylistHistoryProps> = ({
     }
   };
 
+  // 考前突击的筛选条件说明
+  const getCramSummary = (playlist: DailyPlaylist) => {
+    const filter = playlist.cramFilter;
+    if (!filter) return '考前突击';
+    const parts = [collections.find(c => c.id === filter.collectionId)?.name || '未知合辑'];
+    if (filter.stages.length > 0) parts.push(filter.stages.map(stage => STAGE_LABELS[stage]).join('/'));
+    if (filter.difficultOnly) parts.push('只看难点');
+    return `考前突击 · ${parts.join(' · ')}`;
+  };
+
+  // 播放结果：缺失 / 跳过 / 实际观看比例，以及是否已计入学习记录
+  const getOutcomeText = (item: PlaylistItem) => {
+    const outcome = item.outcome!;
+    if (outcome.missing) return '文件缺失，未计入';
+    const watched = `观看 ${outcome.watchedPercent}%`;
+    if (outcome.credited) return `${watched} · 已计入`;
+    if (outcome.skipped) return `${watched} · 已跳过`;
+    return watched;
+  };
+
+  const getOutcomeClass = (item: PlaylistItem) => {
+    const outcome = item.outcome!;
+    if (outcome.missing) return 'text-red-500';
+    if (outcome.credited) return 'text-green-600';
+    if (outcome.skipped) return 'text-orange-500';
+    return 'text-gray-500';
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full mx-4 max-h-[80vh] overflow-hidden">
@@ -55,6 +101,33 @@ export const PlaylistHistory: React.FC<PlaylistHistoryProps> = ({
           </button>
         </div>
         <div className="p-6 overflow-y-auto max-h-[calc(80vh-80px)]">
+          {sortedPauses.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-lg font-semibold text-gray-800 mb-3 flex items-center">
+                <Plane className="mr-2 text-sky-600" size={20} />
+                暂停记录
+              </h4>
+              <div className="space-y-3">
+                {sortedPauses.map(pause => (
+                  <div key={pause.id} className="border border-sky-200 bg-sky-50 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        {pause.startDate.toLocaleDateString('zh-CN')}
+                        {' - '}
+                        {pause.endDate ? pause.endDate.toLocaleDateString('zh-CN') : '至今'}
+                      </p>
+                      <p className="text-sm text-gray-600">范围：{getPauseScope(pause)}</p>
+                    </div>
+                    <span className="mt-2 md:mt-0 bg-sky-100 text-sky-700 px-3 py-1 rounded-full text-sm font-medium">
+                      {pause.endDate
+                        ? `顺延 ${pause.shiftedDays ?? 0} 天`
+                        : `暂停中 (${getPauseDays(pause, new Date(), dayStartHour)} 天)`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           {playlists.length === 0 ? (
             <div className="text-center py-12">
               <History size={64} className="mx-auto text-gray-400 mb-4" />
@@ -73,6 +146,12 @@ export const PlaylistHistory: React.FC<PlaylistHistoryProps> = ({
                       <span className="ml-3 text-sm text-gray-600">
                         共 {playlist.items.length} 个项目
                       </span>
+                      {playlist.playlistType === 'cram' && (
+                        <span className="ml-3 bg-rose-100 text-rose-700 px-3 py-1 rounded-full text-xs font-medium flex items-center">
+                          <Zap size={12} className="mr-1" />
+                          {getCramSummary(playlist)}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center">
                       {playlist.isCompleted ? (
@@ -123,6 +202,11 @@ export const PlaylistHistory: React.FC<PlaylistHistoryProps> = ({
                             第{item.reviewNumber}次复习
                           </p>
                         )}
+                        {item.outcome && (
+                          <p className={`text-xs ${getOutcomeClass(item)}`}>
+                            {getOutcomeText(item)}
+                          </p>
+                        )}
                       </div>
                     ))}
                   </div>
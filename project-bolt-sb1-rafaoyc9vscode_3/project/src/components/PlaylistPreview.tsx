@@ -1,6 +1,7 @@
 import React from 'react';
-import { Play, Headphones, Video, Calendar, Plus, Lightbulb } from 'lucide-react';
-import { PlaylistPreview as PlaylistPreviewType, VideoFile } from '../types';
+import { Play, Headphones, Video, Calendar, CalendarClock, Plus, Lightbulb } from 'lucide-react';
+import { PlaylistPreview as PlaylistPreviewType, VideoFile, BacklogDay } from '../types';
+import { STAGE_COLORS, getStageLabel } from '../utils/lifecycle';
 
 type PreviewType = 'new' | 'review';
 interface PlaylistPreviewProps {
@@ -8,6 +9,7 @@ interface PlaylistPreviewProps {
   videos: VideoFile[];
   onStartPlaylist: () => void;
   previewType: PreviewType;
+  backlogPlan?: BacklogDay[]; // 积压模式下的消化计划
 }
 
 export const PlaylistPreview: React.FC<PlaylistPreviewProps> = ({
@@ -15,12 +17,23 @@ export const PlaylistPreview: React.FC<PlaylistPreviewProps> = ({
   videos,
   onStartPlaylist,
   previewType,
+  backlogPlan,
 }) => {
   const getVideoName = (videoId: string) => {
     const video = videos.find(v => v.id === videoId);
     return video?.name || 'Unknown Video';
   };
 
+  const getStageBadge = (videoId: string) => {
+    const video = videos.find(v => v.id === videoId);
+    if (!video) return null;
+    return (
+      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STAGE_COLORS[video.stage]}`}>
+        {getStageLabel(video)}
+      </span>
+    );
+  };
+
   const getReviewPrompt = (item: any) => {
     if (item.isRecommendedForVideo && item.daysSinceFirstPlay) {
       const intervalText = item.reviewNumber === 4 ? '15天' : '30天';
@@ -41,6 +54,8 @@ export const PlaylistPreview: React.FC<PlaylistPreviewProps> = ({
   };
 
   const currentItems = getCurrentItems();
+  const backlogTotal = backlogPlan ? backlogPlan.reduce((sum, day) => sum + day.backlog, 0) : 0;
+  const maxDayLoad = backlogPlan ? Math.max(1, ...backlogPlan.map(day => day.backlog + day.regular)) : 1;
 
   if (currentItems.length === 0) {
     return (
@@ -128,6 +143,34 @@ export const PlaylistPreview: React.FC<PlaylistPreviewProps> = ({
         </div>
       )}
 
+      {previewType === 'review' && backlogPlan && backlogTotal > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+          <div className="flex items-center mb-3">
+            <CalendarClock className="text-blue-600 mr-2" size={20} />
+            <p className="text-blue-800 font-medium">
+              积压消化计划：{backlogTotal} 个逾期复习将在 {backlogPlan.filter(day => day.backlog > 0).length} 天内完成
+            </p>
+          </div>
+          <div className="space-y-1">
+            {backlogPlan.map(day => (
+              <div key={day.date.getTime()} className="flex items-center text-sm">
+                <span className="w-20 text-blue-700">
+                  {day.date.toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' })}
+                </span>
+                <div className="flex-1 flex h-3 bg-blue-100 rounded-full overflow-hidden">
+                  <div className="bg-blue-600" style={{ width: `${(day.backlog / maxDayLoad) * 100}%` }} />
+                  <div className="bg-yellow-400" style={{ width: `${(day.regular / maxDayLoad) * 100}%` }} />
+                </div>
+                <span className="w-24 text-right text-blue-700">
+                  {day.backlog} + {day.regular}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-blue-700 text-xs mt-2">蓝色为平摊的积压复习，黄色为当天正常到期的复习</p>
+        </div>
+      )}
+
       <div className="space-y-6">
         <div className={`rounded-lg p-4 ${
           previewType === 'new' ? 'bg-green-50' : 'bg-yellow-50'
@@ -169,6 +212,7 @@ export const PlaylistPreview: React.FC<PlaylistPreviewProps> = ({
                     previewType === 'new' ? 'text-green-700' : 'text-yellow-700'
                   }`}>
                     {index + 1}. {getVideoName(item.videoId)}{learnedMark}
+                    {previewType === 'review' && getStageBadge(item.videoId)}
                   </div>
                   {reviewPrompt && (
                     <div className="bg-orange-100 border border-orange-200 rounded p-2 mt-2 flex items-start">
@@ -0,0 +1,361 @@
+import React, { useRef, useState } from 'react';
+import {
+  RefreshCw,
+  ChevronDown,
+  ChevronUp,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Share2,
+  QrCode as QrCodeIcon,
+  Upload,
+  Camera,
+  Loader,
+  AlertTriangle,
+} from 'lucide-react';
+import { Collection, VideoFile } from '../types';
+import {
+  PROGRESS_EXTENSION,
+  ProgressChunk,
+  ProgressFile,
+  ProgressMergeEntry,
+  ProgressMergeReport,
+  ProgressUpdate,
+  canShareProgressFile,
+  collectProgress,
+  decodeProgressChunks,
+  downloadProgressFile,
+  encodeProgressChunks,
+  parseProgressChunk,
+  parseProgressFile,
+  prepareProgressMerge,
+  toProgressShareFile,
+} from '../utils/progressSync';
+import { QrCode } from './QrCode';
+import { QrScanner } from './QrScanner';
+import { isQrScanSupported } from '../utils/qrScanner';
+
+interface ProgressSyncPanelProps {
+  videos: VideoFile[];
+  collections: Collection[];
+  onApply: (updates: ProgressUpdate[]) => void;
+}
+
+// 待确认的合并
+interface MergePlan {
+  updates: ProgressUpdate[];
+  report: ProgressMergeReport;
+}
+
+// 报告中每类最多列出的条目数
+const MAX_LISTED = 5;
+
+const describeEntry = (entry: ProgressMergeEntry) =>
+  entry.item.collectionName ? `${entry.item.collectionName} / ${entry.item.name}` : entry.item.name;
+
+export const ProgressSyncPanel: React.FC<ProgressSyncPanelProps> = ({ videos, collections, onApply }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [qrChunks, setQrChunks] = useState<string[] | null>(null);
+  const [qrIndex, setQrIndex] = useState(0);
+  const [isScanning, setIsScanning] = useState(false);
+  const [received, setReceived] = useState<ProgressChunk[]>([]);
+  const [pasteText, setPasteText] = useState('');
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const receivedRef = useRef<ProgressChunk[]>([]);
+
+  const withProgress = async (label: string, action: () => Promise<void>, errorLabel: string) => {
+    setBusy(label);
+    try {
+      await action();
+    } catch (error) {
+      console.error(errorLabel, error);
+      alert(`${errorLabel}：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExportFile = () => withProgress('正在整理学习进度...', async () => {
+    const file = toProgressShareFile(await collectProgress(videos, collections));
+    if (canShareProgressFile(file)) {
+      try {
+        await navigator.share({ files: [file], title: '学习进度' });
+        return;
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.warn('分享失败，改为下载', error);
+      }
+    }
+    downloadProgressFile(file);
+  }, '导出进度失败');
+
+  const handleShowQr = () => withProgress('正在生成二维码...', async () => {
+    setQrChunks(await encodeProgressChunks(await collectProgress(videos, collections)));
+    setQrIndex(0);
+  }, '生成二维码失败');
+
+  const preparePlan = async (file: ProgressFile) => {
+    if (file.items.length === 0) {
+      alert('这个进度文件中没有学习记录');
+      return;
+    }
+    setPlan(await prepareProgressMerge(file, videos, collections));
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    withProgress('正在读取进度文件...', async () => preparePlan(parseProgressFile(await file.text())), '无法导入');
+  };
+
+  // 收到一段二维码内容；属于新的一组时丢弃之前收到的分段
+  const receiveChunk = (text: string) => {
+    const chunk = parseProgressChunk(text);
+    if (!chunk) return false;
+    const current = receivedRef.current;
+    const sameSet = current.length > 0 && current[0].setId === chunk.setId;
+    if (sameSet && current.some(item => item.index === chunk.index)) return true;
+    const next = sameSet ? [...current, chunk] : [chunk];
+    receivedRef.current = next;
+    setReceived(next);
+    if (next.length === chunk.total) {
+      receivedRef.current = [];
+      setReceived([]);
+      setIsScanning(false);
+      withProgress('正在还原进度...', async () => preparePlan(await decodeProgressChunks(next)), '无法导入');
+    }
+    return true;
+  };
+
+  const handlePaste = () => {
+    const lines = pasteText.split(/\s+/).filter(Boolean);
+    const accepted = lines.filter(line => receiveChunk(line)).length;
+    if (accepted === 0) {
+      alert('没有识别到进度分段，请粘贴二维码中的完整内容');
+      return;
+    }
+    setPasteText('');
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    onApply(plan.updates);
+    setPlan(null);
+    alert(`已合并 ${plan.updates.length} 个视频的学习进度`);
+  };
+
+  const receivedTotal = received[0]?.total;
+  const receivedText = receivedTotal ? `已收到 ${received.length} / ${receivedTotal} 段` : undefined;
+
+  const renderEntries = (entries: ProgressMergeEntry[]) => (
+    <ul className="ml-5 list-disc text-gray-600">
+      {entries.slice(0, MAX_LISTED).map((entry, index) => (
+        <li key={index} className="truncate">{describeEntry(entry)}</li>
+      ))}
+      {entries.length > MAX_LISTED && <li>…… 还有 {entries.length - MAX_LISTED} 项</li>}
+    </ul>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <RefreshCw className="mr-3 text-teal-600" size={28} />
+          多设备进度同步
+        </h2>
+        {isExpanded ? <ChevronUp size={24} className="text-gray-500" /> : <ChevronDown size={24} className="text-gray-500" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-6 space-y-6">
+          {busy && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center text-blue-800 font-medium">
+              <Loader size={18} className="animate-spin mr-2" />
+              {busy}
+            </div>
+          )}
+
+          {/* 导出 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">导出学习进度</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              只包含复习进度，不含媒体文件；另一台设备上需要已导入相同的视频
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleExportFile}
+                disabled={!!busy}
+                className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center"
+              >
+                {typeof navigator.canShare === 'function' ? <Share2 size={16} className="mr-2" /> : <Download size={16} className="mr-2" />}
+                分享进度文件
+              </button>
+              <button
+                onClick={qrChunks ? () => setQrChunks(null) : handleShowQr}
+                disabled={!!busy}
+                className="bg-white border border-teal-300 text-teal-700 hover:bg-teal-50 disabled:text-gray-400 disabled:border-gray-200 px-4 py-2 rounded-lg text-sm font-medium flex items-center"
+              >
+                <QrCodeIcon size={16} className="mr-2" />
+                {qrChunks ? '隐藏二维码' : '显示二维码'}
+              </button>
+            </div>
+
+            {qrChunks && (
+              <div className="mt-4 flex flex-col items-center bg-gray-50 rounded-lg p-4">
+                <QrCode value={qrChunks[qrIndex]} />
+                <div className="flex items-center space-x-4 mt-3">
+                  <button
+                    onClick={() => setQrIndex(index => Math.max(0, index - 1))}
+                    disabled={qrIndex === 0}
+                    className="p-2 rounded-full hover:bg-gray-200 disabled:text-gray-300"
+                  >
+                    <ChevronLeft size={20} />
+                  </button>
+                  <span className="text-sm text-gray-700">第 {qrIndex + 1} / {qrChunks.length} 张</span>
+                  <button
+                    onClick={() => setQrIndex(index => Math.min(qrChunks.length - 1, index + 1))}
+                    disabled={qrIndex === qrChunks.length - 1}
+                    className="p-2 rounded-full hover:bg-gray-200 disabled:text-gray-300"
+                  >
+                    <ChevronRight size={20} />
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">在另一台设备上依次扫描每一张，顺序不限</p>
+              </div>
+            )}
+          </div>
+
+          {/* 导入 */}
+          <div className="border-t border-gray-100 pt-6">
+            <h3 className="text-lg font-semibold text-gray-800">合并另一台设备的进度</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              按内容指纹或“合辑 + 文件名 + 大小”对应视频，双方都学过时以最近改动的一方为准
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!busy}
+                className="bg-white border border-teal-300 text-teal-700 hover:bg-teal-50 disabled:text-gray-400 disabled:border-gray-200 px-4 py-2 rounded-lg text-sm font-medium flex items-center"
+              >
+                <Upload size={16} className="mr-2" />
+                选择进度文件
+              </button>
+              {isQrScanSupported() && (
+                <button
+                  onClick={() => setIsScanning(!isScanning)}
+                  disabled={!!busy}
+                  className="bg-white border border-teal-300 text-teal-700 hover:bg-teal-50 disabled:text-gray-400 disabled:border-gray-200 px-4 py-2 rounded-lg text-sm font-medium flex items-center"
+                >
+                  <Camera size={16} className="mr-2" />
+                  {isScanning ? '停止扫描' : '扫描二维码'}
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={`${PROGRESS_EXTENSION},application/json`}
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+
+            {isScanning && (
+              <div className="mt-4">
+                <QrScanner progressText={receivedText} onDetect={receiveChunk} onClose={() => setIsScanning(false)} />
+              </div>
+            )}
+
+            <div className="mt-4">
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder="无法扫码时，可以粘贴二维码中的文字（每段一行）"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-500">{receivedText}</span>
+                <button
+                  onClick={handlePaste}
+                  disabled={!pasteText.trim() || !!busy}
+                  className="bg-gray-100 hover:bg-gray-200 disabled:text-gray-400 text-gray-700 px-3 py-1.5 rounded-lg text-sm"
+                >
+                  添加分段
+                </button>
+              </div>
+            </div>
+
+            {plan && (
+              <div className="mt-4 bg-gray-50 rounded-lg p-4 space-y-3 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-gray-700">
+                  <div>采用导入的进度：<span className="font-semibold text-teal-700">{plan.report.applied.length}</span></div>
+                  <div>本机较新保留：<span className="font-semibold">{plan.report.keptLocal.length}</span></div>
+                  <div>已一致：<span className="font-semibold">{plan.report.unchanged}</span></div>
+                  <div>冲突：<span className="font-semibold text-orange-600">{plan.report.conflicts.length}</span></div>
+                  <div>找不到对应视频：<span className="font-semibold">{plan.report.unmatched.length}</span></div>
+                  <div>无法确定对应：<span className="font-semibold">{plan.report.ambiguous.length}</span></div>
+                </div>
+
+                {plan.report.conflicts.length > 0 && (
+                  <div className="text-orange-700">
+                    <p className="flex items-center font-medium">
+                      <AlertTriangle size={16} className="mr-2" />
+                      两台设备都各自复习过，将以最近改动的一方为准，另一方多出的复习会被覆盖
+                    </p>
+                    <ul className="ml-6 mt-1 space-y-0.5">
+                      {plan.report.conflicts.slice(0, MAX_LISTED).map((entry, index) => (
+                        <li key={index} className="truncate">
+                          {describeEntry(entry)}：保留{entry.winner === 'remote' ? '导入的' : '本机的'}进度
+                          （本机 {entry.video?.reviewCount ?? 0} 次，导入 {entry.item.state.reviewCount} 次）
+                        </li>
+                      ))}
+                      {plan.report.conflicts.length > MAX_LISTED && (
+                        <li>…… 还有 {plan.report.conflicts.length - MAX_LISTED} 项</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+
+                {plan.report.unmatched.length > 0 && (
+                  <div>
+                    <p className="text-gray-700">以下视频在本机找不到，请先导入相同的文件：</p>
+                    {renderEntries(plan.report.unmatched)}
+                  </div>
+                )}
+
+                {plan.report.ambiguous.length > 0 && (
+                  <div>
+                    <p className="text-gray-700">以下视频在本机有多个同名同大小的条目，没有自动合并：</p>
+                    {renderEntries(plan.report.ambiguous)}
+                  </div>
+                )}
+
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleApply}
+                    disabled={plan.updates.length === 0}
+                    className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium"
+                  >
+                    {plan.updates.length > 0 ? `合并 ${plan.updates.length} 项` : '没有需要更新的进度'}
+                  </button>
+                  <button
+                    onClick={() => setPlan(null)}
+                    className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium"
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
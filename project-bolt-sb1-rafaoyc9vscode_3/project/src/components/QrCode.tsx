@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// 四周留白的模块数，扫码器需要空白才能定位
+const QUIET_ZONE = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 280 }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    // 每个深色模块画成一个 1×1 的方块，合并成一条路径
+    const segments: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: segments.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className="bg-white"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
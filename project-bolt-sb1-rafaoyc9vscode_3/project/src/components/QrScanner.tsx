@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { createQrDetector } from '../utils/qrScanner';
+
+// 两次识别之间的间隔（毫秒）
+const SCAN_INTERVAL = 300;
+
+interface QrScannerProps {
+  progressText?: string;
+  onDetect: (text: string) => void;
+  onClose: () => void;
+}
+
+export const QrScanner: React.FC<QrScannerProps> = ({ progressText, onDetect, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectRef = useRef(onDetect);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDetectRef.current = onDetect;
+  }, [onDetect]);
+
+  useEffect(() => {
+    const detector = createQrDetector();
+    if (!detector) return;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= video.HAVE_CURRENT_DATA) {
+          const codes = await detector.detect(video);
+          codes.forEach(code => onDetectRef.current(code.rawValue));
+        }
+      } catch (err) {
+        console.warn('识别二维码失败', err);
+      }
+      if (!cancelled) timer = window.setTimeout(scan, SCAN_INTERVAL);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => undefined);
+        }
+        scan();
+      })
+      .catch(err => {
+        console.error('无法打开摄像头', err);
+        setError('无法打开摄像头，请检查权限设置');
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="relative bg-black rounded-lg overflow-hidden">
+      <video ref={videoRef} muted playsInline className="w-full max-h-80 object-contain" />
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 bg-black bg-opacity-50 text-white p-1.5 rounded-full hover:bg-opacity-70"
+        title="关闭摄像头"
+      >
+        <X size={18} />
+      </button>
+      <div className="absolute bottom-0 inset-x-0 bg-black bg-opacity-50 text-white text-sm text-center py-2">
+        {error ?? progressText ?? '将二维码对准摄像头'}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { Settings, ChevronDown, ChevronUp, Check } from 'lucide-react';
+import { AppSettings, IntervalAnchor, NewItemSelection } from '../types';
+import { SCHEDULING_ALGORITHMS } from '../utils/scheduler';
+import { isReminderSupported } from '../utils/reminders';
+
+const ANCHOR_OPTIONS: { id: IntervalAnchor; name: string; description: string }[] = [
+  { id: 'lastReview', name: '按实际复习日', description: '从这次复习的日期起算，晚复习几天，后面的复习也顺延几天' },
+  { id: 'scheduled', name: '按计划日期', description: '从原定的到期日起算，偶尔晚复习不会打乱后面的节奏' },
+  { id: 'firstPlay', name: '按首次播放日', description: '固定间隔算法下，阶梯中的天数即距第一次播放的天数' },
+];
+
+const SELECTION_OPTIONS: { id: NewItemSelection; name: string; description: string }[] = [
+  { id: 'episode', name: '按合辑依次', description: '先学完排在前面的合辑的当日份额，再轮到下一个合辑' },
+  { id: 'roundRobin', name: '各合辑轮流', description: '每个合辑轮流取一集，合计上限不够时各合辑机会均等' },
+  { id: 'weighted', name: '按优先级分配', description: '按合辑设置的优先级（1-5）成比例分配新学名额' },
+];
+
+// 学习日开始时间可选 0:00 - 12:00
+const DAY_START_HOURS = Array.from({ length: 13 }, (_, i) => i);
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onUpdateSettings: (changes: Partial<AppSettings>) => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onUpdateSettings }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const reminderSupported = isReminderSupported();
+  const [notificationPermission, setNotificationPermission] = useState(
+    () => (reminderSupported ? Notification.permission : 'denied')
+  );
+
+  // 开启提醒前先申请通知权限，未授权时保持关闭
+  const handleToggleReminder = async (enabled: boolean) => {
+    if (!enabled) {
+      onUpdateSettings({ reminderEnabled: false });
+      return;
+    }
+    const permission = Notification.permission === 'granted'
+      ? 'granted'
+      : await Notification.requestPermission();
+    setNotificationPermission(permission);
+    if (permission === 'granted') {
+      onUpdateSettings({ reminderEnabled: true });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <Settings className="mr-3 text-gray-600" size={28} />
+          学习设置
+        </h2>
+        {isExpanded ? <ChevronUp size={24} className="text-gray-500" /> : <ChevronDown size={24} className="text-gray-500" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-6 space-y-6">
+          {/* 调度算法 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">复习调度算法</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {Object.values(SCHEDULING_ALGORITHMS).map(algorithm => {
+                const isSelected = settings.schedulerAlgorithm === algorithm.id;
+                return (
+                  <button
+                    key={algorithm.id}
+                    onClick={() => onUpdateSettings({ schedulerAlgorithm: algorithm.id })}
+                    className={`text-left border-2 rounded-lg p-4 transition-all ${
+                      isSelected
+                        ? 'border-blue-400 bg-blue-50'
+                        : 'border-gray-200 bg-gray-50 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-gray-800">{algorithm.name}</span>
+                      {isSelected && <Check size={18} className="text-blue-600" />}
+                    </div>
+                    <p className="text-sm text-gray-600">{algorithm.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              切换算法只影响之后的播放，已排定的复习日期保持不变
+            </p>
+          </div>
+
+          {/* 新学安排 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">新学安排</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {SELECTION_OPTIONS.map(option => {
+                const isSelected = settings.newItemSelection === option.id;
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => onUpdateSettings({ newItemSelection: option.id })}
+                    className={`text-left border-2 rounded-lg p-4 transition-all ${
+                      isSelected
+                        ? 'border-blue-400 bg-blue-50'
+                        : 'border-gray-200 bg-gray-50 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-gray-800">{option.name}</span>
+                      {isSelected && <Check size={18} className="text-blue-600" />}
+                    </div>
+                    <p className="text-sm text-gray-600">{option.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex items-center mt-4">
+              <span className="text-sm text-gray-700 mr-2">所有合辑每日合计最多新学</span>
+              <input
+                type="number"
+                min={0}
+                value={settings.maxNewPerDayTotal}
+                onChange={(e) => {
+                  const count = Number(e.target.value);
+                  if (Number.isInteger(count) && count >= 0) {
+                    onUpdateSettings({ maxNewPerDayTotal: count });
+                  }
+                }}
+                className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-sm text-gray-700 ml-2">集</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              0 表示不限，只受各合辑自己的每日上限约束；同一合辑内总是按集数顺序学习
+            </p>
+            <div className="flex items-center mt-4">
+              <span className="text-sm text-gray-700 mr-2">每日学习时长预算</span>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={settings.dailyMinutesBudget}
+                onChange={(e) => {
+                  const minutes = Number(e.target.value);
+                  if (Number.isInteger(minutes) && minutes >= 0) {
+                    onUpdateSettings({ dailyMinutesBudget: minutes });
+                  }
+                }}
+                className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-sm text-gray-700 ml-2">分钟</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              先扣除当天复习的时长，剩余时间按顺序安排新学；0 表示只按集数计算。没有时长信息的条目按同合辑平均时长估算
+            </p>
+          </div>
+
+          {/* 观看计入 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">观看计入</h3>
+            <div className="flex items-center">
+              <span className="text-sm text-gray-700 mr-2">实际观看达到</span>
+              <input
+                type="number"
+                min={50}
+                max={100}
+                value={settings.watchThreshold}
+                onChange={(e) => {
+                  const percent = Number(e.target.value);
+                  if (Number.isInteger(percent) && percent >= 50 && percent <= 100) {
+                    onUpdateSettings({ watchThreshold: percent });
+                  }
+                }}
+                className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-sm text-gray-700 ml-2">% 才计入学习记录</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              拖动进度条跳过的部分不算观看；跳过或文件缺失的项目不会推进复习计划
+            </p>
+          </div>
+
+          {/* 学习日与间隔 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">学习日与间隔</h3>
+            <div className="flex items-center mb-1">
+              <span className="text-sm text-gray-700 mr-2">每个学习日从</span>
+              <select
+                value={settings.dayStartHour}
+                onChange={(e) => onUpdateSettings({ dayStartHour: Number(e.target.value) })}
+                className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {DAY_START_HOURS.map(hour => (
+                  <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-700 ml-2">开始</span>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              在此之前的学习算作前一天；到期的复习从当天这个时间起就会出现
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {ANCHOR_OPTIONS.map(option => {
+                const isSelected = settings.intervalAnchor === option.id;
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => onUpdateSettings({ intervalAnchor: option.id })}
+                    className={`text-left border-2 rounded-lg p-4 transition-all ${
+                      isSelected
+                        ? 'border-blue-400 bg-blue-50'
+                        : 'border-gray-200 bg-gray-50 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-gray-800">{option.name}</span>
+                      {isSelected && <Check size={18} className="text-blue-600" />}
+                    </div>
+                    <p className="text-sm text-gray-600">{option.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+            <label className="flex items-start cursor-pointer mt-4">
+              <input
+                type="checkbox"
+                checked={settings.maintenanceReviews}
+                onChange={(e) => onUpdateSettings({ maintenanceReviews: e.target.checked })}
+                className="mt-1 mr-3 h-4 w-4 text-blue-600 rounded"
+              />
+              <span>
+                <span className="font-medium text-gray-800">毕业后维护复习</span>
+                <span className="block text-sm text-gray-600">
+                  走完间隔阶梯的内容不再彻底结束，而是按阶梯中最长的间隔继续复习；忘记了会退回重新学习
+                </span>
+              </span>
+            </label>
+          </div>
+
+          {/* 复习积压 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">复习积压</h3>
+            <div className="space-y-3">
+              <label className="flex items-start cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.backlogMode}
+                  onChange={(e) => onUpdateSettings({ backlogMode: e.target.checked })}
+                  className="mt-1 mr-3 h-4 w-4 text-blue-600 rounded"
+                />
+                <span>
+                  <span className="font-medium text-gray-800">积压平摊模式</span>
+                  <span className="block text-sm text-gray-600">
+                    中断几天后，把逾期的复习按遗忘风险从高到低平摊到接下来几天，而不是一次全部安排
+                  </span>
+                </span>
+              </label>
+              {settings.backlogMode && (
+                <div className="flex items-center ml-7">
+                  <span className="text-sm text-gray-700 mr-2">平摊到</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={settings.backlogSpreadDays}
+                    onChange={(e) => {
+                      const days = Number(e.target.value);
+                      if (Number.isInteger(days) && days >= 1 && days <= 30) {
+                        onUpdateSettings({ backlogSpreadDays: days });
+                      }
+                    }}
+                    className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <span className="text-sm text-gray-700 ml-2">天内完成</span>
+                </div>
+              )}
+              <label className="flex items-start cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.fuzzDueDates}
+                  onChange={(e) => onUpdateSettings({ fuzzDueDates: e.target.checked })}
+                  className="mt-1 mr-3 h-4 w-4 text-blue-600 rounded"
+                />
+                <span>
+                  <span className="font-medium text-gray-800">到期日随机错开</span>
+                  <span className="block text-sm text-gray-600">
+                    为较长的间隔加入几天的随机浮动，避免同一批导入的内容总在同一天到期
+                  </span>
+                </span>
+              </label>
+            </div>
+          </div>
+
+          {/* 学习提醒 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">学习提醒</h3>
+            {reminderSupported ? (
+              <div className="space-y-3">
+                <label className="flex items-start cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.reminderEnabled}
+                    onChange={(e) => handleToggleReminder(e.target.checked)}
+                    className="mt-1 mr-3 h-4 w-4 text-blue-600 rounded"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-800">每日提醒</span>
+                    <span className="block text-sm text-gray-600">
+                      到点发送通知，告诉你今天有多少待复习和新内容，点击直接进入复习；支持的设备上应用图标会显示待学数量
+                    </span>
+                  </span>
+                </label>
+                {settings.reminderEnabled && (
+                  <div className="flex items-center ml-7">
+                    <span className="text-sm text-gray-700 mr-2">每天</span>
+                    <input
+                      type="time"
+                      value={settings.reminderTime}
+                      onChange={(e) => {
+                        if (e.target.value) {
+                          onUpdateSettings({ reminderTime: e.target.value });
+                        }
+                      }}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-700 ml-2">提醒</span>
+                  </div>
+                )}
+                {notificationPermission === 'denied' && (
+                  <p className="text-xs text-red-500">
+                    通知权限已被拒绝，请在浏览器的网站设置中允许通知后再开启
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">
+                  应用未打开时的提醒需要安装到桌面并由浏览器支持后台同步；否则只在应用打开期间到点提醒
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">当前浏览器不支持通知提醒</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
-import { BarChart3, Target, Calendar, Zap, TrendingUp, Folder, Headphones } from 'lucide-react';
+import { BarChart3, Target, Calendar, Zap, TrendingUp, Folder, Headphones, Plane } from 'lucide-react';
 import { LearningStats } from '../types';
+import { LIFECYCLE_STAGES, STAGE_LABELS } from '../utils/lifecycle';
 
 interface StatsCardProps {
   stats: LearningStats;
@@ -60,11 +61,24 @@ export const StatsCard: React.FC<StatsCardProps> = ({ stats }) => {
             <div>
               <p className="text-white/80 text-sm">活跃合辑</p>
               <p className="text-2xl font-bold">{stats.activeCollections}</p>
+              {stats.pausedCollections > 0 && (
+                <p className="text-white/70 text-xs">{stats.pausedCollections} 个暂停中</p>
+              )}
             </div>
             <Folder className="text-white/60" size={24} />
           </div>
         </div>
 
+        <div className="bg-white/20 rounded-lg p-4 backdrop-blur-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-white/80 text-sm">暂停天数</p>
+              <p className="text-2xl font-bold">{stats.totalPausedDays}</p>
+            </div>
+            <Plane className="text-white/60" size={24} />
+          </div>
+        </div>
+
         <div className="bg-white/20 rounded-lg p-4 backdrop-blur-sm">
           <div className="flex items-center justify-between">
             <div>
@@ -75,6 +89,15 @@ export const StatsCard: React.FC<StatsCardProps> = ({ stats }) => {
           </div>
         </div>
       </div>
+
+      {/* 各阶段条目数 */}
+      <div className="flex flex-wrap gap-2 mt-4">
+        {LIFECYCLE_STAGES.map(stage => (
+          <span key={stage} className="bg-white/20 rounded-full px-3 py-1 text-sm backdrop-blur-sm">
+            {STAGE_LABELS[stage]} {stats.stageCounts[stage]}
+          </span>
+        ))}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HardDrive, ChevronDown, ChevronUp, RefreshCw, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { Collection, VideoFile } from '../types';
+import { fileStorage } from '../hooks/useLocalStorage';
+import {
+  StorageEstimateInfo,
+  StoredFileInfo,
+  formatBytes,
+  getStorageEstimate,
+  isStoragePersisted,
+  requestPersistentStorage,
+  summarizeStorage,
+} from '../utils/storageUsage';
+
+interface StoragePanelProps {
+  videos: VideoFile[];
+  collections: Collection[];
+}
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({ videos, collections }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [estimate, setEstimate] = useState<StorageEstimateInfo | null>(null);
+  const [files, setFiles] = useState<StoredFileInfo[]>([]);
+  const [isPersisted, setIsPersisted] = useState(false);
+  const [persistDenied, setPersistDenied] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // 展开时读取，条目增删后重新统计
+  useEffect(() => {
+    if (!isExpanded) return;
+    let cancelled = false;
+    setIsScanning(true);
+    Promise.all([getStorageEstimate(), fileStorage.listFiles(), isStoragePersisted()])
+      .then(([nextEstimate, nextFiles, persisted]) => {
+        if (cancelled) return;
+        setEstimate(nextEstimate);
+        setFiles(nextFiles);
+        setIsPersisted(persisted);
+      })
+      .catch(error => console.error('读取存储信息失败', error))
+      .finally(() => {
+        if (!cancelled) setIsScanning(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, refreshKey, videos.length]);
+
+  const breakdown = useMemo(
+    () => summarizeStorage(files, videos, collections),
+    [files, videos, collections]
+  );
+
+  const handleRequestPersist = async () => {
+    const granted = await requestPersistentStorage();
+    setIsPersisted(granted);
+    setPersistDenied(!granted);
+  };
+
+  const usagePercent = estimate && estimate.quota > 0
+    ? Math.min(100, Math.round((estimate.usage / estimate.quota) * 100))
+    : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <HardDrive className="mr-3 text-slate-600" size={28} />
+          存储空间
+        </h2>
+        {isExpanded ? <ChevronUp size={24} className="text-gray-500" /> : <ChevronDown size={24} className="text-gray-500" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-6 space-y-6">
+          {/* 浏览器存储用量 */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-gray-800">浏览器存储</h3>
+              <button
+                onClick={() => setRefreshKey(key => key + 1)}
+                disabled={isScanning}
+                className="text-sm text-blue-600 hover:text-blue-700 flex items-center disabled:text-gray-400"
+              >
+                <RefreshCw size={14} className={`mr-1 ${isScanning ? 'animate-spin' : ''}`} />
+                刷新
+              </button>
+            </div>
+            {estimate ? (
+              <>
+                <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
+                  <div
+                    className={`h-3 rounded-full ${usagePercent >= 90 ? 'bg-red-500' : usagePercent >= 70 ? 'bg-orange-400' : 'bg-blue-500'}`}
+                    style={{ width: `${usagePercent}%` }}
+                  />
+                </div>
+                <p className="text-sm text-gray-600">
+                  已用 {formatBytes(estimate.usage)} / 可用配额 {formatBytes(estimate.quota)}（{usagePercent}%），
+                  其中媒体文件 {formatBytes(breakdown.totalBytes)}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">当前浏览器无法估算存储用量</p>
+            )}
+          </div>
+
+          {/* 持久存储 */}
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 bg-gray-50 rounded-lg p-4">
+            <div className="flex items-start">
+              {isPersisted ? (
+                <ShieldCheck size={20} className="text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle size={20} className="text-orange-500 mr-2 mt-0.5 flex-shrink-0" />
+              )}
+              <div>
+                <p className="font-medium text-gray-800">{isPersisted ? '已启用持久存储' : '未启用持久存储'}</p>
+                <p className="text-sm text-gray-600">
+                  {isPersisted
+                    ? '空间紧张时浏览器不会自动清理本应用的数据'
+                    : '空间紧张时浏览器可能清理本应用保存的视频和学习记录'}
+                </p>
+                {persistDenied && (
+                  <p className="text-xs text-red-500 mt-1">浏览器未批准，安装到桌面或经常使用本应用后再试</p>
+                )}
+              </div>
+            </div>
+            {!isPersisted && (
+              <button
+                onClick={handleRequestPersist}
+                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap"
+              >
+                申请持久存储
+              </button>
+            )}
+          </div>
+
+          {/* 按合辑统计 */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">各合辑占用</h3>
+            {breakdown.collections.length === 0 ? (
+              <p className="text-sm text-gray-500">还没有保存的媒体文件</p>
+            ) : (
+              <div className="space-y-2">
+                {breakdown.collections.map(item => (
+                  <div key={item.collectionId}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700 truncate mr-2">{item.name}（{item.fileCount} 个）</span>
+                      <span className="text-gray-600 whitespace-nowrap">{formatBytes(item.bytes)}</span>
+                    </div>
+                    <div className="w-full bg-gray-100 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full"
+                        style={{
+                          width: `${breakdown.totalBytes > 0 ? (item.bytes / breakdown.totalBytes) * 100 : 0}%`,
+                          backgroundColor: item.color ?? '#3B82F6',
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {breakdown.orphanCount > 0 && (
+              <p className="text-xs text-orange-600 mt-3">
+                另有 {breakdown.orphanCount} 个文件（{formatBytes(breakdown.orphanBytes)}）没有对应的视频
+              </p>
+            )}
+          </div>
+
+          {/* 最大的条目 */}
+          {breakdown.largest.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">占用最多的视频</h3>
+              <ul className="divide-y divide-gray-100">
+                {breakdown.largest.map(item => (
+                  <li key={item.videoId} className="flex justify-between py-2 text-sm">
+                    <span className="truncate mr-2">
+                      <span className="text-gray-800">{item.name}</span>
+                      {item.collectionName && <span className="text-gray-400 ml-2">{item.collectionName}</span>}
+                    </span>
+                    <span className="text-gray-600 whitespace-nowrap">{formatBytes(item.bytes)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Flame, Trophy, CalendarCheck } from 'lucide-react';
+import { DailyPlaylist, PausePeriod, ReviewEvent, StudyDay, VideoFile } from '../types';
+import { buildStudyDays, getStudyStreaks } from '../utils/studyCalendar';
+import { reviewEventLog } from '../utils/eventLog';
+import { subscribeChanges } from '../utils/crossTab';
+
+interface StudyHeatmapProps {
+  videos: VideoFile[];
+  playlists: DailyPlaylist[];
+  pausePeriods: PausePeriod[];
+  dayStartHour?: number;
+}
+
+const WEEKDAY_LABELS = ['日', '', '二', '', '四', '', '六'];
+
+// 完成的日子按学习条目数分深浅
+const getCellClass = (day: StudyDay) => {
+  if (day.isPaused) return 'bg-sky-200';
+  if (day.isDone) {
+    if (day.studiedItems >= 9) return 'bg-green-700';
+    if (day.studiedItems >= 4) return 'bg-green-500';
+    return 'bg-green-300';
+  }
+  if (day.dueItems > 0 || day.plannedNewSessions > 0) return 'bg-orange-200';
+  if (day.studiedItems > 0) return 'bg-green-100';
+  return 'bg-gray-100';
+};
+
+const getCellTitle = (day: StudyDay) => {
+  const date = day.date.toLocaleDateString('zh-CN');
+  if (day.isPaused) return `${date}：暂停中`;
+  if (day.dueItems === 0 && day.plannedNewSessions === 0) {
+    return day.studiedItems > 0 ? `${date}：没有学习计划，学习 ${day.studiedItems} 个` : `${date}：没有学习计划`;
+  }
+  const progress = [
+    day.dueItems > 0 ? `复习 ${day.reviewedItems}/${day.dueItems} 个到期条目` : '',
+    day.plannedNewSessions > 0 ? `完成 ${day.completedNewSessions}/${day.plannedNewSessions} 个新学任务` : '',
+  ].filter(Boolean).join('，');
+  const status = day.isDone ? '已完成' : progress;
+  return `${date}：${status}，学习 ${day.studiedItems} 个`;
+};
+
+export const StudyHeatmap: React.FC<StudyHeatmapProps> = ({
+  videos,
+  playlists,
+  pausePeriods,
+  dayStartHour = 0,
+}) => {
+  const [events, setEvents] = useState<ReviewEvent[]>([]);
+
+  // 打开时读取一次学习事件，之后只在写入新事件时重新读取（其他标签页的复习随条目变化一起通知）
+  useEffect(() => {
+    let cancelled = false;
+    const loadEvents = () => {
+      reviewEventLog.getAll()
+        .then(nextEvents => {
+          if (!cancelled) setEvents(nextEvents);
+        })
+        .catch(error => console.error('读取学习事件失败', error));
+    };
+    loadEvents();
+    const unsubscribeLocal = reviewEventLog.subscribe(loadEvents);
+    const unsubscribeRemote = subscribeChanges(message => {
+      if (message.type === 'records' && message.store === 'videos') loadEvents();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribeLocal();
+      unsubscribeRemote();
+    };
+  }, []);
+
+  const studyDays = useMemo(
+    () => buildStudyDays(events, playlists, videos, pausePeriods, new Date(), dayStartHour),
+    [events, playlists, videos, pausePeriods, dayStartHour]
+  );
+  const streaks = getStudyStreaks(studyDays);
+  const doneDays = studyDays.filter(day => day.isDone).length;
+
+  // 按周分列，第一列前面补齐到周日
+  const weeks = useMemo(() => {
+    const cells: (StudyDay | null)[] = [
+      ...Array.from({ length: studyDays[0]?.date.getDay() ?? 0 }, () => null),
+      ...studyDays,
+    ];
+    const result: (StudyDay | null)[][] = [];
+    for (let i = 0; i < cells.length; i += 7) {
+      result.push(cells.slice(i, i + 7));
+    }
+    return result;
+  }, [studyDays]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 gap-3">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center">
+          <CalendarCheck className="mr-3 text-green-600" size={24} />
+          学习日历
+        </h2>
+        <div className="flex flex-wrap gap-3 text-sm">
+          <span className="bg-orange-100 text-orange-700 px-3 py-1 rounded-full flex items-center">
+            <Flame size={14} className="mr-1" />
+            当前连续 {streaks.current} 天
+          </span>
+          <span className="bg-yellow-100 text-yellow-700 px-3 py-1 rounded-full flex items-center">
+            <Trophy size={14} className="mr-1" />
+            最长连续 {streaks.longest} 天
+          </span>
+          <span className="bg-green-100 text-green-700 px-3 py-1 rounded-full">
+            过去一年完成 {doneDays} 天
+          </span>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="flex gap-[3px] min-w-max">
+          <div className="flex flex-col gap-[3px] mr-1">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <div key={index} className="h-3 text-[10px] leading-3 text-gray-400">{label}</div>
+            ))}
+          </div>
+          {weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="flex flex-col gap-[3px]">
+              {week.map((day, dayIndex) => (
+                day ? (
+                  <div
+                    key={dayIndex}
+                    className={`w-3 h-3 rounded-sm ${getCellClass(day)}`}
+                    title={getCellTitle(day)}
+                  />
+                ) : (
+                  <div key={dayIndex} className="w-3 h-3" />
+                )
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-3">
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-gray-100 mr-1" />无学习计划</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-green-100 mr-1" />计划外学习</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-orange-200 mr-1" />未完成</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-green-300 mr-1" />完成</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-green-700 mr-1" />学习较多</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-sky-200 mr-1" />暂停</span>
+        <span>当天到期的复习和计划的新学任务全部完成即算打卡，加餐和考前突击不计入，没有学习计划的日子不中断连续天数</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { MoreVertical, RotateCcw, CalendarClock, ChevronsLeft, ChevronsRight, Undo2 } from 'lucide-react';
+import { VideoFile } from '../types';
+import { isGraduated } from '../utils/lifecycle';
+
+interface VideoActionsMenuProps {
+  video: VideoFile;
+  onReset: (videoId: string) => void;
+  onReschedule: (videoId: string, dueDate: Date) => void;
+  onShiftStage: (videoId: string, delta: 1 | -1) => void;
+  onUndoReview: (videoId: string) => Promise<boolean>;
+}
+
+// 日期输入框使用本地日期 yyyy-mm-dd
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const parseDateInputValue = (value: string): Date | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+};
+
+export const VideoActionsMenu: React.FC<VideoActionsMenuProps> = ({
+  video,
+  onReset,
+  onReschedule,
+  onShiftStage,
+  onUndoReview,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [dueDate, setDueDate] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isSuspended = video.stage === 'suspended';
+  const hasProgress = video.stage !== 'new' && !isSuspended;
+  const canReschedule = hasProgress && (!!video.nextReviewDate || !isGraduated(video));
+
+  const close = () => {
+    setIsOpen(false);
+    setConfirmReset(false);
+    setNotice(null);
+  };
+
+  const open = () => {
+    setDueDate(toDateInputValue(video.nextReviewDate ?? new Date()));
+    setIsOpen(true);
+  };
+
+  const handleReset = () => {
+    if (!confirmReset) {
+      setConfirmReset(true);
+      return;
+    }
+    onReset(video.id);
+    close();
+  };
+
+  const handleReschedule = () => {
+    const date = parseDateInputValue(dueDate);
+    if (!date) return;
+    onReschedule(video.id, date);
+    close();
+  };
+
+  const handleShift = (delta: 1 | -1) => {
+    onShiftStage(video.id, delta);
+    close();
+  };
+
+  const handleUndo = async () => {
+    try {
+      const undone = await onUndoReview(video.id);
+      if (undone) {
+        close();
+      } else {
+        setNotice('没有可撤销的复习记录');
+      }
+    } catch (error) {
+      console.error('撤销复习失败', error);
+      setNotice('撤销失败，请稍后重试');
+    }
+  };
+
+  const itemClass = 'w-full flex items-center px-3 py-2 text-sm text-left rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : open())}
+        className="text-gray-500 hover:text-gray-700 p-1 rounded transition-colors"
+        title="调整学习进度"
+      >
+        <MoreVertical size={14} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={close} />
+          <div className="absolute right-0 mt-1 w-60 bg-white rounded-lg shadow-xl border border-gray-200 p-2 z-20">
+            {isSuspended && (
+              <p className="text-xs text-gray-500 px-3 py-2">已搁置的条目请先取消搁置再调整</p>
+            )}
+
+            <button onClick={handleUndo} disabled={!hasProgress} className={itemClass}>
+              <Undo2 size={14} className="mr-2 text-blue-600" />
+              撤销最近一次复习
+            </button>
+
+            <button onClick={() => handleShift(-1)} disabled={!hasProgress} className={itemClass}>
+              <ChevronsLeft size={14} className="mr-2 text-orange-600" />
+              退回一级
+            </button>
+
+            <button onClick={() => handleShift(1)} disabled={isSuspended || isGraduated(video)} className={itemClass}>
+              <ChevronsRight size={14} className="mr-2 text-green-600" />
+              前进一级
+            </button>
+
+            <div className="px-3 py-2">
+              <div className="flex items-center text-sm text-gray-700 mb-1">
+                <CalendarClock size={14} className="mr-2 text-purple-600" />
+                下次复习日期
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  value={dueDate}
+                  min={toDateInputValue(new Date())}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  disabled={!canReschedule}
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-40"
+                />
+                <button
+                  onClick={handleReschedule}
+                  disabled={!canReschedule || !dueDate}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-2 py-1 rounded text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  设置
+                </button>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-100 mt-1 pt-1">
+              <button onClick={handleReset} disabled={!hasProgress} className={`${itemClass} ${confirmReset ? 'text-red-600 font-medium' : ''}`}>
+                <RotateCcw size={14} className="mr-2 text-red-600" />
+                {confirmReset ? '再次点击确认重置' : '重置为未开始'}
+              </button>
+            </div>
+
+            {notice && (
+              <p className="text-xs text-orange-600 px-3 py-1">{notice}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Play, Calendar, CheckCircle, Clock, Trash2 } from 'lucide-react';
 import { VideoFile } from '../types';
+import { STAGE_COLORS, getStageLabel, isGraduated } from '../utils/lifecycle';
 
 interface VideoCardProps {
   video: VideoFile;
@@ -17,39 +18,13 @@ export const VideoCard: React.FC<VideoCardProps> = ({
   onDelete,
   isReviewDue = false,
 }) => {
-  const getStatusColor = (status: VideoFile['status']) => {
-    switch (status) {
-      case 'new': return 'bg-gray-100 text-gray-700';
-      case 'learning': return 'bg-blue-100 text-blue-700';
-      case 'reviewing': return 'bg-yellow-100 text-yellow-700';
-      case 'completed': return 'bg-green-100 text-green-700';
-      default: return 'bg-gray-100 text-gray-700';
-    }
-  };
-
-  const getStatusText = (status: VideoFile['status']) => {
-    switch (status) {
-      case 'new': return 'New';
-      case 'learning': return 'Learning';
-      case 'reviewing': return 'Reviewing';
-      case 'completed': return 'Completed';
-      default: return 'Unknown';
-    }
-  };
+  const isInReview = video.stage === 'learning' || video.stage === 'relearning' || video.stage === 'maintenance';
 
   const getNextReviewDate = () => {
-    if (video.status === 'learning' || video.status === 'reviewing') {
-      const nextDate = video.reviewDates[video.currentReviewIndex];
-      return nextDate ? new Date(nextDate).toLocaleDateString() : 'N/A';
-    }
-    return 'N/A';
+    return video.nextReviewDate ? new Date(video.nextReviewDate).toLocaleDateString() : 'N/A';
   };
 
-  const formatProgress = () => {
-    if (video.status === 'completed') return '4/4';
-    if (video.status === 'new') return '0/4';
-    return `${video.completedReviews.length}/4`;
-  };
+  const formatProgress = () => `${video.reviewCount}`;
 
   return (
     <div className={`bg-white rounded-xl shadow-lg p-6 border-l-4 transition-all hover:shadow-xl ${
@@ -60,8 +35,8 @@ export const VideoCard: React.FC<VideoCardProps> = ({
           {video.name}
         </h3>
         <div className="flex space-x-2">
-          <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(video.status)}`}>
-            {getStatusText(video.status)}
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${STAGE_COLORS[video.stage]}`}>
+            {getStageLabel(video)}
           </span>
           <button
             onClick={() => onDelete(video.id)}
@@ -84,7 +59,7 @@ export const VideoCard: React.FC<VideoCardProps> = ({
         </div>
       </div>
 
-      {(video.status === 'learning' || video.status === 'reviewing') && (
+      {isInReview && (
         <div className="mb-4 p-3 bg-gray-50 rounded-lg">
           <p className="text-sm text-gray-600">
             <strong>Next Review:</strong> {getNextReviewDate()}
@@ -98,7 +73,7 @@ export const VideoCard: React.FC<VideoCardProps> = ({
       )}
 
       <div className="flex space-x-3">
-        {video.status === 'new' && (
+        {video.stage === 'new' && (
           <button
             onClick={() => onStartLearning(video.id)}
             className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium flex items-center justify-center transition-colors"
@@ -108,7 +83,7 @@ export const VideoCard: React.FC<VideoCardProps> = ({
           </button>
         )}
 
-        {(video.status === 'learning' || video.status === 'reviewing') && isReviewDue && (
+        {isInReview && isReviewDue && (
           <button
             onClick={() => onCompleteReview(video.id)}
             className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium flex items-center justify-center transition-colors"
@@ -118,7 +93,7 @@ export const VideoCard: React.FC<VideoCardProps> = ({
           </button>
         )}
 
-        {video.status === 'completed' && (
+        {isGraduated(video) && !isInReview && (
           <div className="flex-1 bg-green-100 text-green-700 px-4 py-2 rounded-lg font-medium flex items-center justify-center">
             <CheckCircle size={16} className="mr-2" />
             All Reviews Complete
@@ -1,39 +1,76 @@
-import React, { useState } from 'react';
-import { BookOpen, Trash2, Calendar, BarChart3, Filter, Search, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { BookOpen, Trash2, Calendar, BarChart3, Filter, Search, ChevronDown, ChevronUp, PauseCircle, PlayCircle } from 'lucide-react';
 import { VideoFile, Collection } from '../types';
+import { STAGE_COLORS, getStageLabel, getStageProgress } from '../utils/lifecycle';
+import { getCollectionSchedule, getGraduationStep } from '../utils/scheduler';
+import { VideoActionsMenu } from './VideoActionsMenu';
+import { isFileRelinkSupported, pickRelinkFile } from '../utils/linkedFolders';
 
 interface VideoLibraryProps {
   videos: VideoFile[];
   collections: Collection[];
   onDelete: (videoId: string) => void;
+  onSuspend?: (videoId: string) => void;
+  onUnsuspend?: (videoId: string) => void;
+  onReset?: (videoId: string) => void;
+  onReschedule?: (videoId: string, dueDate: Date) => void;
+  onShiftStage?: (videoId: string, delta: 1 | -1) => void;
+  onUndoReview?: (videoId: string) => Promise<boolean>;
+  onRelink?: (videoId: string, source: FileSystemFileHandle | File) => Promise<void>;
 }
 
-export const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, collections, onDelete }) => {
+export const VideoLibrary: React.FC<VideoLibraryProps> = ({
+  videos,
+  collections,
+  onDelete,
+  onSuspend,
+  onUnsuspend,
+  onReset,
+  onReschedule,
+  onShiftStage,
+  onUndoReview,
+  onRelink,
+}) => {
   const [selectedCollection, setSelectedCollection] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedCollections, setExpandedCollections] = useState<Set<string>>(new Set());
+  // 复制模式的重新导入：文件选择框共用一个，记录正在处理的条目
+  const relinkInputRef = useRef<HTMLInputElement>(null);
+  const [relinkVideoId, setRelinkVideoId] = useState<string | null>(null);
 
-  const getStatusColor = (status: VideoFile['status']) => {
-    switch (status) {
-      case 'new': return 'bg-gray-100 text-gray-700';
-      case 'learning': return 'bg-blue-100 text-blue-700';
-      case 'completed': return 'bg-green-100 text-green-700';
-      default: return 'bg-gray-100 text-gray-700';
+  const relink = async (videoId: string, source: FileSystemFileHandle | File) => {
+    if (!onRelink) return;
+    try {
+      await onRelink(videoId, source);
+    } catch (error) {
+      console.error('重新关联文件失败', error);
+      alert('重新关联文件失败，请重试');
     }
   };
 
-  const getStatusText = (status: VideoFile['status']) => {
-    switch (status) {
-      case 'new': return '未开始';
-      case 'learning': return '学习中';
-      case 'completed': return '已完成';
-      default: return '未知';
+  // 关联文件夹的条目重新选择文件句柄，复制模式的条目重新导入文件
+  const handleRelinkClick = async (video: VideoFile) => {
+    const collection = collections.find(c => c.id === video.collectionId);
+    if (collection?.storageMode === 'linked' && isFileRelinkSupported()) {
+      const handle = await pickRelinkFile().catch(() => null);
+      if (handle) await relink(video.id, handle);
+      return;
     }
+    setRelinkVideoId(video.id);
+    relinkInputRef.current?.click();
   };
 
+  const handleRelinkInput = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file && relinkVideoId) await relink(relinkVideoId, file);
+    setRelinkVideoId(null);
+  };
+
+  // 进度分母与调度引擎的毕业步数一致
   const getProgressText = (video: VideoFile) => {
-    if (video.status === 'completed') return '6/6';
-    return `${video.reviewCount}/6`;
+    const collection = collections.find(c => c.id === video.collectionId);
+    return getStageProgress(video, getGraduationStep(getCollectionSchedule(collection)));
   };
 
   const getCollectionName = (collectionId: string) => {
@@ -101,6 +138,14 @@ export const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, collections,
         </span>
       </h2>
 
+      <input
+        ref={relinkInputRef}
+        type="file"
+        accept="video/*,audio/*"
+        onChange={handleRelinkInput}
+        className="hidden"
+      />
+
       {/* 过滤器 */}
       <div className="mb-6 flex flex-col md:flex-row gap-4">
         <div className="flex-1">
@@ -180,9 +225,55 @@ export const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, collections,
                             {video.name}
                           </h4>
                           <div className="flex items-center space-x-2">
-                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(video.status)}`}>
-                              {getStatusText(video.status)}
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${STAGE_COLORS[video.stage]}`}>
+                              {getStageLabel(video)}
                             </span>
+                            {video.needsRelink && (onRelink ? (
+                              <button
+                                onClick={() => handleRelinkClick(video)}
+                                className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap bg-red-100 text-red-700 hover:bg-red-200"
+                                title="找不到这个视频的文件（可能已被移动或删除），点击重新选择文件，学习进度保持不变"
+                              >
+                                文件缺失 · 重新关联
+                              </button>
+                            ) : (
+                              <span
+                                className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap bg-red-100 text-red-700"
+                                title="存储中找不到这个视频的文件，需要重新导入"
+                              >
+                                文件缺失
+                              </span>
+                            ))}
+                            {video.stage === 'suspended' ? (
+                              onUnsuspend && (
+                                <button
+                                  onClick={() => onUnsuspend(video.id)}
+                                  className="text-gray-500 hover:text-gray-700 p-1 rounded transition-colors"
+                                  title="取消搁置"
+                                >
+                                  <PlayCircle size={14} />
+                                </button>
+                              )
+                            ) : (
+                              onSuspend && (
+                                <button
+                                  onClick={() => onSuspend(video.id)}
+                                  className="text-gray-500 hover:text-gray-700 p-1 rounded transition-colors"
+                                  title="搁置：不再安排新学和复习"
+                                >
+                                  <PauseCircle size={14} />
+                                </button>
+                              )
+                            )}
+                            {onReset && onReschedule && onShiftStage && onUndoReview && (
+                              <VideoActionsMenu
+                                video={video}
+                                onReset={onReset}
+                                onReschedule={onReschedule}
+                                onShiftStage={onShiftStage}
+                                onUndoReview={onUndoReview}
+                              />
+                            )}
                             <button
                               onClick={() => onDelete(video.id)}
                               className="text-red-500 hover:text-red-700 p-1 rounded transition-colors"
@@ -211,7 +302,7 @@ export const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, collections,
                             </div>
                           )}
 
-                          {video.nextReviewDate && video.status === 'learning' && (
+                          {video.nextReviewDate && video.stage !== 'suspended' && (
                             <div className="flex items-center">
                               <Calendar size={14} className="mr-2 text-orange-500" />
                               <span>下次复习: {video.nextReviewDate.toLocaleDateString('zh-CN')}</span>
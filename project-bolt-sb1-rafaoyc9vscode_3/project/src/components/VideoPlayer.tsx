@@ -1,7 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Play, Pause, SkipForward, SkipBack, X, AlertCircle } from 'lucide-react';
-import type { PlaylistItem, VideoFile } from '../types';
+import type { PlaylistItem, PlaylistItemOutcome, VideoFile, ReviewGrade } from '../types';
 import { getVideoPlayProgress, saveVideoPlayProgress, clearVideoPlayProgress } from '../utils/authUtils';
+import { fileStorage } from '../hooks/useLocalStorage';
+
+// 播放结束后的回忆评分选项
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: '忘记了', className: 'bg-red-600 hover:bg-red-700' },
+  { grade: 'hard', label: '有点难', className: 'bg-orange-500 hover:bg-orange-600' },
+  { grade: 'good', label: '记得', className: 'bg-green-600 hover:bg-green-700' },
+  { grade: 'easy', label: '很轻松', className: 'bg-blue-600 hover:bg-blue-700' },
+];
 
 interface VideoPlayerProps {
   playlist: PlaylistItem[];
@@ -10,8 +19,12 @@ interface VideoPlayerProps {
   onPlaylistComplete: () => void;
   initialIndex?: number;
   isAudioMode?: boolean; // 是否为音频模式
+  isCramMode?: boolean; // 考前突击：提示播放不影响复习计划
   onProgressUpdate?: (index: number) => void; // 断点续播进度回传
   onFileMissing?: (videoId: string) => void; // 文件缺失时通知上层删除记录
+  onGradeItem?: (index: number, grade: ReviewGrade) => void; // 提供时在每项播放结束后显示评分
+  getGradeIntervals?: (videoId: string) => Record<ReviewGrade, number | null> | null; // 评分对应的下次间隔
+  onItemOutcome?: (index: number, outcome: Partial<PlaylistItemOutcome>) => void; // 离开每一项时回传播放结果
 }
 
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({
@@ -21,8 +34,12 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   onPlaylistComplete,
   initialIndex = 0,
   isAudioMode = false,
+  isCramMode = false,
   onProgressUpdate,
   onFileMissing,
+  onGradeItem,
+  getGradeIntervals,
+  onItemOutcome,
 }) => {
   const [missingNotice, setMissingNotice] = useState<string | null>(null);
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
@@ -44,6 +61,10 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const currentItem = playlist[currentIndex];
   const currentVideo = videos.find(v => v.id === currentItem?.videoId);
   const derivedAudioMode = currentVideo?.mediaType === 'audio';
+  const currentVideoId = currentVideo?.id;
+  const currentFile = currentVideo?.file;
+  // 当前项的媒体地址：url 为 null 表示文件不存在
+  const [media, setMedia] = useState<{ videoId: string; url: string | null } | null>(null);
   const [audioOnlyMode] = useState(isAudioMode || derivedAudioMode);
 
   const [userInteracted, setUserInteracted] = useState(false);
@@ -51,10 +72,22 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const [controlsTimeout, setControlsTimeout] = useState<number | null>(null);
   const [showResumePrompt, setShowResumePrompt] = useState(false);
   const [resumeTime, setResumeTime] = useState(0);
+  const [showGradePrompt, setShowGradePrompt] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const lastSaveTimeRef = useRef<number>(0);
+  // 每一项实际播放的秒数（拖动进度条跳过的部分不计），以及是否自然播放结束
+  const watchedSecondsRef = useRef<Record<number, number>>({});
+  const lastPositionRef = useRef(0);
+  const endedRef = useRef(false);
+  const playlistRef = useRef(playlist);
+  playlistRef.current = playlist;
   const errorHandledRef = useRef(false); // 防止 error 多次触发
+  // 已按缺失处理过的项：上报后上层状态变化会让效果重新执行，每项只上报和跳过一次
+  const missingHandledRef = useRef<Set<number>>(new Set());
+  // 上层回调每次渲染都是新函数，效果中通过 ref 调用，不作为依赖
+  const callbacksRef = useRef({ onItemOutcome, onFileMissing, onPlaylistComplete });
+  callbacksRef.current = { onItemOutcome, onFileMissing, onPlaylistComplete };
 
   // 使用 useRef 来避免 autoPlay 状态导致的重新渲染
   const autoPlayRef = useRef(true);
@@ -84,6 +117,10 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   useEffect(() => {
     if (!currentItem) return; // 播放列表为空，什么也不做
     if (!currentVideo) {
+      if (!missingHandledRef.current.has(currentIndex)) {
+        missingHandledRef.current.add(currentIndex);
+        callbacksRef.current.onItemOutcome?.(currentIndex, { missing: true });
+      }
       setMissingNotice('视频文件未找到，已跳过');
       const timer = window.setTimeout(() => {
         setMissingNotice(null);
@@ -91,29 +128,57 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         if (currentIndex < playlist.length - 1) {
           setCurrentIndex(currentIndex + 1);
         } else {
-          onPlaylistComplete();
+          callbacksRef.current.onPlaylistComplete();
         }
       }, 1400);
       return () => window.clearTimeout(timer);
     }
-  }, [currentItem, currentVideo, currentIndex, playlist.length, onPlaylistComplete]);
+  }, [currentItem, currentVideo, currentIndex, playlist.length]);
+
+  // 切换到某一项时才读取它的媒体文件，离开时释放对象地址
+  useEffect(() => {
+    if (!currentVideoId) return;
+    let cancelled = false;
+    let acquired = false;
+    fileStorage.acquireUrl(currentVideoId, currentFile)
+      .catch(error => {
+        console.error('Error reading media file:', error);
+        return null;
+      })
+      .then(url => {
+        acquired = url !== null;
+        if (cancelled) {
+          if (acquired) fileStorage.releaseUrl(currentVideoId);
+          return;
+        }
+        setMedia({ videoId: currentVideoId, url });
+      });
+    return () => {
+      cancelled = true;
+      if (acquired) fileStorage.releaseUrl(currentVideoId);
+    };
+  }, [currentVideoId, currentFile]);
 
   // 切换视频时设置 video 元素和断点续播
   useEffect(() => {
-    if (videoRef.current && currentVideo) {
+    if (videoRef.current && currentVideo && media?.videoId === currentVideo.id) {
       const video = videoRef.current;
 
       setVideoError(false);
       setIsLoading(true);
       setRetryCount(0);
       errorHandledRef.current = false; // 新视频重置错误处理标记
+      endedRef.current = false;
+      lastPositionRef.current = 0;
 
       // 重置视频元素
       video.src = '';
       video.load();
 
       // 设置新的视频源
-      video.src = (currentVideo as any).fileUrl;
+      if (media.url) {
+        video.src = media.url;
+      }
 
       // 音频模式设置
       if (audioOnlyMode) {
@@ -135,6 +200,12 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         setIsLoading(false);
         setDuration(video.duration);
 
+        // 上次会话中已看的比例折算为秒数，继续累计
+        if (watchedSecondsRef.current[currentIndex] === undefined) {
+          const previousPercent = playlistRef.current[currentIndex]?.outcome?.watchedPercent ?? 0;
+          watchedSecondsRef.current[currentIndex] = (previousPercent / 100) * video.duration;
+        }
+
         // 重置保存时间计时器
         lastSaveTimeRef.current = 0;
 
@@ -186,9 +257,13 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         setIsLoading(false);
 
         if (currentVideo) {
+          // 上报后条目状态变化会重新执行本效果，同一项不重复上报和跳过
+          if (missingHandledRef.current.has(currentIndex)) return;
+          missingHandledRef.current.add(currentIndex);
+          callbacksRef.current.onItemOutcome?.(currentIndex, { missing: true });
           // 通知父组件删除记录（非物理删除）
           try {
-            onFileMissing && onFileMissing(currentVideo.id);
+            callbacksRef.current.onFileMissing?.(currentVideo.id);
           } catch (err) {
             console.error('onFileMissing handler failed', err);
           }
@@ -201,7 +276,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
             if (currentIndex < playlist.length - 1) {
               setCurrentIndex(currentIndex + 1);
             } else {
-              onPlaylistComplete();
+              callbacksRef.current.onPlaylistComplete();
             }
           }, 1400);
         } else {
@@ -214,6 +289,11 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       video.addEventListener('canplay', handleCanPlay);
       video.addEventListener('error', handleError);
 
+      // 文件已不在存储中，按缺失处理
+      if (!media.url) {
+        handleError(new Error('Media file not found'));
+      }
+
       return () => {
         video.removeEventListener('loadedmetadata', handleLoadedMetadata);
         video.removeEventListener('canplay', handleCanPlay);
@@ -223,15 +303,14 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   }, [
     currentIndex,
     currentVideo,
+    media,
     audioOnlyMode,
     userInteracted,
     initialIndex,
     isIOS,
     isSafari,
     videoError,
-    onFileMissing,
     playlist.length,
-    onPlaylistComplete,
   ]);
 
   // 控制栏自动隐藏逻辑
@@ -273,6 +352,13 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       const ct = videoRef.current.currentTime;
       setCurrentTime(ct);
 
+      // 只累计连续播放的时长，拖动产生的跳跃不计入
+      const delta = ct - lastPositionRef.current;
+      if (delta > 0 && delta < 2) {
+        watchedSecondsRef.current[currentIndex] = (watchedSecondsRef.current[currentIndex] ?? 0) + delta;
+      }
+      lastPositionRef.current = ct;
+
       // 使用时间间隔保存播放进度，避免依赖精确的整数秒
       const now = Date.now();
       if (!lastSaveTimeRef.current || now - lastSaveTimeRef.current >= 5000) {
@@ -289,16 +375,39 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (videoRef.current) {
       videoRef.current.currentTime = time;
       setCurrentTime(time);
+      lastPositionRef.current = time;
     }
   };
 
+  // 当前项的实际观看比例
+  const getWatchedPercent = () => {
+    const total = videoRef.current?.duration;
+    if (!total || !Number.isFinite(total)) return 0;
+    return Math.min(100, Math.round(((watchedSecondsRef.current[currentIndex] ?? 0) / total) * 100));
+  };
+
+  // 回传当前项的播放结果；skipped 表示未播放完就离开
+  const reportCurrentOutcome = (skipped: boolean) => {
+    if (!onItemOutcome || !currentVideo) return;
+    onItemOutcome(currentIndex, {
+      watchedPercent: getWatchedPercent(),
+      watchedSeconds: Math.round(watchedSecondsRef.current[currentIndex] ?? 0),
+      mode: audioOnlyMode ? 'audio' : 'video',
+      skipped,
+    });
+  };
+  const reportOutcomeRef = useRef(reportCurrentOutcome);
+  reportOutcomeRef.current = reportCurrentOutcome;
+
   // 前进/后退与时间格式化函数
   const goToNext = () => {
     // 清除当前视频的播放进度
     if (currentVideo) {
       clearVideoPlayProgress(currentVideo.id);
     }
+    reportCurrentOutcome(!endedRef.current);
 
+    setShowGradePrompt(false);
     if (currentIndex < playlist.length - 1) {
       setCurrentIndex(currentIndex + 1);
       setIsPlaying(false);
@@ -309,6 +418,8 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   };
 
   const goToPrevious = () => {
+    reportCurrentOutcome(false);
+    setShowGradePrompt(false);
     if (currentIndex > 0) {
       setCurrentIndex(currentIndex - 1);
       setIsPlaying(false);
@@ -316,6 +427,12 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   };
 
+  const formatInterval = (days: number | null | undefined) => {
+    if (days === undefined) return '';
+    if (days === null) return '完成';
+    return days === 1 ? '明天' : `${days}天后`;
+  };
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
@@ -326,6 +443,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (videoRef.current && resumeTime > 0) {
       videoRef.current.currentTime = resumeTime;
       setCurrentTime(resumeTime);
+      lastPositionRef.current = resumeTime;
     }
     setShowResumePrompt(false);
     showControlsTemporarily();
@@ -344,25 +462,42 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (currentVideo) {
       clearVideoPlayProgress(currentVideo.id);
     }
+    endedRef.current = true;
+
+    // 先评分再进入下一项
+    if (onGradeItem) {
+      setShowGradePrompt(true);
+      return;
+    }
 
     if (autoPlayRef.current && currentIndex < playlist.length - 1) {
       goToNext();
     } else if (currentIndex >= playlist.length - 1) {
+      reportCurrentOutcome(false);
       onPlaylistComplete();
     }
   };
 
+  const handleGrade = (grade: ReviewGrade) => {
+    onGradeItem?.(currentIndex, grade);
+    goToNext();
+  };
+
+  const gradeIntervals = showGradePrompt && currentVideo && getGradeIntervals
+    ? getGradeIntervals(currentVideo.id)
+    : null;
+
   const retryVideo = () => {
     if (retryCount < 3) {
       setRetryCount(prev => prev + 1);
       setVideoError(false);
       setIsLoading(true);
 
-      if (videoRef.current && currentVideo) {
+      if (videoRef.current && media?.url) {
         const video = videoRef.current;
         video.src = '';
         video.load();
-        video.src = (currentVideo as any).fileUrl;
+        video.src = media.url;
 
         setTimeout(() => {
           if (video.readyState >= 2) {
@@ -386,6 +521,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (window.history.length > 1) {
       window.history.pushState(null, '', window.location.href);
     }
+    reportCurrentOutcome(false);
     onClose();
   };
 
@@ -393,6 +529,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   useEffect(() => {
     const handlePopState = (e: PopStateEvent) => {
       e.preventDefault();
+      reportOutcomeRef.current(false);
       onClose();
     };
 
@@ -471,6 +608,32 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
               </div>
             )}
 
+            {/* 回忆评分 */}
+            {showGradePrompt && currentVideo && (
+              <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-30">
+                <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 text-center">
+                  <h3 className="text-lg font-semibold mb-2 text-gray-800">回忆得怎么样？</h3>
+                  <p className="text-gray-600 mb-6 truncate">{currentVideo.name}</p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {GRADE_OPTIONS.map(option => (
+                      <button
+                        key={option.grade}
+                        onClick={() => handleGrade(option.grade)}
+                        className={`${option.className} text-white px-3 py-3 rounded-lg font-medium transition-colors`}
+                      >
+                        <div>{option.label}</div>
+                        {gradeIntervals && (
+                          <div className="text-xs text-white/80 mt-1">
+                            {formatInterval(gradeIntervals[option.grade])}
+                          </div>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* 音频模式显示 */}
             {audioOnlyMode && currentVideo && (
               <div
@@ -510,11 +673,18 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
               onTouchStart={showControlsTemporarily}
               playsInline={true}
               controls={false}
-              style= objectFit: 'contain' 
+              style={{ objectFit: 'contain' }}
             />
           </>
         )}
 
+        {/* 考前突击标识 */}
+        {isCramMode && (showControls || audioOnlyMode) && (
+          <div className="absolute top-6 left-6 z-30 bg-rose-600/90 text-white px-3 py-1 rounded-full text-sm shadow">
+            考前突击 · {currentIndex + 1}/{playlist.length} · 不影响复习计划
+          </div>
+        )}
+
         {/* Transient missing-file notice (非阻塞提示） */}
         {missingNotice && (
           <div className="absolute top-6 left-1/2 transform -translate-x-1/2 z-50 bg-yellow-400 text-black px-4 py-2 rounded shadow">
@@ -98,7 +98,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       const video = videoRef.current;
       video.src = '';
       video.load();
-      video.src = currentVideo.fileUrl;
+      video.src = currentVideo.fileUrl ?? '';
       
       if (audioOnlyMode) {
         video.style.display = 'none';
@@ -287,7 +287,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       setVideoError(false);
       setIsLoading(true);
       if (videoRef.current && currentVideo) {
-        videoRef.current.src = currentVideo.fileUrl;
+        videoRef.current.src = currentVideo.fileUrl ?? '';
         videoRef.current.load();
       }
     }
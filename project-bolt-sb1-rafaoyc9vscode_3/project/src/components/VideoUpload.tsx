@@ -1,18 +1,56 @@
 import React, { useRef, useState } from 'react';
-import { Upload, Video, Plus, FolderOpen, AlertCircle, Loader, CheckCircle } from 'lucide-react';
+import { Upload, Video, Plus, FolderOpen, AlertCircle, Loader, CheckCircle, Link2 } from 'lucide-react';
 import { Collection } from '../types';
 import { validateVideoFiles } from '../utils/fileValidation';
+import { checkImportFits, formatBytes, getStorageEstimate } from '../utils/storageUsage';
+import { isFolderLinkSupported, pickLinkedFolder } from '../utils/linkedFolders';
+import { FingerprintMatch } from '../utils/fingerprint';
+import { fingerprintFile } from '../utils/fingerprintClient';
+
+// 与已有条目指纹相同的文件的处理方式
+type MatchChoice = 'skip' | 'import' | 'reconnect';
+
+// 等待用户确认的导入：有文件与已有条目重复
+interface PendingImport {
+  files: File[];
+  fingerprints: (string | undefined)[];
+  matches: (FingerprintMatch | null)[];
+  choices: MatchChoice[];
+}
+
+const DEFAULT_CHOICES: Record<FingerprintMatch['kind'], MatchChoice> = {
+  duplicate: 'skip',
+  missing: 'reconnect',
+  retired: 'reconnect',
+};
+
+const describeMatch = (match: FingerprintMatch) => {
+  switch (match.kind) {
+    case 'duplicate':
+      return `与库中的“${match.video.name}”是同一个文件`;
+    case 'missing':
+      return `库中的“${match.video.name}”找不到文件，可用它重新关联`;
+    case 'retired':
+      return `之前删除过的“${match.retired.video.name}”，可恢复原学习进度（已复习 ${match.retired.video.reviewCount} 次）`;
+  }
+};
 
 interface VideoUploadProps {
   collections: Collection[];
-  onVideoAdd: (files: File[], collectionId: string) => Promise<void>;
+  onVideoAdd: (files: File[], collectionId: string, fingerprints?: (string | undefined)[]) => Promise<void>;
+  onFindMatches?: (fingerprints: (string | undefined)[]) => (FingerprintMatch | null)[];
+  onReconnect?: (match: FingerprintMatch, file: File, collectionId: string) => Promise<void>;
   onCreateCollection: (name: string, description?: string) => string;
+  onLinkFolder?: (directory: FileSystemDirectoryHandle) => Promise<{ collectionId: string; count: number } | null>;
 }
 
 export const VideoUpload: React.FC<VideoUploadProps> = ({ 
   collections, 
   onVideoAdd, 
-  onCreateCollection 
+  onCreateCollection,
+  onLinkFolder,
+  onFindMatches,
+  onReconnect
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
@@ -25,6 +63,7 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [currentFileIndex, setCurrentFileIndex] = useState(0);
   const [totalFiles, setTotalFiles] = useState(0);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
 
   const activeCollections = collections.filter(c => c.isActive);
 
@@ -92,14 +131,87 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
         await new Promise(resolve => setTimeout(resolve, 1500));
       }
       
-      setTotalFiles(validation.validFiles.length);
-      setUploadProgress(`准备添加 ${validation.validFiles.length} 个视频文件...`);
-      
-      // 直接调用 onVideoAdd，不再分批处理
-      console.log('开始添加文件到合辑:', selectedCollection);
-      await onVideoAdd(validation.validFiles, selectedCollection);
-      
-      setUploadProgress('添加完成！');
+      // 导入前检查剩余空间，放不下时先提醒
+      const requiredBytes = validation.validFiles.reduce((sum, file) => sum + file.size, 0);
+      const { fits, availableBytes } = checkImportFits(requiredBytes, await getStorageEstimate());
+      if (!fits && !confirm(
+        `这批文件共 ${formatBytes(requiredBytes)}，浏览器剩余空间约 ${formatBytes(availableBytes ?? 0)}，导入很可能失败。\n\n` +
+        '可以在“存储空间”中查看占用、申请持久存储或删除不需要的视频。仍要继续吗？'
+      )) {
+        setUploadProgress('');
+        setIsUploading(false);
+        return;
+      }
+
+      // 计算内容指纹，检查是否与已有或删除过的条目是同一个文件
+      const validFiles = validation.validFiles;
+      const fingerprints: (string | undefined)[] = [];
+      if (onFindMatches) {
+        for (const [index, file] of validFiles.entries()) {
+          setUploadProgress(`正在检查重复文件 ${index + 1}/${validFiles.length}...`);
+          fingerprints.push(await fingerprintFile(file));
+        }
+        const matches = onFindMatches(fingerprints);
+        if (matches.some(match => match !== null)) {
+          setPendingImport({
+            files: validFiles,
+            fingerprints,
+            matches,
+            choices: matches.map(match => {
+              if (!match) return 'import';
+              return match.kind !== 'duplicate' && !onReconnect ? 'import' : DEFAULT_CHOICES[match.kind];
+            }),
+          });
+          setUploadProgress('');
+          setIsUploading(false);
+          return;
+        }
+      }
+
+      await importFiles({
+        files: validFiles,
+        fingerprints,
+        matches: validFiles.map(() => null),
+        choices: validFiles.map(() => 'import'),
+      });
+    } catch (error) {
+      handleImportError(error);
+    }
+  };
+
+  // 按每个文件的处理方式导入：接回原条目的逐个处理，其余一起添加
+  const importFiles = async ({ files, fingerprints, matches, choices }: PendingImport) => {
+    const collectionId = selectedCollection;
+    const reconnects = files.flatMap((file, index) => {
+      const match = matches[index];
+      return match && choices[index] === 'reconnect' ? [{ file, match }] : [];
+    });
+    const newIndexes = files.map((_, index) => index).filter(index => choices[index] === 'import');
+
+    setIsUploading(true);
+    setUploadSuccess(false);
+    try {
+      if (onReconnect) {
+        for (const [index, { file, match }] of reconnects.entries()) {
+          setUploadProgress(`正在恢复原有条目 ${index + 1}/${reconnects.length}...`);
+          await onReconnect(match, file, collectionId);
+        }
+      }
+
+      if (newIndexes.length > 0) {
+        setTotalFiles(newIndexes.length);
+        setUploadProgress(`准备添加 ${newIndexes.length} 个视频文件...`);
+
+        // 直接调用 onVideoAdd，不再分批处理
+        console.log('开始添加文件到合辑:', collectionId);
+        await onVideoAdd(
+          newIndexes.map(index => files[index]),
+          collectionId,
+          fingerprints.length > 0 ? newIndexes.map(index => fingerprints[index]) : undefined
+        );
+      }
+
+      setUploadProgress(newIndexes.length + reconnects.length > 0 ? '添加完成！' : '没有需要添加的文件');
       setUploadSuccess(true);
       
       // 成功后清理状态
@@ -112,28 +224,78 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
       }, 2000);
       
     } catch (error) {
-      console.error('File upload error:', error);
-      setUploadProgress('');
-      setIsUploading(false);
+      handleImportError(error);
+    }
+  };
+
+  const handleImportError = (error: unknown) => {
+    console.error('File upload error:', error);
+    setUploadProgress('');
+    setIsUploading(false);
+    setUploadSuccess(false);
+    setCurrentFileIndex(0);
+    setTotalFiles(0);
+    
+    // 更详细的错误信息
+    let errorMessage = '文件添加失败';
+    if (error instanceof Error) {
+      if (error.message.includes('storage') || error.message.includes('quota')) {
+        errorMessage = '存储空间不足，请清理设备存储后重试';
+      } else if (error.message.includes('network')) {
+        errorMessage = '网络连接问题，请检查网络后重试';
+      } else if (error.message.includes('MIME') || error.message.includes('Buffer')) {
+        errorMessage = '文件格式识别失败，请确保文件完整且格式正确';
+      } else {
+        errorMessage = `文件处理失败：${error.message}`;
+      }
+    }
+    
+    alert(errorMessage);
+  };
+
+  const handleChoiceChange = (index: number, choice: MatchChoice) => {
+    setPendingImport(prev => prev && {
+      ...prev,
+      choices: prev.choices.map((current, i) => i === index ? choice : current),
+    });
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    const confirmed = pendingImport;
+    setPendingImport(null);
+    await importFiles(confirmed);
+  };
+
+  // 关联模式：新建一个合辑指向所选文件夹，媒体不复制进浏览器存储
+  const handleLinkFolder = async () => {
+    if (!onLinkFolder) return;
+    try {
+      const directory = await pickLinkedFolder();
+      if (!directory) return;
+      setIsUploading(true);
       setUploadSuccess(false);
-      setCurrentFileIndex(0);
-      setTotalFiles(0);
-      
-      // 更详细的错误信息
-      let errorMessage = '文件添加失败';
-      if (error instanceof Error) {
-        if (error.message.includes('storage') || error.message.includes('quota')) {
-          errorMessage = '存储空间不足，请清理设备存储后重试';
-        } else if (error.message.includes('network')) {
-          errorMessage = '网络连接问题，请检查网络后重试';
-        } else if (error.message.includes('MIME') || error.message.includes('Buffer')) {
-          errorMessage = '文件格式识别失败，请确保文件完整且格式正确';
-        } else {
-          errorMessage = `文件处理失败：${error.message}`;
-        }
+      setUploadProgress(`正在扫描文件夹“${directory.name}”...`);
+      const result = await onLinkFolder(directory);
+      if (!result) {
+        setUploadProgress('');
+        setIsUploading(false);
+        alert('文件夹中没有找到支持的音视频文件');
+        return;
       }
-      
-      alert(errorMessage);
+      setSelectedCollection(result.collectionId);
+      setUploadProgress(`已关联 ${result.count} 个文件`);
+      setUploadSuccess(true);
+      setIsUploading(false);
+      setTimeout(() => {
+        setUploadProgress('');
+        setUploadSuccess(false);
+      }, 2000);
+    } catch (error) {
+      console.error('Link folder error:', error);
+      setUploadProgress('');
+      setIsUploading(false);
+      alert(`关联文件夹失败：${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
@@ -282,6 +444,55 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
         </div>
       )}
 
+      {/* 重复文件确认 */}
+      {pendingImport && (
+        <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 mb-6">
+          <h3 className="font-semibold text-amber-800 mb-1">发现已导入过的文件</h3>
+          <p className="text-sm text-amber-700 mb-3">
+            共 {pendingImport.files.length} 个文件，其中 {pendingImport.matches.filter(Boolean).length} 个与已有记录是同一个文件，请选择处理方式
+          </p>
+          <ul className="space-y-2 mb-4">
+            {pendingImport.files.map((file, index) => {
+              const match = pendingImport.matches[index];
+              if (!match) return null;
+              return (
+                <li key={index} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 bg-white rounded-lg p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 truncate" title={file.name}>{file.name}</p>
+                    <p className="text-xs text-gray-600">{describeMatch(match)}</p>
+                  </div>
+                  <select
+                    value={pendingImport.choices[index]}
+                    onChange={(e) => handleChoiceChange(index, e.target.value as MatchChoice)}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {match.kind !== 'duplicate' && onReconnect && (
+                      <option value="reconnect">{match.kind === 'missing' ? '重新关联' : '恢复原进度'}</option>
+                    )}
+                    <option value="import">作为新视频导入</option>
+                    <option value="skip">跳过</option>
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleConfirmImport}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium"
+            >
+              继续导入
+            </button>
+            <button
+              onClick={() => setPendingImport(null)}
+              className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg font-medium"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 上传区域 */}
       {selectedCollection ? (
         <div
@@ -339,7 +550,7 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
       )}
 
       {/* 操作按钮 */}
-      {selectedCollection && !isUploading && (
+      {selectedCollection && !isUploading && !pendingImport && (
         <div className="mt-6 flex flex-col md:flex-row justify-center space-y-3 md:space-y-0 md:space-x-4">
           <button
             onClick={() => fileInputRef.current?.click()}
@@ -359,6 +570,22 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
         </div>
       )}
 
+      {/* 关联文件夹 */}
+      {onLinkFolder && isFolderLinkSupported() && !isUploading && (
+        <div className="mt-6 border-t border-gray-100 pt-6 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            课程文件夹很大时，可以只关联文件夹：媒体留在原位置，不占用浏览器存储，文件夹名作为合辑名
+          </p>
+          <button
+            onClick={handleLinkFolder}
+            className="bg-white border border-indigo-300 text-indigo-700 hover:bg-indigo-50 px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center whitespace-nowrap"
+          >
+            <Link2 size={16} className="mr-2" />
+            关联文件夹（不复制）
+          </button>
+        </div>
+      )}
+
       {/* 移动端使用提示已删除 */}
     </div>
   );
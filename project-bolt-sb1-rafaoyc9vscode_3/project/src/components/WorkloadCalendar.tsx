@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Play, Headphones, Video, Clock } from 'lucide-react';
+import { Collection, ForecastDay, ForecastItem, VideoFile } from '../types';
+
+interface WorkloadCalendarProps {
+  forecast: ForecastDay[];
+  videos: VideoFile[];
+  collections: Collection[];
+  onClose: () => void;
+}
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const getDateKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const formatMinutes = (seconds: number) => Math.round(seconds / 60);
+
+export const WorkloadCalendar: React.FC<WorkloadCalendarProps> = ({
+  forecast,
+  videos,
+  collections,
+  onClose,
+}) => {
+  const [collectionFilter, setCollectionFilter] = useState<string>('all');
+  const [monthOffset, setMonthOffset] = useState(0);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const firstDate = forecast[0]?.date ?? new Date();
+  const lastDate = forecast[forecast.length - 1]?.date ?? firstDate;
+  const monthCount = (lastDate.getFullYear() - firstDate.getFullYear()) * 12
+    + lastDate.getMonth() - firstDate.getMonth() + 1;
+  const viewMonth = new Date(firstDate.getFullYear(), firstDate.getMonth() + monthOffset, 1);
+
+  // 按合辑筛选后，以日期为键索引
+  const dayMap = useMemo(() => {
+    const map = new Map<string, ForecastItem[]>();
+    forecast.forEach(day => {
+      const items = collectionFilter === 'all'
+        ? day.items
+        : day.items.filter(item => item.collectionId === collectionFilter);
+      map.set(getDateKey(day.date), items);
+    });
+    return map;
+  }, [forecast, collectionFilter]);
+
+  const totals = useMemo(() => {
+    const all = Array.from(dayMap.values()).flat();
+    return {
+      newCount: all.filter(item => item.reviewType === 'new').length,
+      reviewCount: all.filter(item => item.reviewType === 'review').length,
+      minutes: formatMinutes(all.reduce((sum, item) => sum + item.seconds, 0)),
+    };
+  }, [dayMap]);
+
+  // 当月日历格子：前面补齐到周日
+  const cells: (Date | null)[] = [];
+  const daysInMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth() + 1, 0).getDate();
+  for (let i = 0; i < viewMonth.getDay(); i++) cells.push(null);
+  for (let d = 1; d <= daysInMonth; d++) {
+    cells.push(new Date(viewMonth.getFullYear(), viewMonth.getMonth(), d));
+  }
+
+  const getCollection = (collectionId: string) => collections.find(c => c.id === collectionId);
+
+  const getVideoName = (videoId: string) => {
+    const video = videos.find(v => v.id === videoId);
+    return video?.name || 'Unknown Video';
+  };
+
+  const selectedDay = forecast.find(day => getDateKey(day.date) === selectedKey);
+  const selectedItems = selectedKey ? dayMap.get(selectedKey) || [] : [];
+
+  // 选中日期按合辑汇总
+  const collectionBreakdown = collections
+    .map(collection => {
+      const items = selectedItems.filter(item => item.collectionId === collection.id);
+      return {
+        collection,
+        newCount: items.filter(item => item.reviewType === 'new').length,
+        audioCount: items.filter(item => item.reviewType === 'review' && item.mode === 'audio').length,
+        videoCount: items.filter(item => item.reviewType === 'review' && item.mode === 'video').length,
+        minutes: formatMinutes(items.reduce((sum, item) => sum + item.seconds, 0)),
+      };
+    })
+    .filter(row => row.newCount + row.audioCount + row.videoCount > 0);
+
+  const getItemIcon = (item: ForecastItem) => {
+    if (item.reviewType === 'new') return <Play size={16} className="text-green-600" />;
+    if (item.mode === 'video') return <Video size={16} className="text-purple-600" />;
+    return <Headphones size={16} className="text-yellow-600" />;
+  };
+
+  const getItemText = (item: ForecastItem) => {
+    if (item.reviewType === 'new') return '新学习';
+    return `第${item.reviewNumber}次复习 · ${item.mode === 'video' ? '视频' : '音频'}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full mx-4 max-h-[90vh] overflow-hidden">
+        <div className="bg-gray-800 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-semibold text-xl flex items-center">
+            <CalendarDays className="mr-3" size={24} />
+            复习量预测（未来 {forecast.length} 天）
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-white hover:text-gray-300 text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-72px)]">
+          {/* 筛选与汇总 */}
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 gap-3">
+            <select
+              value={collectionFilter}
+              onChange={(e) => setCollectionFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">全部合辑</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            <div className="text-sm text-gray-600 flex flex-wrap gap-4">
+              <span>新学 {totals.newCount} 个</span>
+              <span>复习 {totals.reviewCount} 次</span>
+              <span className="flex items-center">
+                <Clock size={14} className="mr-1" />
+                约 {totals.minutes} 分钟
+              </span>
+            </div>
+          </div>
+
+          {/* 月份切换 */}
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => setMonthOffset(monthOffset - 1)}
+              disabled={monthOffset === 0}
+              className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft size={20} />
+            </button>
+            <span className="font-semibold text-gray-800">
+              {viewMonth.getFullYear()}年{viewMonth.getMonth() + 1}月
+            </span>
+            <button
+              onClick={() => setMonthOffset(monthOffset + 1)}
+              disabled={monthOffset >= monthCount - 1}
+              className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronRight size={20} />
+            </button>
+          </div>
+
+          {/* 月历 */}
+          <div className="grid grid-cols-7 gap-1 mb-2">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="text-center text-xs text-gray-500 py-1">{day}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {cells.map((date, index) => {
+              if (!date) return <div key={`empty-${index}`} />;
+              const key = getDateKey(date);
+              const items = dayMap.get(key);
+              if (!items) {
+                // 不在预测范围内
+                return (
+                  <div key={key} className="min-h-[72px] rounded-lg bg-gray-50 p-1 text-xs text-gray-300">
+                    {date.getDate()}
+                  </div>
+                );
+              }
+              const newCount = items.filter(item => item.reviewType === 'new').length;
+              const audioCount = items.filter(item => item.reviewType === 'review' && item.mode === 'audio').length;
+              const videoCount = items.filter(item => item.reviewType === 'review' && item.mode === 'video').length;
+              const minutes = formatMinutes(items.reduce((sum, item) => sum + item.seconds, 0));
+              const isSelected = key === selectedKey;
+              return (
+                <button
+                  key={key}
+                  onClick={() => setSelectedKey(isSelected ? null : key)}
+                  className={`min-h-[72px] rounded-lg border p-1 text-left text-xs transition-colors ${
+                    isSelected
+                      ? 'border-blue-500 bg-blue-50'
+                      : items.length > 0
+                        ? 'border-gray-200 hover:border-blue-300'
+                        : 'border-gray-100'
+                  }`}
+                >
+                  <div className="font-medium text-gray-700">{date.getDate()}</div>
+                  {newCount > 0 && <div className="text-green-600">新 {newCount}</div>}
+                  {audioCount > 0 && <div className="text-yellow-600">音 {audioCount}</div>}
+                  {videoCount > 0 && <div className="text-purple-600">视 {videoCount}</div>}
+                  {items.length > 0 && <div className="text-gray-500">{minutes}分钟</div>}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* 图例 */}
+          <div className="flex flex-wrap gap-4 text-xs text-gray-500 mt-3">
+            <span className="text-green-600">新：新学习</span>
+            <span className="text-yellow-600">音：音频复习</span>
+            <span className="text-purple-600">视：视频复习</span>
+            <span>按每次都“记得”模拟，实际安排会随评分变化</span>
+          </div>
+
+          {/* 选中日期的条目 */}
+          {selectedDay && (
+            <div className="mt-6 border-t pt-4">
+              <h4 className="font-semibold text-gray-800 mb-3">
+                {selectedDay.date.toLocaleDateString('zh-CN')}：共 {selectedItems.length} 项，
+                约 {formatMinutes(selectedItems.reduce((sum, item) => sum + item.seconds, 0))} 分钟
+              </h4>
+              {selectedItems.length === 0 ? (
+                <p className="text-gray-500">当天没有安排</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {collectionBreakdown.map(row => (
+                      <span key={row.collection.id} className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-xs flex items-center">
+                        <span
+                          className="w-2 h-2 rounded-full mr-2"
+                          style={{ backgroundColor: row.collection.color }}
+                        />
+                        {row.collection.name}：新 {row.newCount} / 音 {row.audioCount} / 视 {row.videoCount} · {row.minutes}分钟
+                      </span>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {selectedItems.map(item => (
+                      <div key={item.videoId} className="p-3 rounded-lg border bg-gray-50 border-gray-200">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center">
+                            {getItemIcon(item)}
+                            <span className="ml-2 text-sm font-medium">{getItemText(item)}</span>
+                          </div>
+                          <span className="text-xs text-gray-500">
+                            {item.isEstimated ? '约' : ''}{formatMinutes(item.seconds)}分钟
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-700 mt-1 truncate">{getVideoName(item.videoId)}</p>
+                        <p className="text-xs text-gray-500 truncate">{getCollection(item.collectionId)?.name}</p>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
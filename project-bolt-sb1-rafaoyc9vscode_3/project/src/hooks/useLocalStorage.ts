@@ -1,185 +1,181 @@
-import { useState } from 'react';
+import { FILES_STORE, openDatabase, promisifyRequest, waitForTransaction } from '../utils/database';
+import type { StoredFileInfo } from '../utils/storageUsage';
+import { hasReadPermission, requestReadPermission } from '../utils/linkedFolders';
 
-export function useLocalStorage<T>(key: string, initialValue: T) {
-  // 获取存储的值
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  });
+// files 表中的记录
+interface StoredFileRecord {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  blob?: Blob; // 媒体内容，由浏览器写入磁盘，读取时不会整个载入内存
+  data?: ArrayBuffer; // 旧版本整个读入内存后保存的内容
+  handle?: FileSystemFileHandle; // 关联文件夹中的文件，只保存句柄
+  path?: string; // 在关联文件夹中的相对路径
+  timestamp: number;
+}
 
-  // 设置值的函数
-  const setValue = (value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(`Error setting localStorage key "${key}":`, error);
-    }
-  };
+// 文件能否读取：关联的文件可能已被移动，或本次启动还没有授权
+export type StoredFileStatus = 'ok' | 'missing' | 'no-permission';
 
-  return [storedValue, setValue] as const;
+// 正在使用的对象地址及引用数
+interface ObjectUrlEntry {
+  url: string;
+  refs: number;
 }
 
-// 数据序列化辅助函数 - 修复文件URL保存问题
-export const serializeVideoFile = (video: any) => ({
-  ...video,
-  dateAdded: video.dateAdded.toISOString(),
-  firstPlayDate: video.firstPlayDate?.toISOString(),
-  nextReviewDate: video.nextReviewDate?.toISOString(),
-  // 不保存 File 对象，但保留文件信息用于重建
-  fileName: video.file?.name,
-  fileType: video.file?.type,
-  fileSize: video.file?.size,
-  file: null,
-  // fileUrl 将通过 IndexedDB 单独保存
-});
-
-export const deserializeVideoFile = (video: any) => ({
-  ...video,
-  dateAdded: new Date(video.dateAdded),
-  firstPlayDate: video.firstPlayDate ? new Date(video.firstPlayDate) : undefined,
-  nextReviewDate: video.nextReviewDate ? new Date(video.nextReviewDate) : undefined,
-});
-
-export const serializeCollection = (collection: any) => ({
-  ...collection,
-  dateCreated: collection.dateCreated.toISOString(),
-});
-
-export const deserializeCollection = (collection: any) => ({
-  ...collection,
-  dateCreated: new Date(collection.dateCreated),
-});
-
-export const serializePlaylist = (playlist: any) => ({
-  ...playlist,
-  date: playlist.date.toISOString(),
-});
-
-export const deserializePlaylist = (playlist: any) => ({
-  ...playlist,
-  date: new Date(playlist.date),
-});
-
 // IndexedDB 文件存储管理
 class FileStorageManager {
-  private dbName = 'VideoLearningApp';
-  private version = 2;
-  private db: IDBDatabase | null = null;
+  private urls = new Map<string, ObjectUrlEntry>();
 
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version);
-      
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-      
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains('files')) {
-          db.createObjectStore('files', { keyPath: 'id' });
-        }
-      };
-    });
+    await openDatabase();
   }
 
-  async saveFile(id: string, file: File): Promise<string> {
+  // 直接保存 File（即 Blob），不经过 ArrayBuffer，避免大文件占满内存
+  async saveFile(id: string, file: File): Promise<void> {
     console.log('FileStorage: saveFile 开始', { id, fileName: file.name, fileSize: file.size, fileType: file.type });
-    
-    if (!this.db) {
-      console.log('FileStorage: 数据库未初始化，正在初始化...');
-      await this.init();
+    const db = await openDatabase();
+    const transaction = db.transaction([FILES_STORE], 'readwrite');
+    const record: StoredFileRecord = {
+      id,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      blob: file,
+      timestamp: Date.now(),
+    };
+    transaction.objectStore(FILES_STORE).put(record);
+    await waitForTransaction(transaction);
+    console.log('FileStorage: 文件保存到 IndexedDB 成功');
+  }
+
+  // 关联模式：只保存文件句柄，媒体留在原文件夹
+  async saveLinkedFile(id: string, handle: FileSystemFileHandle, file: File, path: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([FILES_STORE], 'readwrite');
+    const record: StoredFileRecord = {
+      id,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      handle,
+      path,
+      timestamp: Date.now(),
+    };
+    transaction.objectStore(FILES_STORE).put(record);
+    await waitForTransaction(transaction);
+    this.revokeUrl(id);
+  }
+
+  private async getRecord(id: string): Promise<StoredFileRecord | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction([FILES_STORE], 'readonly').objectStore(FILES_STORE);
+    return promisifyRequest(store.get(id) as IDBRequest<StoredFileRecord | undefined>);
+  }
+
+  // 读取媒体内容，不存在时返回 null；关联的文件没有权限或已被移动时也返回 null，可用 getFileStatus 区分
+  async getFile(id: string): Promise<Blob | null> {
+    const record = await this.getRecord(id);
+    if (!record) return null;
+    if (record.handle) {
+      // 播放由用户点击触发，此时可以直接弹出授权
+      if (!(await requestReadPermission(record.handle))) return null;
+      return record.handle.getFile().catch(() => null);
+    }
+    if (record.blob) return record.blob;
+    return record.data ? new Blob([record.data], { type: record.type }) : null;
+  }
+
+  // 检查文件能否读取，不弹出授权
+  async getFileStatus(id: string): Promise<StoredFileStatus> {
+    const record = await this.getRecord(id);
+    if (!record) return 'missing';
+    if (!record.handle) return record.blob || record.data ? 'ok' : 'missing';
+    if (!(await hasReadPermission(record.handle))) return 'no-permission';
+    try {
+      await record.handle.getFile();
+      return 'ok';
+    } catch {
+      return 'missing';
     }
-    
-    return new Promise((resolve, reject) => {
-      console.log('FileStorage: 开始读取文件为 ArrayBuffer');
-      // 将文件转换为 ArrayBuffer 存储
-      const reader = new FileReader();
-      reader.onload = () => {
-        console.log('FileStorage: 文件读取完成，开始保存到 IndexedDB');
-        try {
-          // Move transaction creation inside the callback to ensure it's active
-          const transaction = this.db!.transaction(['files'], 'readwrite');
-          const store = transaction.objectStore('files');
-          
-          const fileData = {
-            id,
-            name: file.name,
-            type: file.type,
-            size: file.size,
-            data: reader.result as ArrayBuffer,
-            timestamp: Date.now()
-          };
-          
-          console.log('FileStorage: 准备保存到 IndexedDB', { id, name: file.name, size: file.size });
-          const request = store.put(fileData);
-          request.onsuccess = () => {
-            console.log('FileStorage: 文件保存到 IndexedDB 成功');
-            // 创建临时 URL
-            const blob = new Blob([reader.result as ArrayBuffer], { type: file.type });
-            const url = URL.createObjectURL(blob);
-            console.log('FileStorage: 创建临时 URL 成功', url);
-            resolve(url);
-          };
-          request.onerror = () => {
-            console.error('FileStorage: 保存到 IndexedDB 失败', request.error);
-            reject(request.error);
-          };
-        } catch (error) {
-          console.error('FileStorage: 创建事务失败', error);
-          reject(error);
-        }
-      };
-      reader.onerror = () => {
-        console.error('FileStorage: 读取文件失败', reader.error);
-        reject(reader.error);
-      };
-      reader.readAsArrayBuffer(file);
-    });
   }
 
-  async getFile(id: string): Promise<string | null> {
-    if (!this.db) await this.init();
-    
+  // 列出全部文件的大小；逐条遍历，旧版本的 ArrayBuffer 记录同一时间只载入一条
+  async listFiles(): Promise<StoredFileInfo[]> {
+    const db = await openDatabase();
+    const request = db.transaction([FILES_STORE], 'readonly').objectStore(FILES_STORE).openCursor();
+    const files: StoredFileInfo[] = [];
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['files'], 'readonly');
-      const store = transaction.objectStore('files');
-      const request = store.get(id);
-      
+      request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        if (request.result) {
-          const blob = new Blob([request.result.data], { type: request.result.type });
-          const url = URL.createObjectURL(blob);
-          resolve(url);
-        } else {
-          resolve(null);
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(files);
+          return;
         }
+        const record = cursor.value as StoredFileRecord;
+        files.push({
+          id: record.id,
+          name: record.name,
+          size: record.blob?.size ?? record.size,
+          linked: !!record.handle,
+          type: record.blob?.type || record.type,
+        });
+        cursor.continue();
       };
-      request.onerror = () => reject(request.error);
     });
   }
 
   async deleteFile(id: string): Promise<void> {
-    if (!this.db) await this.init();
-    
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['files'], 'readwrite');
-      const store = transaction.objectStore('files');
-      const request = store.delete(id);
-      
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    this.revokeUrl(id);
+    const db = await openDatabase();
+    const store = db.transaction([FILES_STORE], 'readwrite').objectStore(FILES_STORE);
+    await promisifyRequest(store.delete(id));
+  }
+
+  /**
+   * 播放时创建对象地址，同一文件共用一个地址；文件不存在时使用本次导入的原始文件（保存失败的情况）
+   * 每次成功获取都要对应一次 releaseUrl
+   */
+  async acquireUrl(id: string, fallback?: Blob): Promise<string | null> {
+    const existing = this.urls.get(id);
+    if (existing) {
+      existing.refs++;
+      return existing.url;
+    }
+
+    const blob = (await this.getFile(id)) ?? fallback ?? null;
+    if (!blob) return null;
+
+    // 读取期间可能已有其他调用创建了地址
+    const created = this.urls.get(id);
+    if (created) {
+      created.refs++;
+      return created.url;
+    }
+    const url = URL.createObjectURL(blob);
+    this.urls.set(id, { url, refs: 1 });
+    return url;
+  }
+
+  // 释放对象地址，没有使用者时撤销
+  releaseUrl(id: string): void {
+    const entry = this.urls.get(id);
+    if (!entry) return;
+    entry.refs--;
+    if (entry.refs <= 0) {
+      this.revokeUrl(id);
+    }
+  }
+
+  private revokeUrl(id: string): void {
+    const entry = this.urls.get(id);
+    if (entry) {
+      URL.revokeObjectURL(entry.url);
+      this.urls.delete(id);
+    }
   }
 }
 
-export const fileStorage = new FileStorageManager();
\ No newline at end of file
+export const fileStorage = new FileStorageManager();
@@ -1,97 +1,370 @@
-import { useState, useEffect } from 'react';
-import { VideoFile, DailyPlaylist, PlaylistItem, LearningStats, PlaylistPreview, Collection } from '../types';
-import { 
-  useLocalStorage, 
-  serializeVideoFile, 
-  deserializeVideoFile,
-  serializeCollection,
-  deserializeCollection,
-  serializePlaylist,
-  deserializePlaylist,
-  fileStorage
-} from './useLocalStorage';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { VideoFile, DailyPlaylist, PlaylistItem, LearningStats, PlaylistPreview, Collection, CollectionSchedule, CramFilter, AppSettings, ReviewGrade, PlaylistItemOutcome, BacklogDay, ForecastDay, PausePeriod, ReviewEvent } from '../types';
+import { fileStorage, StoredFileStatus } from './useLocalStorage';
+import { normalizeAppSettings } from '../utils/settings';
+import { MetadataItems, MetadataStoreName, RECORD_ORDER, metadataStore } from '../utils/metadataStore';
+import { countStages, getResumeStage, isGraduated, transitionStage } from '../utils/lifecycle';
+import { isItemCreditable, mergeItemOutcome } from '../utils/playlistOutcome';
+import { probeMediaDuration } from '../utils/mediaDuration';
+import { FingerprintMatch, RetiredVideo, matchFingerprints } from '../utils/fingerprint';
+import { fingerprintFile } from '../utils/fingerprintClient';
+import { getMeta, setMeta } from '../utils/database';
+import { BackupProgress, ParsedBackup, getBackupMedia, remapBackupIds } from '../utils/backup';
+import { ProgressUpdate } from '../utils/progressSync';
+import { SyncMessage, subscribeChanges } from '../utils/crossTab';
+import { dropDanglingItems, recountCollections } from '../utils/integrity';
+import { LinkedFolder, deleteLinkedFolder, getLinkedFolders, hasReadPermission, requestReadPermission, saveLinkedFolder, scanLinkedFolder } from '../utils/linkedFolders';
+import { findUndoablePlay, getEventState, getStateBeforeEvent, replayEvents, reviewEventLog } from '../utils/eventLog';
+import {
+  addDays,
+  applyPlay,
+  forecastWorkload,
+  getBacklogForecast,
+  getActiveVideos,
+  getPauseDays,
+  getScheduleContext,
+  getSchedulingAlgorithm,
+  isCollectionPaused,
+  learningDayDiff,
+  planDay,
+  previewGradeIntervals,
+  rescheduleVideo,
+  resetSchedule,
+  selectCramItems,
+  selectNewVideos,
+  selectReviews,
+  shiftScheduleStep,
+  spreadBacklog,
+  SchedulerInput,
+} from '../utils/scheduler';
 
-export const usePlaylistManager = () => {
-  // 使用本地存储
-  const [storedVideos, setStoredVideos] = useLocalStorage<any[]>('videos', []);
-  const [storedPlaylists, setStoredPlaylists] = useLocalStorage<any[]>('playlists', []);
-  const [storedCollections, setStoredCollections] = useLocalStorage<any[]>('collections', []);
+// 已删除条目的指纹记录，保存在 meta 表中；只保留最近的若干条
+const RETIRED_VIDEOS_KEY = 'retiredVideos';
+const MAX_RETIRED_VIDEOS = 500;
+
+// 上次写入数据库的数据
+type PersistedMetadata = { [K in MetadataStoreName]: MetadataItems[K][] };
+
+// 与上次写入的数据对比，只保存变化的记录
+const persistStore = <K extends MetadataStoreName>(persisted: { [P in K]: MetadataItems[P][] }, storeName: K, next: MetadataItems[K][]) => {
+  const previous = persisted[storeName];
+  persisted[storeName] = next;
+  metadataStore.saveChanges(storeName, previous, next).catch(error => {
+    console.error(`Error saving ${storeName}:`, error);
+  });
+};
 
+// 用其他标签页写入的记录替换本地记录，删除已删除的，新增的按加载时的顺序插入
+const replaceRecords = <T extends { id: string }>(
+  items: T[],
+  records: Map<string, T>,
+  deleted: Set<string>,
+  compare: (a: T, b: T) => number
+): T[] => {
+  const existingIds = new Set(items.map(item => item.id));
+  const result = items.filter(item => !deleted.has(item.id)).map(item => records.get(item.id) ?? item);
+  records.forEach(record => {
+    if (existingIds.has(record.id)) return;
+    const index = result.findIndex(item => compare(record, item) < 0);
+    result.splice(index === -1 ? result.length : index, 0, record);
+  });
+  return result;
+};
+
+export const usePlaylistManager = () => {
   const [videos, setVideos] = useState<VideoFile[]>([]);
+  // 同步保存最新的条目，调度结果要在同一事件中写入事件日志
+  const videosRef = useRef<VideoFile[]>([]);
   const [playlists, setPlaylists] = useState<DailyPlaylist[]>([]);
+  // 同步保存最新的播放列表，保证同一事件中先评分后完成时能读到评分
+  const playlistsRef = useRef<DailyPlaylist[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
+  const [pausePeriods, setPausePeriods] = useState<PausePeriod[]>([]);
+  const [storedSettings, setStoredSettings] = useState<Partial<AppSettings>>();
   const [isLoading, setIsLoading] = useState(true);
+  // 本次启动还没有读取权限的关联文件夹
+  const [lockedFolders, setLockedFolders] = useState<LinkedFolder[]>([]);
+  const persistedRef = useRef<PersistedMetadata>({ videos: [], playlists: [], collections: [], pauses: [] });
+  // 删除过的有进度的条目，重新导入同一文件时用于恢复
+  const retiredVideosRef = useRef<RetiredVideo[]>([]);
 
-  // 新复习间隔：第1、4、7、15、30、90天（第一次复习为明天）
-  const REVIEW_INTERVALS = [1, 4, 7, 15, 30, 90];
-  const MAX_NEW_PER_DAY = 4; // 每日新学习数量改为4集
-  const MAX_REVIEW_PER_DAY = 600; // 每日最大复习数量，已由6改为600
+  // 设置对象只在保存的设置变化时重建，依赖它的缓存（如提醒计划）才能命中
+  const settings = useMemo(() => normalizeAppSettings(storedSettings), [storedSettings]);
+  const algorithm = getSchedulingAlgorithm(settings.schedulerAlgorithm);
+
+  // 调度引擎输入：当前状态 + 当前时间
+  const getSchedulerInput = (): SchedulerInput => ({
+    videos,
+    collections,
+    history: playlists,
+    pauses: pausePeriods,
+    now: new Date(),
+    settings,
+  });
+
+  // 积压模式：把逾期复习平摊到接下来几天，保留原到期日
+  const applyBacklogSpread = (input: SchedulerInput): VideoFile[] => {
+    const assignments = spreadBacklog(input, input.settings.backlogSpreadDays);
+    if (assignments.size === 0) return input.videos;
+    return input.videos.map(video => {
+      const dueDate = assignments.get(video.id);
+      return dueDate
+        ? { ...video, backlogSince: video.backlogSince ?? video.nextReviewDate, nextReviewDate: dueDate }
+        : video;
+    });
+  };
+
+  // 关闭积压模式：恢复原到期日
+  const restoreBacklogDueDates = (source: VideoFile[]): VideoFile[] => source.map(video =>
+    video.backlogSince
+      ? { ...video, nextReviewDate: video.backlogSince, backlogSince: undefined }
+      : video
+  );
+
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const nextSettings = { ...settings, ...changes };
+    setStoredSettings(nextSettings);
+    metadataStore.saveSettings(nextSettings).catch(error => {
+      console.error('Error saving settings:', error);
+    });
+
+    if (nextSettings.backlogMode) {
+      const backlogChanged = !settings.backlogMode || nextSettings.backlogSpreadDays !== settings.backlogSpreadDays;
+      if (backlogChanged) {
+        const source = restoreBacklogDueDates(videosRef.current);
+        commitReschedule(applyBacklogSpread({ ...getSchedulerInput(), videos: source, settings: nextSettings }));
+      }
+    } else if (settings.backlogMode) {
+      commitReschedule(restoreBacklogDueDates(videosRef.current));
+    }
+  };
 
   // 初始化数据
   useEffect(() => {
     const initializeData = async () => {
+      const helpers = initHelpersRef.current;
       try {
         // 初始化文件存储
         await fileStorage.init();
-        
-        // 恢复合辑数据
-        const restoredCollections = storedCollections.map(deserializeCollection);
-        setCollections(restoredCollections);
-
-        // 恢复播放列表数据
-        const restoredPlaylists = storedPlaylists.map(deserializePlaylist);
-        setPlaylists(restoredPlaylists);
-
-        // 恢复视频数据
-        const restoredVideos = await Promise.all(
-          storedVideos.map(async (video) => {
-            const restored = deserializeVideoFile(video);
-            // 从 IndexedDB 恢复文件URL
-            try {
-              const fileUrl = await fileStorage.getFile(video.id);
-              if (fileUrl) {
-                restored.fileUrl = fileUrl;
-              }
-            } catch (error) {
-              console.error('Error restoring file for video:', video.id, error);
+
+        // 读取元数据（首次运行时从旧版本的 localStorage 迁移）
+        const stored = await metadataStore.load();
+        if (stored.invalidRecords.length > 0) {
+          console.warn('Skipped invalid records:', stored.invalidRecords);
+        }
+        const loadedSettings = normalizeAppSettings(stored.settings);
+        setStoredSettings(stored.settings);
+        setPausePeriods(stored.pauses);
+        setCollections(stored.collections);
+        commitPlaylists(() => stored.playlists);
+        persistedRef.current = { ...persistedRef.current, playlists: stored.playlists, collections: stored.collections, pauses: stored.pauses };
+
+        // 恢复视频数据：媒体文件在播放时才读取
+        const restoredVideos: VideoFile[] = stored.videos;
+
+        // 学习进度以事件日志为准：有事件的条目由回放得出，旧数据补记一条迁移快照
+        let replayedVideos = restoredVideos;
+        try {
+          const events = await reviewEventLog.getAll();
+          const eventsByVideo = new Map<string, ReviewEvent[]>();
+          events.forEach(event => {
+            const videoEvents = eventsByVideo.get(event.videoId);
+            if (videoEvents) {
+              videoEvents.push(event);
+            } else {
+              eventsByVideo.set(event.videoId, [event]);
             }
-            return restored;
-          })
-        );
-        setVideos(restoredVideos);
+          });
+          const now = new Date();
+          const snapshots: ReviewEvent[] = [];
+          replayedVideos = restoredVideos.map(video => {
+            const videoEvents = eventsByVideo.get(video.id);
+            if (videoEvents) return replayEvents(video, videoEvents);
+            if (video.stage !== 'new' || video.reviewCount > 0) {
+              snapshots.push({
+                id: generateUUID(),
+                videoId: video.id,
+                type: 'snapshot',
+                timestamp: now,
+                sessionId: helpers.getAppSessionId(),
+                secondsWatched: 0,
+                state: { ...getEventState(video), stageHistory: video.stageHistory },
+              });
+            }
+            return video;
+          });
+          await reviewEventLog.append(snapshots);
+        } catch (error) {
+          console.error('Error replaying review events:', error);
+        }
+
+        // 回放或积压平摊改变的条目在加载完成后写回；平摊记为改期事件，下次加载由回放得出
+        persistedRef.current.videos = restoredVideos;
+        commitVideos(() => replayedVideos);
+        if (loadedSettings.backlogMode) {
+          helpers.commitReschedule(applyBacklogSpread({
+            videos: replayedVideos,
+            collections: stored.collections,
+            history: stored.playlists,
+            pauses: stored.pauses,
+            now: new Date(),
+            settings: loadedSettings,
+          }));
+        }
       } catch (error) {
         console.error('Error initializing data:', error);
       } finally {
         setIsLoading(false);
       }
+      try {
+        retiredVideosRef.current = (await getMeta<RetiredVideo[]>(RETIRED_VIDEOS_KEY)) ?? [];
+      } catch (error) {
+        console.error('Error loading retired videos:', error);
+      }
+      await refreshFolderAccess();
+      helpers.backfillMediaInfo();
     };
 
     initializeData();
   }, []);
 
-  // 保存数据到本地存储
+  // 保存数据到 IndexedDB
 
   useEffect(() => {
-    if (!isLoading) {
-      const serializedVideos = videos.map(serializeVideoFile);
-      setStoredVideos(serializedVideos);
-    }
+    if (!isLoading) persistStore(persistedRef.current, 'videos', videos);
   }, [videos, isLoading]);
 
   useEffect(() => {
-    if (!isLoading) {
-      const serializedPlaylists = playlists.map(serializePlaylist);
-      setStoredPlaylists(serializedPlaylists);
-    }
+    if (!isLoading) persistStore(persistedRef.current, 'playlists', playlists);
   }, [playlists, isLoading]);
 
   useEffect(() => {
-    if (!isLoading) {
-      const serializedCollections = collections.map(serializeCollection);
-      setStoredCollections(serializedCollections);
-    }
+    if (!isLoading) persistStore(persistedRef.current, 'collections', collections);
   }, [collections, isLoading]);
 
+  useEffect(() => {
+    if (!isLoading) persistStore(persistedRef.current, 'pauses', pausePeriods);
+  }, [pausePeriods, isLoading]);
+
+  // 其他标签页写入后重新读取变化的记录；已保存的副本同时替换为相同的对象，这些记录不会再被写回
+  useEffect(() => {
+    if (isLoading) return;
+
+    const applyMessage = async (message: SyncMessage) => {
+      if (message.type === 'settings') {
+        setStoredSettings(await metadataStore.loadSettings());
+        return;
+      }
+      const loaded = await metadataStore.loadRecords(message.store, message.put);
+      const loadedIds = new Set(loaded.map(record => record.id));
+      // 读取前又被删除的记录按删除处理
+      const deleted = new Set([...message.deleted, ...message.put.filter(id => !loadedIds.has(id))]);
+      const persisted = persistedRef.current;
+
+      switch (message.store) {
+        case 'videos': {
+          const records = new Map((loaded as VideoFile[]).map(record => [record.id, record]));
+          persisted.videos = replaceRecords(persisted.videos, records, deleted, RECORD_ORDER.videos);
+          videosRef.current = replaceRecords(videosRef.current, records, deleted, RECORD_ORDER.videos);
+          setVideos(videosRef.current);
+          break;
+        }
+        case 'playlists': {
+          const records = new Map((loaded as DailyPlaylist[]).map(record => [record.id, record]));
+          persisted.playlists = replaceRecords(persisted.playlists, records, deleted, RECORD_ORDER.playlists);
+          playlistsRef.current = replaceRecords(playlistsRef.current, records, deleted, RECORD_ORDER.playlists);
+          setPlaylists(playlistsRef.current);
+          break;
+        }
+        case 'collections': {
+          const records = new Map((loaded as Collection[]).map(record => [record.id, record]));
+          persisted.collections = replaceRecords(persisted.collections, records, deleted, RECORD_ORDER.collections);
+          setCollections(prev => replaceRecords(prev, records, deleted, RECORD_ORDER.collections));
+          break;
+        }
+        case 'pauses': {
+          const records = new Map((loaded as PausePeriod[]).map(record => [record.id, record]));
+          persisted.pauses = replaceRecords(persisted.pauses, records, deleted, RECORD_ORDER.pauses);
+          setPausePeriods(prev => replaceRecords(prev, records, deleted, RECORD_ORDER.pauses));
+          break;
+        }
+      }
+    };
+
+    return subscribeChanges(message => {
+      applyMessage(message).catch(error => {
+        console.error('Error applying changes from another tab:', error);
+      });
+    });
+  }, [isLoading]);
+
+  const commitPlaylists = (updater: (prev: DailyPlaylist[]) => DailyPlaylist[]) => {
+    playlistsRef.current = updater(playlistsRef.current);
+    setPlaylists(playlistsRef.current);
+  };
+
+  const commitVideos = (updater: (prev: VideoFile[]) => VideoFile[]) => {
+    videosRef.current = updater(videosRef.current);
+    setVideos(videosRef.current);
+  };
+
+  // 旧版本导入的条目没有时长和指纹：后台逐个读取补上，供时长预算、复习量预测和重复检测使用
+  const backfillMediaInfo = async () => {
+    const pending = videosRef.current.filter(v => !v.duration || !v.fingerprint);
+    for (const video of pending) {
+      const blob = await fileStorage.getFile(video.id).catch(() => null);
+      if (!blob) continue;
+      const duration = video.duration ?? await probeMediaDuration(blob);
+      const fingerprint = video.fingerprint ?? await fingerprintFile(blob);
+      if (duration !== video.duration || fingerprint !== video.fingerprint) {
+        commitVideos(prev => prev.map(v => v.id === video.id ? { ...v, duration, fingerprint } : v));
+      }
+    }
+  };
+
+  // 删除条目时保留有学习进度的条目的指纹和状态，以后重新导入同一文件可以恢复
+  const retireVideos = async (removed: VideoFile[]) => {
+    const deletedAt = new Date();
+    const retiring: RetiredVideo[] = removed
+      .filter(video => video.fingerprint && (video.reviewCount > 0 || video.stage !== 'new'))
+      .map(video => {
+        const stored = { ...video };
+        delete stored.file;
+        delete stored.fileUrl;
+        delete stored.needsRelink;
+        return { fingerprint: video.fingerprint as string, video: stored, deletedAt };
+      });
+    if (retiring.length === 0) return;
+    const fingerprints = new Set(retiring.map(item => item.fingerprint));
+    retiredVideosRef.current = [
+      ...retiredVideosRef.current.filter(item => !fingerprints.has(item.fingerprint)),
+      ...retiring,
+    ].slice(-MAX_RETIRED_VIDEOS);
+    await saveRetiredVideos();
+  };
+
+  const saveRetiredVideos = async () => {
+    try {
+      await setMeta(RETIRED_VIDEOS_KEY, retiredVideosRef.current);
+    } catch (error) {
+      console.error('Error saving retired videos:', error);
+    }
+  };
+
+  // 重新检查关联文件夹的权限，浏览器重启后通常需要用户再次授权
+  const refreshFolderAccess = async () => {
+    try {
+      const folders = await getLinkedFolders();
+      const locked: LinkedFolder[] = [];
+      for (const folder of folders) {
+        if (!(await hasReadPermission(folder.handle))) locked.push(folder);
+      }
+      setLockedFolders(locked);
+    } catch (error) {
+      console.error('Error checking linked folder access:', error);
+    }
+  };
+
   // 生成随机颜色
   const generateRandomColor = () => {
     const colors = [
@@ -115,7 +388,46 @@ export const usePlaylistManager = () => {
     });
   };
 
-  const createCollection = (name: string, description?: string) => {
+  // 本次打开应用的会话ID，用于播放列表之外的事件
+  const appSessionIdRef = useRef<string | null>(null);
+  const getAppSessionId = () => {
+    if (!appSessionIdRef.current) {
+      appSessionIdRef.current = generateUUID();
+    }
+    return appSessionIdRef.current;
+  };
+
+  // 追加学习事件；写入失败不影响当前操作
+  const logEvents = (events: Omit<ReviewEvent, 'id' | 'timestamp' | 'sessionId' | 'secondsWatched'>[], detail: Partial<ReviewEvent> = {}) => {
+    const timestamp = new Date();
+    reviewEventLog.append(events.map(event => ({
+      id: generateUUID(),
+      timestamp,
+      sessionId: getAppSessionId(),
+      secondsWatched: 0,
+      ...detail,
+      ...event,
+    }))).catch(error => {
+      console.error('Error appending review events:', error);
+    });
+  };
+
+  // 批量改期（积压平摊、恢复原到期日）：next 与当前条目一一对应，变化的条目各记一条改期事件
+  const commitReschedule = (next: VideoFile[], detail: Partial<ReviewEvent> = {}) => {
+    const previous = videosRef.current;
+    logEvents(next
+      .filter((video, index) => video !== previous[index])
+      .map(video => ({ videoId: video.id, type: 'reschedule' as const, state: getEventState(video) })),
+      detail
+    );
+    commitVideos(() => next);
+  };
+
+  // 初始化只执行一次，通过 ref 调用最新渲染中的辅助函数
+  const initHelpersRef = useRef({ backfillMediaInfo, commitReschedule, getAppSessionId });
+  initHelpersRef.current = { backfillMediaInfo, commitReschedule, getAppSessionId };
+
+  const createCollection = (name: string, description?: string, schedule?: CollectionSchedule) => {
     console.log('Creating collection:', name, description); // 调试日志
     
     const newCollection: Collection = {
@@ -127,6 +439,7 @@ export const usePlaylistManager = () => {
       totalVideos: 0,
       completedVideos: 0,
       color: generateRandomColor(),
+      schedule,
     };
 
     console.log('New collection created:', newCollection); // 调试日志
@@ -148,17 +461,23 @@ export const usePlaylistManager = () => {
     ));
   };
 
+  const updateCollectionSchedule = (collectionId: string, schedule: CollectionSchedule) => {
+    setCollections(prev => prev.map(collection => 
+      collection.id === collectionId 
+        ? { ...collection, schedule }
+        : collection
+    ));
+  };
+
   const deleteCollection = async (collectionId: string) => {
     // 删除合辑中的所有视频文件
     const collectionVideos = videos.filter(v => v.collectionId === collectionId);
+    await retireVideos(collectionVideos);
     
     // 清理文件存储
     await Promise.all(
       collectionVideos.map(async (video) => {
         try {
-          if (video.fileUrl) {
-            URL.revokeObjectURL(video.fileUrl);
-          }
           await fileStorage.deleteFile(video.id);
         } catch (error) {
           console.error('Error deleting file for video:', video.id, error);
@@ -166,7 +485,21 @@ export const usePlaylistManager = () => {
       })
     );
     
-    setVideos(prev => prev.filter(v => v.collectionId !== collectionId));
+    try {
+      await reviewEventLog.deleteByVideo(collectionVideos.map(v => v.id));
+    } catch (error) {
+      console.error('Error deleting review events for collection:', collectionId, error);
+    }
+
+    // 关联文件夹只删除保存的句柄，原文件不受影响
+    try {
+      await deleteLinkedFolder(collectionId);
+      setLockedFolders(prev => prev.filter(folder => folder.collectionId !== collectionId));
+    } catch (error) {
+      console.error('Error deleting linked folder for collection:', collectionId, error);
+    }
+    
+    commitVideos(prev => prev.filter(v => v.collectionId !== collectionId));
     setCollections(prev => prev.filter(c => c.id !== collectionId));
   };
 
@@ -178,56 +511,39 @@ export const usePlaylistManager = () => {
     ));
   };
 
-  const addVideos = async (files: File[], collectionId: string) => {
+  // fingerprints 为导入前已算好的内容指纹，与 files 一一对应；未提供时在这里计算
+  const addVideos = async (files: File[], collectionId: string, fingerprints?: (string | undefined)[]) => {
     console.log('usePlaylistManager: addVideos 开始', { filesCount: files.length, collectionId });
     
+    // 集数接着合辑中已有的最大集数编号，分批导入时顺序不乱
+    const lastEpisode = videos
+      .filter(v => v.collectionId === collectionId)
+      .reduce((max, v) => Math.max(max, v.episodeNumber ?? 0), 0);
+
     try {
-      const newVideos: VideoFile[] = await Promise.all(
-        files.map(async (file, index) => {
-          console.log(`usePlaylistManager: 处理文件 ${index + 1}/${files.length}:`, file.name);
-          
-          const id = generateUUID(); // 使用我们的兼容函数
-          
-          try {
-            // 保存文件到 IndexedDB 并获取 URL
-            console.log(`usePlaylistManager: 开始保存文件到 IndexedDB:`, file.name);
-            const fileUrl = await fileStorage.saveFile(id, file);
-            console.log(`usePlaylistManager: 文件保存成功:`, { fileName: file.name, fileUrl });
-            
-            return {
-              id,
-              name: file.name.replace(/\.[^/.]+$/, ""),
-              file,
-              fileUrl,
-              dateAdded: new Date(),
-              reviewCount: 0,
-              status: 'new' as const,
-              collectionId,
-              episodeNumber: index + 1,
-            };
-          } catch (error) {
-            console.error('usePlaylistManager: 保存文件到 IndexedDB 失败:', file.name, error);
-            // 如果保存失败，使用临时 URL
-            const fallbackUrl = URL.createObjectURL(file);
-            console.log(`usePlaylistManager: 使用临时 URL 作为后备:`, { fileName: file.name, fallbackUrl });
-            
-            return {
-              id,
-              name: file.name.replace(/\.[^/.]+$/, ""),
-              file,
-              fileUrl: fallbackUrl,
-              dateAdded: new Date(),
-              reviewCount: 0,
-              status: 'new' as const,
-              collectionId,
-              episodeNumber: index + 1,
-            };
-          }
-        })
-      );
+      // 逐个保存，同一时间只处理一个文件
+      const newVideos: VideoFile[] = [];
+      for (const [index, file] of files.entries()) {
+        console.log(`usePlaylistManager: 处理文件 ${index + 1}/${files.length}:`, file.name);
+
+        const id = generateUUID(); // 使用我们的兼容函数
+
+        try {
+          console.log(`usePlaylistManager: 开始保存文件到 IndexedDB:`, file.name);
+          await fileStorage.saveFile(id, file);
+          console.log(`usePlaylistManager: 文件保存成功:`, file.name);
+        } catch (error) {
+          // 保存失败时本次打开期间仍可用原始文件播放
+          console.error('usePlaylistManager: 保存文件到 IndexedDB 失败:', file.name, error);
+        }
+        const duration = await probeMediaDuration(file);
+        const fingerprint = fingerprints?.[index] ?? await fingerprintFile(file);
+
+        newVideos.push({ ...createVideoEntry(id, file.name, collectionId, lastEpisode + index + 1, duration), file, fingerprint });
+      }
 
       console.log('usePlaylistManager: 所有文件处理完成，添加到视频列表', newVideos.length);
-      setVideos(prev => [...prev, ...newVideos]);
+      commitVideos(prev => [...prev, ...newVideos]);
       
       // 更新合辑统计
       console.log('usePlaylistManager: 更新合辑统计', { collectionId, videoCount: newVideos.length });
@@ -248,112 +564,269 @@ export const usePlaylistManager = () => {
     }
   };
 
-  const markVideoAsPlayed = (videoId: string) => {
-    setVideos(prev => prev.map(video => {
-      if (video.id === videoId) {
-        const now = new Date();
-        if (!video.firstPlayDate) {
-          // 第一次播放，自然日：次日0点
-          const nextReviewDate = new Date(now);
-          nextReviewDate.setDate(nextReviewDate.getDate() + REVIEW_INTERVALS[0]);
-          nextReviewDate.setHours(0, 0, 0, 0); // 设为次日0点
-          return {
-            ...video,
-            firstPlayDate: now,
-            reviewCount: 1,
-            nextReviewDate,
-            status: 'learning' as const,
-          };
-        } else {
-          // 复习
-          const newReviewCount = video.reviewCount + 1;
-          let nextReviewDate: Date | undefined;
-          let status: VideoFile['status'] = 'learning';
-
-          if (newReviewCount < 5) {
-            nextReviewDate = new Date(now);
-            nextReviewDate.setDate(nextReviewDate.getDate() + REVIEW_INTERVALS[newReviewCount - 1]);
-          } else {
-            status = 'completed';
-            // 更新合辑完成数
-            setCollections(prev => prev.map(collection => 
-              collection.id === video.collectionId 
-                ? { ...collection, completedVideos: collection.completedVideos + 1 }
-                : collection
-            ));
-          }
+  // 关联文件夹：扫描其中的媒体文件，新建合辑并只保存句柄，不复制媒体
+  const linkFolder = async (directory: FileSystemDirectoryHandle) => {
+    const entries = await scanLinkedFolder(directory);
+    if (entries.length === 0) return null;
 
-          return {
-            ...video,
-            reviewCount: newReviewCount,
-            nextReviewDate,
-            status,
-          };
-        }
+    const collection: Collection = {
+      id: generateUUID(),
+      name: directory.name,
+      dateCreated: new Date(),
+      isActive: true,
+      totalVideos: 0,
+      completedVideos: 0,
+      color: generateRandomColor(),
+      storageMode: 'linked',
+    };
+    await saveLinkedFolder({ collectionId: collection.id, name: directory.name, handle: directory });
+
+    const newVideos: VideoFile[] = [];
+    for (const [index, entry] of entries.entries()) {
+      const id = generateUUID();
+      try {
+        await fileStorage.saveLinkedFile(id, entry.handle, entry.file, entry.path);
+      } catch (error) {
+        console.error('Error saving linked file:', entry.path, error);
+        continue;
       }
-      return video;
-    }));
+      const duration = await probeMediaDuration(entry.file);
+      const fingerprint = await fingerprintFile(entry.file);
+      newVideos.push({ ...createVideoEntry(id, entry.file.name, collection.id, index + 1, duration), fingerprint });
+    }
+
+    commitVideos(prev => [...prev, ...newVideos]);
+    setCollections(prev => [...prev, { ...collection, totalVideos: newVideos.length }]);
+    return { collectionId: collection.id, count: newVideos.length };
   };
 
-  // 计算距离第一次观看的天数
-  const getDaysSinceFirstPlay = (firstPlayDate: Date): number => {
-    const today = new Date();
-    const diffTime = today.getTime() - firstPlayDate.getTime();
-    return Math.floor(diffTime / (1000 * 60 * 60 * 24));
+  // 在用户点击时申请文件夹的读取权限
+  const requestFolderAccess = async (collectionId: string) => {
+    const folder = lockedFolders.find(f => f.collectionId === collectionId);
+    if (!folder) return true;
+    const granted = await requestReadPermission(folder.handle);
+    if (granted) {
+      setLockedFolders(prev => prev.filter(f => f.collectionId !== collectionId));
+      backfillMediaInfo();
+    }
+    return granted;
   };
 
-  // 获取今日新学列表
-  const getTodayNewVideos = (isExtraSession: boolean = false): PlaylistItem[] => {
-    const activeCollectionIds = collections.filter(c => c.isActive).map(c => c.id);
-    const activeVideos = videos.filter(v => activeCollectionIds.includes(v.collectionId));
-    
-    let newVideos: VideoFile[] = [];
-    if (isExtraSession) {
-      newVideos = activeVideos.filter(v => v.status === 'new').slice(0, MAX_NEW_PER_DAY + 2);
+  // 为找不到文件的条目重新选择文件：关联合辑保存新句柄，复制合辑重新保存文件
+  const relinkVideo = async (videoId: string, source: FileSystemFileHandle | File) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video) return;
+    let file: File;
+    if (source instanceof File) {
+      file = source;
+      await fileStorage.saveFile(videoId, file);
     } else {
-      newVideos = activeVideos.filter(v => v.status === 'new').slice(0, MAX_NEW_PER_DAY);
+      file = await source.getFile();
+      await fileStorage.saveLinkedFile(videoId, source, file, source.name);
     }
+    const duration = video.duration ?? await probeMediaDuration(file);
+    const fingerprint = await fingerprintFile(file) ?? video.fingerprint;
+    commitVideos(prev => prev.map(v => v.id === videoId ? { ...v, duration, fingerprint, needsRelink: undefined } : v));
+  };
 
-    return newVideos.map(video => ({
-      videoId: video.id,
-      reviewType: 'new',
-      reviewNumber: 1,
-    }));
+  // 导入前查找与待导入文件指纹相同的条目
+  const findImportMatches = (fingerprints: (string | undefined)[]): (FingerprintMatch | null)[] => {
+    return matchFingerprints(fingerprints, videosRef.current, retiredVideosRef.current);
   };
 
-  // 获取今日复习列表（所有应复习的视频，音频/视频方式均可）
-  const getTodayReviews = (): PlaylistItem[] => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  // 用重新导入的文件接回原有条目：找不到文件的条目重新关联，删除过的条目恢复原ID、进度和历史
+  const reconnectImport = async (match: FingerprintMatch, file: File, collectionId: string) => {
+    if (match.kind === 'duplicate') return;
+    if (match.kind === 'missing') {
+      await relinkVideo(match.video.id, file);
+      return;
+    }
 
-    const activeCollectionIds = collections.filter(c => c.isActive).map(c => c.id);
-    const activeVideos = videos.filter(v => activeCollectionIds.includes(v.collectionId));
+    const { retired } = match;
+    await fileStorage.saveFile(retired.video.id, file);
+    const lastEpisode = videosRef.current
+      .filter(v => v.collectionId === collectionId)
+      .reduce((max, v) => Math.max(max, v.episodeNumber ?? 0), 0);
+    const restored: VideoFile = {
+      ...retired.video,
+      file,
+      collectionId,
+      // 换了合辑时接在末尾，避免与已有集数重复
+      episodeNumber: retired.video.collectionId === collectionId ? retired.video.episodeNumber : lastEpisode + 1,
+      duration: retired.video.duration ?? await probeMediaDuration(file),
+    };
+    commitVideos(prev => [...prev, restored]);
+    setCollections(prev => prev.map(collection =>
+      collection.id === collectionId
+        ? {
+            ...collection,
+            totalVideos: collection.totalVideos + 1,
+            completedVideos: collection.completedVideos + Number(isGraduated(restored)),
+          }
+        : collection
+    ));
+    // 删除时学习事件已清除，补记一条快照作为回放起点
+    logEvents([{
+      videoId: restored.id,
+      type: 'snapshot',
+      state: { ...getEventState(restored), stageHistory: restored.stageHistory },
+    }]);
+    retiredVideosRef.current = retiredVideosRef.current.filter(item => item.fingerprint !== retired.fingerprint);
+    await saveRetiredVideos();
+  };
+
+  // 播放时文件读取失败：确认文件确实不见了才标记为需要重新关联，未授权的文件夹重新提示授权
+  const markNeedsRelinkIfMissing = async (videoId: string): Promise<StoredFileStatus> => {
+    const status = await fileStorage.getFileStatus(videoId).catch(() => 'missing' as const);
+    if (status === 'missing') {
+      commitVideos(prev => prev.map(v => v.id === videoId && !v.needsRelink ? { ...v, needsRelink: true } : v));
+    } else if (status === 'no-permission') {
+      await refreshFolderAccess();
+    }
+    return status;
+  };
+
+  // 从备份恢复：replace 按原ID写入后再删除原有数据，merge 为备份中的记录生成新ID后追加
+  const restoreBackup = async (
+    backup: ParsedBackup,
+    mode: 'merge' | 'replace',
+    onProgress?: (progress: BackupProgress) => void
+  ) => {
+    const data = mode === 'merge' ? remapBackupIds(backup, generateUUID) : backup;
+    // 替换时先记下原有的文件和关联文件夹，备份写入完成后再删除，写入中途失败不会丢掉原有数据
+    const existingFiles = mode === 'replace' ? await fileStorage.listFiles() : [];
+    const existingFolders = mode === 'replace' ? await getLinkedFolders() : [];
 
-    const reviewVideos = activeVideos.filter(video => {
-      if (!video.nextReviewDate || video.status === 'completed') return false;
-      const reviewDate = new Date(video.nextReviewDate);
-      reviewDate.setHours(0, 0, 0, 0);
-      return reviewDate.getTime() <= today.getTime();
+    // 逐个写入媒体，写入失败的条目恢复后标记为需要重新关联
+    const restoredFiles = new Set<string>();
+    const totalBytes = data.media.reduce((sum, entry) => sum + entry.size, 0);
+    let doneBytes = 0;
+    for (const entry of data.media) {
+      try {
+        await fileStorage.saveFile(entry.videoId, getBackupMedia(data, entry));
+        restoredFiles.add(entry.videoId);
+      } catch (error) {
+        console.error('Error restoring media file:', entry.name, error);
+      }
+      doneBytes += entry.size;
+      onProgress?.({ doneBytes, totalBytes });
+    }
+
+    if (mode === 'replace') {
+      await reviewEventLog.replaceAll(data.events);
+      // 备份中的文件已按原ID覆盖写入，其余原有文件删除
+      for (const file of existingFiles) {
+        if (!restoredFiles.has(file.id)) await fileStorage.deleteFile(file.id);
+      }
+      await Promise.all(existingFolders.map(folder => deleteLinkedFolder(folder.collectionId)));
+      setLockedFolders([]);
+      retiredVideosRef.current = [];
+      await saveRetiredVideos();
+    } else {
+      await reviewEventLog.append(data.events);
+    }
+
+    const restoredVideos: VideoFile[] = data.videos.map(video => ({
+      ...video,
+      needsRelink: restoredFiles.has(video.id) ? undefined : true,
+    }));
+    commitVideos(prev => [...(mode === 'replace' ? [] : prev), ...restoredVideos].sort(RECORD_ORDER.videos));
+    commitPlaylists(prev => [...(mode === 'replace' ? [] : prev), ...data.playlists].sort(RECORD_ORDER.playlists));
+    setCollections(prev => [...(mode === 'replace' ? [] : prev), ...data.collections].sort(RECORD_ORDER.collections));
+    setPausePeriods(prev => [...(mode === 'replace' ? [] : prev), ...data.pauses].sort(RECORD_ORDER.pauses));
+    if (mode === 'replace' && data.settings) {
+      const restoredSettings = normalizeAppSettings(data.settings);
+      setStoredSettings(restoredSettings);
+      metadataStore.saveSettings(restoredSettings).catch(error => {
+        console.error('Error saving settings:', error);
+      });
+    }
+
+    return { videos: restoredVideos.length, files: restoredFiles.size };
+  };
+
+  // 合并另一台设备的进度：以快照事件写入，时间取对方最后改动的时间
+  const applyProgressUpdates = (updates: ProgressUpdate[]) => {
+    updates.forEach(({ videoId, state, updatedAt }) => {
+      const video = videosRef.current.find(v => v.id === videoId);
+      if (!video) return;
+      const updated: VideoFile = {
+        ...video,
+        ...state,
+        stageHistory: state.stageHistory ?? video.stageHistory,
+      };
+      commitVideoState(video, updated, { type: 'snapshot' }, { timestamp: updatedAt }, true);
     });
+  };
 
-    // 按复习次数排序，优先处理逾期时间长的
-    reviewVideos.sort((a, b) => {
-      if (!a.nextReviewDate || !b.nextReviewDate) return 0;
-      return a.nextReviewDate.getTime() - b.nextReviewDate.getTime();
+  const markVideoAsPlayed = (
+    videoId: string,
+    grade?: ReviewGrade,
+    detail: Pick<ReviewEvent, 'sessionId' | 'mode' | 'secondsWatched'> = { sessionId: getAppSessionId(), secondsWatched: 0 }
+  ) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video) return;
+    const now = new Date();
+    const collection = collections.find(c => c.id === video.collectionId);
+    const updated = applyPlay(video, algorithm, {
+      ...getScheduleContext(settings, collection, now, pausePeriods),
+      grade,
+      fuzz: settings.fuzzDueDates,
     });
+    commitVideoState(video, updated, { type: 'play', grade }, { ...detail, timestamp: now });
+  };
 
-    return reviewVideos.map(video => ({
+  // 写回条目的新状态并记录事件，同步合辑完成数（维护复习中忘记、手动退回都会减少完成数）
+  const commitVideoState = (
+    video: VideoFile,
+    updated: VideoFile,
+    event: Pick<ReviewEvent, 'type' | 'grade' | 'undoneEventId'>,
+    detail: Partial<ReviewEvent> = {},
+    withHistory: boolean = false
+  ) => {
+    commitVideos(prev => prev.map(v => v.id === video.id ? updated : v));
+    const state = getEventState(updated);
+    logEvents([{
       videoId: video.id,
-      reviewType: 'review',
-      reviewNumber: video.reviewCount + 1,
-      daysSinceFirstPlay: video.firstPlayDate ? getDaysSinceFirstPlay(video.firstPlayDate) : 0,
-      isRecommendedForVideo: [3,4,5].includes(video.reviewCount), // 15/30/90天建议视频复习
-    }));
+      ...event,
+      state: withHistory ? { ...state, stageHistory: updated.stageHistory } : state,
+    }], detail);
+
+    const completedDelta = Number(isGraduated(updated)) - Number(isGraduated(video));
+    if (completedDelta !== 0) {
+      setCollections(prev => prev.map(collection => 
+        collection.id === video.collectionId 
+          ? { ...collection, completedVideos: Math.max(0, collection.completedVideos + completedDelta) }
+          : collection
+      ));
+    }
+  };
+
+  // 新导入条目的初始记录
+  const createVideoEntry = (id: string, fileName: string, collectionId: string, episodeNumber: number, duration?: number): VideoFile => ({
+    id,
+    name: fileName.replace(/\.[^/.]+$/, ""),
+    duration,
+    dateAdded: new Date(),
+    reviewCount: 0,
+    stage: 'new' as const,
+    stageHistory: [],
+    collectionId,
+    episodeNumber,
+  });
+
+  // 获取今日新学列表
+  const getTodayNewVideos = (isExtraSession: boolean = false): PlaylistItem[] => {
+    return selectNewVideos(getSchedulerInput(), isExtraSession);
+  };
+
+  // 获取今日复习列表（所有应复习的视频，音频/视频方式均可）
+  const getTodayReviews = (): PlaylistItem[] => {
+    return selectReviews(getSchedulerInput());
   };
 
   const generateTodayPlaylist = (isExtraSession: boolean = false): PlaylistPreview => {
-    const newVideos = getTodayNewVideos(isExtraSession);
-    const reviews = getTodayReviews();
+    const { newVideos, reviews } = planDay(getSchedulerInput(), isExtraSession);
     return {
       newVideos,
       reviews,
@@ -364,15 +837,12 @@ export const usePlaylistManager = () => {
 
   const createTodayPlaylist = (playlistType: 'new' | 'review', isExtraSession: boolean = false): DailyPlaylist => {
     let items: PlaylistItem[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    // 检查当天是否已有未完成的新学习任务，避免重复生成
+    const now = new Date();
+    // 检查当前学习日是否已有未完成的新学习任务，避免重复生成
     if (playlistType === 'new') {
       const exist = playlists.find(p => {
         if (p.playlistType !== 'new' || p.isCompleted) return false;
-        const pDate = new Date(p.date);
-        pDate.setHours(0, 0, 0, 0);
-        return pDate.getTime() === today.getTime();
+        return learningDayDiff(p.date, now, settings.dayStartHour) === 0;
       });
       if (exist) return exist;
       items = getTodayNewVideos(isExtraSession);
@@ -381,31 +851,53 @@ export const usePlaylistManager = () => {
     }
     const playlist: DailyPlaylist = {
       id: generateUUID(),
-      date: new Date(),
+      date: now,
       items,
       isCompleted: false,
       lastPlayedIndex: 0,
       isExtraSession,
       playlistType,
     };
-    setPlaylists(prev => [playlist, ...prev]);
+    commitPlaylists(prev => [playlist, ...prev]);
+    return playlist;
+  };
+
+  // 考前突击：按筛选条件播放整个合辑，不影响复习计划
+  const getCramItems = (filter: CramFilter): PlaylistItem[] => {
+    return selectCramItems(videos, filter);
+  };
+
+  const createCramPlaylist = (filter: CramFilter): DailyPlaylist => {
+    const playlist: DailyPlaylist = {
+      id: generateUUID(),
+      date: new Date(),
+      items: getCramItems(filter),
+      isCompleted: false,
+      lastPlayedIndex: 0,
+      isExtraSession: false,
+      playlistType: 'cram',
+      cramFilter: filter,
+    };
+    commitPlaylists(prev => [playlist, ...prev]);
     return playlist;
   };
 
   const getLastPlaylist = (): DailyPlaylist | null => {
-    // 只返回当天的未完成新学习任务
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // 只返回当前学习日的未完成新学习任务
+    const now = new Date();
     return playlists.find(p => {
       if (p.isCompleted || p.playlistType !== 'new') return false;
-      const pDate = new Date(p.date);
-      pDate.setHours(0, 0, 0, 0);
-      return pDate.getTime() === today.getTime();
+      return learningDayDiff(p.date, now, settings.dayStartHour) === 0;
     }) || null;
   };
 
+  // 放弃未完成的播放列表（例如其中的条目已全部删除）
+  const discardPlaylist = (playlistId: string) => {
+    commitPlaylists(prev => prev.filter(p => p.id !== playlistId));
+  };
+
   const updatePlaylistProgress = (playlistId: string, lastPlayedIndex: number, isCompleted: boolean = false) => {
-    setPlaylists(prev => prev.map(playlist => {
+    commitPlaylists(prev => prev.map(playlist => {
       if (playlist.id === playlistId) {
         return {
           ...playlist,
@@ -417,28 +909,217 @@ export const usePlaylistManager = () => {
     }));
 
     if (isCompleted) {
-      // 标记所有播放的视频为已完成
-      const playlist = playlists.find(p => p.id === playlistId);
-      if (playlist) {
-        playlist.items.forEach(item => {
-          markVideoAsPlayed(item.videoId);
+      creditWatchedItems(playlistId);
+    }
+  };
+
+  // 记录播放列表中某一项的播放结果
+  const recordItemOutcome = (playlistId: string, itemIndex: number, outcome: Partial<PlaylistItemOutcome>) => {
+    const target = playlistsRef.current.find(p => p.id === playlistId);
+    const item = target?.items[itemIndex];
+    if (item && outcome.skipped && target?.playlistType !== 'cram') {
+      logEvents([{ videoId: item.videoId, type: 'skip' }], {
+        sessionId: playlistId,
+        mode: outcome.mode,
+        secondsWatched: outcome.watchedSeconds ?? 0,
+      });
+    }
+    commitPlaylists(prev => prev.map(playlist => {
+      if (playlist.id !== playlistId) return playlist;
+      return {
+        ...playlist,
+        items: playlist.items.map((item, index) => 
+          index === itemIndex ? { ...item, outcome: mergeItemOutcome(item.outcome, outcome) } : item
+        ),
+      };
+    }));
+  };
+
+  // 把观看比例达到阈值的项计入调度（按各自的评分），跳过和缺失的项不推进
+  // 列表完成或中途退出时调用，已计入的项不会重复计入；考前突击列表不计入
+  const creditWatchedItems = (playlistId: string) => {
+    const playlist = playlistsRef.current.find(p => p.id === playlistId);
+    if (!playlist || playlist.playlistType === 'cram') return;
+    const creditable = playlist.items.map((item, index) => 
+      isItemCreditable(item, index, playlist, settings.watchThreshold)
+    );
+    if (!creditable.some(Boolean)) return;
+
+    commitPlaylists(prev => prev.map(p => {
+      if (p.id !== playlistId) return p;
+      return {
+        ...p,
+        items: p.items.map((item, index) => 
+          creditable[index]
+            ? { ...item, outcome: mergeItemOutcome(item.outcome, { watchedPercent: item.outcome?.watchedPercent ?? 100, credited: true }) }
+            : item
+        ),
+      };
+    }));
+    playlist.items.forEach((item, index) => {
+      if (creditable[index]) {
+        markVideoAsPlayed(item.videoId, item.grade, {
+          sessionId: playlistId,
+          mode: item.outcome?.mode ?? (playlist.playlistType === 'review' ? 'audio' : 'video'),
+          secondsWatched: item.outcome?.watchedSeconds ?? 0,
         });
       }
+    });
+  };
+
+  // 记录播放列表中某一项的回忆评分，在列表完成时生效
+  const gradePlaylistItem = (playlistId: string, itemIndex: number, grade: ReviewGrade) => {
+    const item = playlistsRef.current.find(p => p.id === playlistId)?.items[itemIndex];
+    if (item) {
+      logEvents([{ videoId: item.videoId, type: 'grade', grade }], { sessionId: playlistId });
     }
+    commitPlaylists(prev => prev.map(playlist => {
+      if (playlist.id !== playlistId) return playlist;
+      return {
+        ...playlist,
+        items: playlist.items.map((item, index) => 
+          index === itemIndex ? { ...item, grade } : item
+        ),
+      };
+    }));
+  };
+
+  // 各评分对应的下一次间隔，用于评分按钮提示
+  const getGradeIntervals = (videoId: string): Record<ReviewGrade, number | null> | null => {
+    const video = videos.find(v => v.id === videoId);
+    if (!video) return null;
+    const collection = collections.find(c => c.id === video.collectionId);
+    return previewGradeIntervals(video, algorithm, getScheduleContext(settings, collection, new Date(), pausePeriods));
+  };
+
+  // 暂停学习：冻结全部合辑（collectionIds 为空）或指定合辑的计划
+  const pauseLearning = (collectionIds?: string[]) => {
+    const targetIds = collectionIds?.filter(id => !isCollectionPaused(pausePeriods, id));
+    if (targetIds && targetIds.length === 0) return;
+    if (!targetIds && pausePeriods.some(p => !p.endDate && !p.collectionIds)) return;
+
+    const pause: PausePeriod = {
+      id: generateUUID(),
+      startDate: new Date(),
+      collectionIds: targetIds,
+    };
+    setPausePeriods([...pausePeriods, pause]);
+  };
+
+  // 恢复学习：受影响合辑的复习日期和未完成的播放列表按暂停天数顺延
+  const resumeLearning = (pauseId: string) => {
+    const pause = pausePeriods.find(p => p.id === pauseId);
+    if (!pause || pause.endDate) return;
+
+    const now = new Date();
+    const shiftedDays = getPauseDays(pause, now, settings.dayStartHour);
+    const isAffected = (collectionId: string) => !pause.collectionIds || pause.collectionIds.includes(collectionId);
+
+    if (shiftedDays > 0) {
+      const shifted = videosRef.current.map(video => {
+        if (!video.nextReviewDate || !isAffected(video.collectionId)) return video;
+        // 只顺延调度日期，首次播放日是真实的学习时间；按首次播放锚定的间隔通过暂停记录计入顺延
+        return {
+          ...video,
+          nextReviewDate: addDays(video.nextReviewDate, shiftedDays),
+          backlogSince: video.backlogSince && addDays(video.backlogSince, shiftedDays),
+        };
+      });
+      logEvents(shifted
+        .filter((video, index) => video !== videosRef.current[index])
+        .map(video => ({ videoId: video.id, type: 'reschedule', state: getEventState(video) })),
+        { sessionId: pauseId }
+      );
+      commitVideos(() => shifted);
+      commitPlaylists(prev => prev.map(playlist => {
+        if (playlist.isCompleted) return playlist;
+        const affected = playlist.items.some(item => {
+          const video = videos.find(v => v.id === item.videoId);
+          return video && isAffected(video.collectionId);
+        });
+        return affected ? { ...playlist, date: addDays(playlist.date, shiftedDays) } : playlist;
+      }));
+    }
+
+    setPausePeriods(pausePeriods.map(p => p.id === pauseId ? { ...p, endDate: now, shiftedDays } : p));
+  };
+
+  // 搁置条目：不再安排新学和复习，保留当前进度
+  const suspendVideo = (videoId: string) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video || video.stage === 'suspended') return;
+    const updated = transitionStage(video, 'suspended', { at: new Date(), reason: 'suspend' });
+    commitVideoState(video, updated, { type: 'suspend' });
+  };
+
+  // 取消搁置：回到搁置前的阶段
+  const unsuspendVideo = (videoId: string) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video || video.stage !== 'suspended') return;
+    const updated = transitionStage(video, getResumeStage(video), { at: new Date(), reason: 'unsuspend' });
+    commitVideoState(video, updated, { type: 'unsuspend' });
+  };
+
+  // 手动重置为未开始
+  const resetVideo = (videoId: string) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video || video.stage === 'new' || video.stage === 'suspended') return;
+    commitVideoState(video, resetSchedule(video, new Date()), { type: 'reset' });
+  };
+
+  // 手动设置下一次复习日期
+  const setNextReviewDate = (videoId: string, dueDate: Date) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video || video.stage === 'new' || video.stage === 'suspended') return;
+    commitVideoState(video, rescheduleVideo(video, dueDate, settings.dayStartHour), { type: 'reschedule' });
+  };
+
+  // 手动前进或退回一级
+  const shiftVideoStage = (videoId: string, delta: 1 | -1) => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video || video.stage === 'suspended') return;
+    const collection = collections.find(c => c.id === video.collectionId);
+    const updated = shiftScheduleStep(video, delta, getScheduleContext(settings, collection, new Date(), pausePeriods));
+    if (updated === video) return;
+    commitVideoState(video, updated, { type: delta < 0 && updated.stage === 'new' ? 'reset' : 'reschedule' });
+  };
+
+  // 撤销最近一次复习：回到该次播放之前的状态，返回是否有可撤销的复习
+  const undoLastReview = async (videoId: string): Promise<boolean> => {
+    const video = videosRef.current.find(v => v.id === videoId);
+    if (!video || video.stage === 'suspended') return false;
+    const events = await reviewEventLog.getByVideo(videoId);
+    const target = findUndoablePlay(events);
+    if (!target) return false;
+    const current = videosRef.current.find(v => v.id === videoId) ?? video;
+    const restored = getStateBeforeEvent(current, events, target);
+    commitVideoState(current, restored, { type: 'undo', undoneEventId: target.id }, {}, true);
+    return true;
+  };
+
+  // 未来几天的积压消化计划
+  const getBacklogPlan = (): BacklogDay[] => {
+    return getBacklogForecast(getSchedulerInput(), settings.backlogSpreadDays);
+  };
+
+  // 未来几天的复习量预测，与今日计划使用同一套调度规则
+  const getWorkloadForecast = (days: number = 90): ForecastDay[] => {
+    return forecastWorkload(getSchedulerInput(), algorithm, days);
   };
 
   const getStats = (): LearningStats => {
     const activeCollectionIds = collections.filter(c => c.isActive).map(c => c.id);
     const activeVideos = videos.filter(v => activeCollectionIds.includes(v.collectionId));
     const totalVideos = activeVideos.length;
-    const completedVideos = activeVideos.filter(v => v.status === 'completed').length;
+    const completedVideos = activeVideos.filter(isGraduated).length;
     const newVideos = getTodayNewVideos();
     const reviews = getTodayReviews();
     const overallProgress = totalVideos > 0 
       ? Math.round((completedVideos / totalVideos) * 100) 
       : 0;
-    // 检查是否可以加餐（今日任务已完成）
-    const canAddExtra = newVideos.length === 0 && activeVideos.some(v => v.status === 'new');
+    // 检查是否可以加餐（今日任务已完成，暂停中的合辑不参与）
+    const canAddExtra = newVideos.length === 0 && getActiveVideos(getSchedulerInput()).some(v => v.stage === 'new');
+    const now = new Date();
     return {
       totalVideos,
       completedVideos,
@@ -447,20 +1128,20 @@ export const usePlaylistManager = () => {
       overallProgress,
       activeCollections: collections.filter(c => c.isActive).length,
       canAddExtra,
+      pausedCollections: collections.filter(c => isCollectionPaused(pausePeriods, c.id)).length,
+      totalPausedDays: pausePeriods.reduce((sum, pause) => sum + getPauseDays(pause, now, settings.dayStartHour), 0),
+      stageCounts: countStages(activeVideos),
     };
   };
 
   const deleteVideo = async (videoId: string) => {
     const video = videos.find(v => v.id === videoId);
     if (video) {
+      await retireVideos([video]);
       try {
-        // 清理文件URL
-        if (video.fileUrl) {
-          URL.revokeObjectURL(video.fileUrl);
-        }
-        
-        // 从 IndexedDB 删除文件
+        // 从 IndexedDB 删除文件和学习事件
         await fileStorage.deleteFile(videoId);
+        await reviewEventLog.deleteByVideo([videoId]);
         
         // 更新合辑统计
         setCollections(prevCollections => prevCollections.map(collection => 
@@ -468,7 +1149,7 @@ export const usePlaylistManager = () => {
             ? { 
                 ...collection, 
                 totalVideos: Math.max(0, collection.totalVideos - 1),
-                completedVideos: video.status === 'completed' 
+                completedVideos: isGraduated(video)
                   ? Math.max(0, collection.completedVideos - 1)
                   : collection.completedVideos
               }
@@ -479,41 +1160,90 @@ export const usePlaylistManager = () => {
       }
     }
     
-    setVideos(prev => prev.filter(v => v.id !== videoId));
+    commitVideos(prev => prev.filter(v => v.id !== videoId));
+  };
+
+  // 数据体检：按实际条目重新计算合辑计数
+  const repairCollectionCounts = () => {
+    setCollections(prev => recountCollections(prev, videosRef.current));
+  };
+
+  // 数据体检：去掉未完成播放列表中指向已删除条目的项
+  const dropDanglingPlaylistItems = () => {
+    const videoIds = new Set(videosRef.current.map(v => v.id));
+    commitPlaylists(prev => dropDanglingItems(prev, videoIds));
+  };
+
+  // 数据体检：删除没有对应条目的文件，删除前按最新的条目再核对一次
+  const purgeOrphanFiles = async (fileIds: string[]) => {
+    const videoIds = new Set(videosRef.current.map(v => v.id));
+    await Promise.all(fileIds.filter(id => !videoIds.has(id)).map(id => fileStorage.deleteFile(id)));
+  };
+
+  // 数据体检：找不到文件的条目标记为需要重新关联，文件已恢复的取消标记
+  const updateRelinkFlags = (missingVideoIds: string[]) => {
+    const missing = new Set(missingVideoIds);
+    commitVideos(prev => prev.map(video => {
+      const needsRelink = missing.has(video.id);
+      return Boolean(video.needsRelink) === needsRelink ? video : { ...video, needsRelink: needsRelink || undefined };
+    }));
   };
 
   const getVideoById = (id: string): VideoFile | undefined => {
     return videos.find(v => v.id === id);
   };
 
-  // 清理对象URLs
-  useEffect(() => {
-    return () => {
-      videos.forEach(video => {
-        if (video.fileUrl) {
-          URL.revokeObjectURL(video.fileUrl);
-        }
-      });
-    };
-  }, []);
-
   return {
     videos,
     playlists,
     collections,
+    pausePeriods,
     isLoading,
+    settings,
+    updateSettings,
     addVideos,
+    linkFolder,
+    lockedFolders,
+    requestFolderAccess,
+    relinkVideo,
+    markNeedsRelinkIfMissing,
+    findImportMatches,
+    reconnectImport,
+    restoreBackup,
+    applyProgressUpdates,
     createCollection,
     updateCollection,
+    updateCollectionSchedule,
     deleteCollection,
     toggleCollection,
     generateTodayPlaylist,
     createTodayPlaylist,
+    getCramItems,
+    createCramPlaylist,
     getLastPlaylist,
+    discardPlaylist,
     updatePlaylistProgress,
+    recordItemOutcome,
+    creditWatchedItems,
+    gradePlaylistItem,
+    getGradeIntervals,
+    getBacklogPlan,
+    getWorkloadForecast,
+    pauseLearning,
+    resumeLearning,
+    suspendVideo,
+    unsuspendVideo,
+    resetVideo,
+    setNextReviewDate,
+    shiftVideoStage,
+    undoLastReview,
     getStats,
     deleteVideo,
     getVideoById,
+    repairCollectionCounts,
+    dropDanglingPlaylistItems,
+    purgeOrphanFiles,
+    updateRelinkFlags,
     getTodayNewVideos,
     getTodayReviews,
   };
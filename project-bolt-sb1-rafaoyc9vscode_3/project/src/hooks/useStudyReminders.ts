@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { AppSettings, Collection, DailyPlaylist, PausePeriod, VideoFile } from '../types';
+import { forecastWorkload, getSchedulingAlgorithm } from '../utils/scheduler';
+import {
+  OPEN_REVIEW_PARAM,
+  OPEN_REVIEW_VALUE,
+  buildReminderSchedule,
+  configureReminderSync,
+  getNextReminderDelay,
+  isReminderSupported,
+  requestReminderCheck,
+  saveReminderSchedule,
+  updateAppBadge,
+} from '../utils/reminders';
+
+interface UseStudyRemindersOptions {
+  settings: AppSettings;
+  isLoading: boolean;
+  videos: VideoFile[];
+  collections: Collection[];
+  playlists: DailyPlaylist[];
+  pausePeriods: PausePeriod[];
+  onOpenReview: () => void; // 点击通知后打开复习预览
+}
+
+// 提醒计划覆盖的学习日数：应用一周不打开也能按计划提醒
+const REMINDER_DAYS = 7;
+
+export const useStudyReminders = ({
+  settings,
+  isLoading,
+  videos,
+  collections,
+  playlists,
+  pausePeriods,
+  onOpenReview,
+}: UseStudyRemindersOptions) => {
+  // 调度数据或设置变化时重新生成计划，内容不变时不重复写入
+  const schedule = useMemo(() => {
+    if (isLoading) return null;
+    const forecast = forecastWorkload(
+      { videos, collections, history: playlists, pauses: pausePeriods, now: new Date(), settings },
+      getSchedulingAlgorithm(settings.schedulerAlgorithm),
+      REMINDER_DAYS
+    );
+    return buildReminderSchedule(settings, forecast);
+  }, [isLoading, videos, collections, playlists, pausePeriods, settings]);
+  const scheduleKey = schedule ? JSON.stringify(schedule) : '';
+  const scheduleRef = useRef(schedule);
+  scheduleRef.current = schedule;
+  const onOpenReviewRef = useRef(onOpenReview);
+  onOpenReviewRef.current = onOpenReview;
+
+  // 调度数据或设置变化：更新提醒计划和应用角标
+  useEffect(() => {
+    const current = scheduleRef.current;
+    if (!current || !isReminderSupported()) return;
+    const today = current.days[0];
+    saveReminderSchedule(current).catch(error => {
+      console.error('保存提醒计划失败', error);
+    });
+    updateAppBadge(current.enabled && today ? today.reviewCount + today.newCount : 0);
+  }, [scheduleKey]);
+
+  // 开关提醒时注册或取消后台同步
+  useEffect(() => {
+    if (!isReminderSupported()) return;
+    configureReminderSync(settings.reminderEnabled);
+  }, [settings.reminderEnabled]);
+
+  // 应用打开期间到点直接检查一次（不支持后台同步的浏览器只能依靠这里）
+  useEffect(() => {
+    if (!settings.reminderEnabled || !isReminderSupported()) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const scheduleNext = () => {
+      timer = setTimeout(() => {
+        requestReminderCheck();
+        scheduleNext();
+      }, getNextReminderDelay(settings.reminderTime, new Date()));
+    };
+    scheduleNext();
+    return () => clearTimeout(timer);
+  }, [settings.reminderEnabled, settings.reminderTime]);
+
+  // 从通知打开：地址参数（新窗口）或 Service Worker 消息（已打开的窗口）
+  useEffect(() => {
+    if (isLoading) return;
+    const params = new URLSearchParams(window.location.search);
+    if (params.get(OPEN_REVIEW_PARAM) === OPEN_REVIEW_VALUE) {
+      params.delete(OPEN_REVIEW_PARAM);
+      const query = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+      onOpenReviewRef.current();
+    }
+
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open-review') {
+        onOpenReviewRef.current();
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [isLoading]);
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { VideoFile, LearningStats } from '../types';
+import { countStages, isGraduated } from '../utils/lifecycle';
 
 export function useVideoManager() {
   const [videos, setVideos] = useState<VideoFile[]>([]);
@@ -26,7 +27,8 @@ export function useVideoManager() {
       file,
       fileUrl: URL.createObjectURL(file),
       dateAdded: new Date(),
-      status: 'new',
+      stage: 'new',
+      stageHistory: [],
       reviewCount: 0,
       collectionId,
       fileSize: file.size,
@@ -50,7 +52,7 @@ export function useVideoManager() {
 
   const getStats = (): LearningStats => {
     const totalVideos = videos.length;
-    const completedVideos = videos.filter(v => v.status === 'completed').length;
+    const completedVideos = videos.filter(isGraduated).length;
     
     return {
       totalVideos,
@@ -62,6 +64,9 @@ export function useVideoManager() {
       canAddExtra: false,
       todayAudioReviewCount: 0,
       todayVideoReviewCount: 0,
+      pausedCollections: 0,
+      totalPausedDays: 0,
+      stageCounts: countStages(videos),
     };
   };
 
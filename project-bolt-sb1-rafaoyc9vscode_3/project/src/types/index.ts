@@ -1,13 +1,38 @@
+// 回忆评分：忘记了 / 有点难 / 记得 / 很轻松
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// 条目生命周期阶段：未开始 / 学习中（第k步）/ 重新学习 / 已搁置 / 已毕业 / 维护复习
+export type LifecycleStage = 'new' | 'learning' | 'relearning' | 'suspended' | 'graduated' | 'maintenance';
+
+// 阶段转换的原因
+export type StageTransitionReason = 'play' | 'suspend' | 'unsuspend' | 'reschedule' | 'reset' | 'migrate';
+
+// 一次阶段转换记录
+export interface StageTransition {
+  from: LifecycleStage;
+  to: LifecycleStage;
+  step: number; // 转换后的学习步数（即 reviewCount）
+  at: Date;
+  reason: StageTransitionReason;
+}
+
 export interface VideoFile {
   id: string;
   name: string;
-  file: File;
-  fileUrl: string;
+  file?: File; // 本次导入的原始文件，只在内存中；媒体内容保存在 fileStorage，播放时按需读取
+  fileUrl?: string; // 旧版本启动时创建的地址，已改为播放时通过 fileStorage.acquireUrl 获取
   dateAdded: Date;
   firstPlayDate?: Date;
+  lastReviewDate?: Date; // 最近一次播放时间
   reviewCount: number;
   nextReviewDate?: Date;
-  status: 'new' | 'learning' | 'completed';
+  intervalDays?: number; // 当前复习间隔(天)
+  easeFactor?: number; // SM-2 难度系数
+  lastGrade?: ReviewGrade; // 最近一次回忆评分
+  lapses?: number; // 回忆失败次数
+  backlogSince?: Date; // 积压平摊前的原到期日
+  stage: LifecycleStage; // 生命周期阶段，只能通过 transitionStage 修改
+  stageHistory: StageTransition[]; // 阶段转换记录
   collectionId: string; // 所属合辑ID
   episodeNumber?: number; // 集数
   thumbnail?: string; // 缩略图URL (可选)
@@ -15,6 +40,17 @@ export interface VideoFile {
   fileSize?: number; // 文件大小(字节)
   mimeType?: string; // MIME类型
   mediaType?: 'video' | 'audio'; // 新增：媒体类型
+  needsRelink?: boolean; // 存储中找不到媒体文件，需要重新关联
+  fingerprint?: string; // 内容指纹（大小加抽样片段哈希），用于识别重复导入
+}
+
+// 合辑调度设置
+export interface CollectionSchedule {
+  reviewIntervals: number[]; // 复习间隔阶梯(天)
+  maxNewPerDay: number; // 每日新学上限
+  maxReviewsPerDay: number; // 每日复习上限
+  extraSessionSize: number; // 加餐新学数量
+  priority: number; // 按优先级分配新学时的权重(1-5)
 }
 
 export interface Collection {
@@ -26,6 +62,8 @@ export interface Collection {
   totalVideos: number;
   completedVideos: number;
   color: string; // 合辑颜色标识
+  schedule?: CollectionSchedule; // 未设置时使用默认节奏
+  storageMode?: 'copy' | 'linked'; // linked：关联本地文件夹，只保存文件句柄；未设置时为复制
 }
 
 export interface PlaylistItem {
@@ -34,6 +72,41 @@ export interface PlaylistItem {
   reviewNumber: number;
   daysSinceFirstPlay?: number;
   isRecommendedForVideo?: boolean;
+  grade?: ReviewGrade; // 播放结束后的回忆评分
+  outcome?: PlaylistItemOutcome; // 播放结果，决定该项是否计入调度
+}
+
+// 播放列表中一项的播放结果
+export interface PlaylistItemOutcome {
+  watchedPercent: number; // 实际观看比例(0-100)，拖动进度条跳过的部分不计
+  skipped?: boolean; // 未播放完就切到下一项
+  missing?: boolean; // 文件缺失，自动跳过
+  credited?: boolean; // 已计入调度，避免重复推进
+  watchedSeconds?: number; // 实际观看秒数
+  mode?: 'audio' | 'video'; // 实际播放方式
+}
+
+// 学习事件类型：播放计入 / 评分 / 跳过 / 改期 / 重置 / 搁置 / 取消搁置 / 撤销复习 / 旧数据迁移快照
+export type ReviewEventType = 'play' | 'grade' | 'skip' | 'reschedule' | 'reset' | 'suspend' | 'unsuspend' | 'undo' | 'snapshot';
+
+// 事件发生后条目的调度状态，回放时依次套用
+export type ReviewEventState = Pick<VideoFile, 'reviewCount' | 'stage'> & Partial<Pick<VideoFile,
+  'firstPlayDate' | 'lastReviewDate' | 'nextReviewDate' | 'intervalDays' | 'easeFactor' | 'lastGrade' | 'lapses'
+  | 'backlogSince' | 'stageHistory'
+>>;
+
+// 学习事件：只追加不修改，条目的调度状态由事件回放得出
+export interface ReviewEvent {
+  id: string;
+  videoId: string;
+  type: ReviewEventType;
+  timestamp: Date;
+  sessionId: string; // 播放列表ID；列表之外的操作为本次打开应用的会话ID
+  mode?: 'audio' | 'video'; // 播放方式
+  secondsWatched: number; // 实际观看秒数，非播放事件为0
+  grade?: ReviewGrade;
+  state?: ReviewEventState; // 改变调度状态的事件才有
+  undoneEventId?: string; // 撤销事件指向被撤销的播放事件
 }
 
 export interface DailyPlaylist {
@@ -43,7 +116,17 @@ export interface DailyPlaylist {
   isCompleted: boolean;
   lastPlayedIndex: number;
   isExtraSession: boolean;
-  playlistType: 'new' | 'review';
+  playlistType: 'new' | 'review' | 'cram'; // cram：考前突击，不影响复习计划
+  cramFilter?: CramFilter; // 突击列表的筛选条件
+}
+
+// 暂停学习的时段
+export interface PausePeriod {
+  id: string;
+  startDate: Date;
+  endDate?: Date; // 恢复时间，进行中为空
+  collectionIds?: string[]; // 暂停的合辑，为空表示全部合辑
+  shiftedDays?: number; // 恢复时计划顺延的天数
 }
 
 export interface LearningStats {
@@ -57,6 +140,33 @@ export interface LearningStats {
   // 新增：区分音频/视频复习计数（可选）
   todayAudioReviewCount?: number;
   todayVideoReviewCount?: number;
+  pausedCollections: number; // 正在暂停的合辑数
+  totalPausedDays: number; // 累计暂停天数
+  stageCounts: Record<LifecycleStage, number>; // 各生命周期阶段的条目数
+}
+
+// 学习日历中的一天
+export interface StudyDay {
+  date: Date; // 学习日开始时刻
+  dueItems: number; // 当天到期的复习条目数，为0时不计入连续天数
+  reviewedItems: number; // 其中当天已复习的条目数
+  plannedNewSessions: number; // 当天生成的常规新学列表数（不含加餐和考前突击）
+  completedNewSessions: number;
+  studiedItems: number; // 当天计入调度的播放次数
+  isDone: boolean; // 当天到期的条目全部复习完，新学列表全部完成
+  isPaused: boolean; // 全部合辑暂停中，不计入连续天数
+}
+
+export interface StudyStreaks {
+  current: number; // 截至今天的连续完成天数（今天未完成时截至昨天）
+  longest: number;
+}
+
+// 考前突击的筛选条件
+export interface CramFilter {
+  collectionId: string;
+  stages: LifecycleStage[]; // 为空表示不限阶段
+  difficultOnly: boolean; // 只看难点
 }
 
 export interface PlaylistPreview {
@@ -65,4 +175,61 @@ export interface PlaylistPreview {
   totalCount: number;
   isExtraSession: boolean;
   lastPlayedIndex?: number;
-}
\ No newline at end of file
+}
+export type SchedulerAlgorithmId = 'fixed' | 'sm2';
+
+// 新学条目的选取策略：各合辑按集数依次 / 各合辑轮流 / 按合辑优先级加权轮流
+export type NewItemSelection = 'episode' | 'roundRobin' | 'weighted';
+
+// 复习间隔的起算点：首次播放日、本次复习日、原计划到期日
+export type IntervalAnchor = 'firstPlay' | 'lastReview' | 'scheduled';
+
+// 应用设置（按安装保存）
+export interface AppSettings {
+  schedulerAlgorithm: SchedulerAlgorithmId;
+  backlogMode: boolean; // 把逾期复习平摊到接下来几天
+  backlogSpreadDays: number; // 积压平摊天数
+  fuzzDueDates: boolean; // 到期日随机扰动
+  dayStartHour: number; // 学习日开始的小时（0-23），之前的时间算作前一天
+  intervalAnchor: IntervalAnchor; // 复习间隔的起算点
+  maintenanceReviews: boolean; // 毕业后按最长间隔继续维护复习
+  newItemSelection: NewItemSelection; // 新学条目的选取策略
+  maxNewPerDayTotal: number; // 所有合辑合计的每日新学上限，0 表示不限
+  watchThreshold: number; // 观看比例达到该值(%)才计入调度
+  dailyMinutesBudget: number; // 每日学习时长预算(分钟)，先扣除当天复习时长再安排新学，0 表示按集数
+  reminderEnabled: boolean; // 每日学习提醒
+  reminderTime: string; // 提醒时间 HH:mm
+}
+
+// 写入 IndexedDB 供 Service Worker 读取的提醒计划
+export interface ReminderSchedule {
+  enabled: boolean;
+  hour: number;
+  minute: number;
+  days: { dayStart: number; reviewCount: number; newCount: number }[]; // 未来几个学习日的待学数量
+  lastNotifiedDay?: number; // 已提醒过的学习日（开始时刻），避免重复提醒
+}
+
+// 积压消化计划中的一天
+export interface BacklogDay {
+  date: Date;
+  backlog: number; // 平摊到当天的积压复习
+  regular: number; // 当天正常到期的复习
+}
+
+// 复习量预测中的一个条目
+export interface ForecastItem {
+  videoId: string;
+  collectionId: string;
+  reviewType: 'new' | 'review';
+  reviewNumber: number;
+  mode: 'audio' | 'video'; // 新学按视频计，复习按建议方式
+  seconds: number; // 预计时长，没有时长的条目按估计值计算
+  isEstimated: boolean; // 时长是否为估计值
+}
+
+// 复习量预测中的一天
+export interface ForecastDay {
+  date: Date;
+  items: ForecastItem[];
+}
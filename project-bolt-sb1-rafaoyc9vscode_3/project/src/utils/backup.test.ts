@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import type { Collection, DailyPlaylist, ReviewEvent, VideoFile } from '../types';
+import { buildBackupManifest, getBackupMedia, readBackup, remapBackupIds } from './backup';
+import { getEventState, replayEvents } from './eventLog';
+
+const collection: Collection = {
+  id: 'c1',
+  name: '合辑',
+  dateCreated: new Date(2026, 0, 1),
+  isActive: true,
+  totalVideos: 2,
+  completedVideos: 0,
+  color: '#000000',
+};
+
+const makeVideo = (id: string): VideoFile => ({
+  id,
+  name: `${id}.mp4`,
+  dateAdded: new Date(2026, 0, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+});
+
+const event = (id: string, videoId: string, type: ReviewEvent['type'], day: number, state: Partial<VideoFile>): ReviewEvent => ({
+  id,
+  videoId,
+  type,
+  timestamp: new Date(2026, 0, day, 12),
+  sessionId: 's1',
+  secondsWatched: 0,
+  state: getEventState({ ...makeVideo(videoId), ...state }),
+});
+
+const learned = {
+  reviewCount: 4,
+  stage: 'learning' as const,
+  firstPlayDate: new Date(2026, 0, 2),
+  lastReviewDate: new Date(2026, 0, 9),
+  nextReviewDate: new Date(2026, 0, 10),
+  intervalDays: 7,
+  backlogSince: new Date(2026, 0, 8),
+};
+
+// 按导出时的格式写成归档，media 为各条目的媒体内容
+const encodeArchive = (manifest: unknown, media: string[] = []) => {
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(12);
+  header.set(new TextEncoder().encode('VLBACKUP'), 0);
+  new DataView(header.buffer).setUint32(8, manifestBytes.length, true);
+  return new Blob([header, manifestBytes, ...media]);
+};
+
+const toArchive = (videos: VideoFile[], events: ReviewEvent[], media: Record<string, string> = {}) => {
+  const files = Object.entries(media).map(([id, content]) => ({ id, name: `${id}.mp4`, size: content.length, type: 'video/mp4' }));
+  const manifest = buildBackupManifest({ videos, collections: [collection], playlists: [], pauses: [], events }, files);
+  return encodeArchive(manifest, Object.values(media));
+};
+
+describe('readBackup', () => {
+  it('restores events that clear schedule fields so replay matches the original state', async () => {
+    const videos = [makeVideo('v1'), makeVideo('v2')];
+    const events = [
+      event('e1', 'v1', 'play', 9, learned),
+      event('e2', 'v1', 'reset', 10, { reviewCount: 0, stage: 'new' }),
+      event('e3', 'v2', 'play', 9, learned),
+      event('e4', 'v2', 'play', 10, {
+        reviewCount: 5,
+        stage: 'graduated',
+        firstPlayDate: learned.firstPlayDate,
+        lastReviewDate: new Date(2026, 0, 10),
+      }),
+    ];
+
+    const restored = await readBackup(toArchive(videos, events));
+    expect(restored.problems).toEqual([]);
+
+    const [reset, graduated] = videos.map(video => replayEvents(video, restored.events));
+    expect(reset).toMatchObject({ reviewCount: 0, stage: 'new' });
+    expect(reset.firstPlayDate).toBeUndefined();
+    expect(reset.nextReviewDate).toBeUndefined();
+    expect(reset.intervalDays).toBeUndefined();
+    expect(reset.backlogSince).toBeUndefined();
+
+    expect(graduated).toMatchObject({ reviewCount: 5, stage: 'graduated', firstPlayDate: learned.firstPlayDate });
+    expect(graduated.nextReviewDate).toBeUndefined();
+    expect(graduated.backlogSince).toBeUndefined();
+    expect(videos.map(video => replayEvents(video, restored.events))).toEqual(videos.map(video => replayEvents(video, events)));
+  });
+});
+
+describe('readBackup checks', () => {
+  it('rejects files that are not backups of a supported version', async () => {
+    await expect(readBackup(new Blob(['not a backup file']))).rejects.toThrow('不是本应用导出的备份文件');
+    const manifest = { ...buildBackupManifest({ videos: [], collections: [], playlists: [], pauses: [], events: [] }, []), version: 99 };
+    await expect(readBackup(encodeArchive(manifest))).rejects.toThrow('更新版本');
+  });
+
+  it('skips items whose collection is missing and events of skipped items', async () => {
+    const orphan = { ...makeVideo('v2'), collectionId: 'gone' };
+    const restored = await readBackup(toArchive([makeVideo('v1'), orphan], [event('e1', 'v2', 'play', 9, learned)]));
+    expect(restored.videos.map(video => video.id)).toEqual(['v1']);
+    expect(restored.events).toEqual([]);
+    expect(restored.problems).toEqual(['跳过视频“v2.mp4”：所属合辑不在备份中']);
+  });
+
+  it('reads media back from the archive', async () => {
+    const restored = await readBackup(toArchive([makeVideo('v1'), makeVideo('v2')], [], { v1: 'first', v2: 'second' }));
+    const file = getBackupMedia(restored, restored.media[1]);
+    expect(file.name).toBe('v2.mp4');
+    expect(await file.text()).toBe('second');
+  });
+
+  it('reports truncated media', async () => {
+    const archive = toArchive([makeVideo('v1')], [], { v1: 'content' });
+    const restored = await readBackup(archive.slice(0, archive.size - 2));
+    expect(restored.media).toEqual([]);
+    expect(restored.problems).toEqual(['媒体文件“v1.mp4”不完整，恢复后需要重新导入']);
+  });
+});
+
+describe('remapBackupIds', () => {
+  it('gives every record a new ID and rewrites the references', async () => {
+    const playlist: DailyPlaylist = {
+      id: 'p1',
+      date: new Date(2026, 0, 9),
+      items: [{ videoId: 'v1', reviewType: 'new', reviewNumber: 1 }],
+      isCompleted: true,
+      lastPlayedIndex: 1,
+      isExtraSession: false,
+      playlistType: 'cram',
+      cramFilter: { collectionId: 'c1', stages: [], difficultOnly: false },
+    };
+    const restored = await readBackup(toArchive([makeVideo('v1')], [
+      { ...event('e1', 'v1', 'play', 9, learned), sessionId: 'p1' },
+      { ...event('e2', 'v1', 'undo', 10, learned), undoneEventId: 'e1' },
+    ], { v1: 'content' }));
+    let next = 0;
+    const remapped = remapBackupIds({ ...restored, playlists: [playlist] }, () => `new-${++next}`);
+
+    const [newCollection] = remapped.collections;
+    const [newVideo] = remapped.videos;
+    const [newPlaylist] = remapped.playlists;
+    expect(newCollection.id).not.toBe('c1');
+    expect(newVideo).toMatchObject({ collectionId: newCollection.id });
+    expect(newPlaylist.items[0].videoId).toBe(newVideo.id);
+    expect(newPlaylist.cramFilter?.collectionId).toBe(newCollection.id);
+    expect(remapped.events.map(e => e.videoId)).toEqual([newVideo.id, newVideo.id]);
+    expect(remapped.events[0].sessionId).toBe(newPlaylist.id);
+    expect(remapped.events[1].undoneEventId).toBe(remapped.events[0].id);
+    expect(remapped.media[0].videoId).toBe(newVideo.id);
+  });
+});
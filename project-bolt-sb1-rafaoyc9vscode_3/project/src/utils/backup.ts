@@ -0,0 +1,339 @@
+// 完整备份相关工具函数：学习数据清单（JSON）加媒体文件，写成一个归档文件
+// 归档格式：8字节标识 + 4字节清单长度（小端）+ 清单 JSON + 依次排列的媒体内容
+import type { AppSettings, Collection, DailyPlaylist, PausePeriod, ReviewEvent, ReviewEventState } from '../types';
+import { MetadataStoreName, StoredVideo, reviveRecordDates, validateRecord } from './metadataStore';
+import { completeEventState, reviewEventLog } from './eventLog';
+import type { StoredFileInfo } from './storageUsage';
+import { fileStorage } from '../hooks/useLocalStorage';
+
+export const BACKUP_FORMAT = 'video-learning-backup';
+// 清单格式版本，结构改变时递增；读取时拒绝比当前更新的版本
+export const BACKUP_VERSION = 1;
+export const BACKUP_EXTENSION = '.vlbackup';
+
+const MAGIC = 'VLBACKUP';
+const HEADER_BYTES = MAGIC.length + 4;
+
+// 清单中的一个媒体文件，offset 从媒体区开头算起
+export interface BackupMediaEntry {
+  videoId: string;
+  name: string;
+  type: string;
+  size: number;
+  offset: number;
+}
+
+// 备份的学习数据
+export interface BackupContents {
+  collections: Collection[];
+  videos: StoredVideo[];
+  playlists: DailyPlaylist[];
+  pauses: PausePeriod[];
+  events: ReviewEvent[];
+  settings?: Partial<AppSettings>;
+}
+
+export interface BackupManifest extends BackupContents {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: Date;
+  media: BackupMediaEntry[];
+}
+
+// 读取并校验后的备份，媒体内容在恢复时再从归档中切片读取
+export interface ParsedBackup extends BackupContents {
+  createdAt: Date;
+  media: BackupMediaEntry[];
+  archive: Blob;
+  mediaStart: number;
+  problems: string[]; // 跳过的记录等不影响恢复的问题
+}
+
+export interface BackupProgress {
+  doneBytes: number;
+  totalBytes: number;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null;
+
+// 浏览器的实验性接口，类型定义中尚未包含
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+};
+
+// ===== 导出 =====
+
+/**
+ * 生成备份清单：只包含复制到浏览器中的媒体，关联文件夹中的文件无法备份
+ */
+export function buildBackupManifest(contents: BackupContents, files: StoredFileInfo[]): BackupManifest {
+  const videoIds = new Set(contents.videos.map(video => video.id));
+  let offset = 0;
+  const media = files
+    .filter(file => !file.linked && videoIds.has(file.id))
+    .map(file => {
+      const entry = { videoId: file.id, name: file.name, type: file.type ?? '', size: file.size, offset };
+      offset += file.size;
+      return entry;
+    });
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: new Date(), ...contents, media };
+}
+
+const encodeHeader = (manifestBytes: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length, true);
+  return header;
+};
+
+const getBackupFileName = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `学习备份-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}${BACKUP_EXTENSION}`;
+};
+
+/**
+ * 导出完整备份；支持时直接逐个写入磁盘文件，媒体不经过内存，否则组合成 Blob 下载
+ * 用户取消保存时返回 false
+ */
+export async function exportBackup(
+  contents: Omit<BackupContents, 'events'>,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<boolean> {
+  const [events, files] = await Promise.all([reviewEventLog.getAll(), fileStorage.listFiles()]);
+  const manifest = buildBackupManifest({ ...contents, events }, files);
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = encodeHeader(manifestBytes);
+  const totalBytes = manifest.media.reduce((sum, entry) => sum + entry.size, 0);
+  const fileName = getBackupFileName(manifest.createdAt);
+
+  // 按清单顺序读取媒体，大小必须与清单一致，否则后面的偏移全部错位
+  const readMedia = async (entry: BackupMediaEntry) => {
+    const blob = await fileStorage.getFile(entry.videoId);
+    if (!blob || blob.size !== entry.size) {
+      throw new Error(`读取媒体文件“${entry.name}”失败`);
+    }
+    return blob;
+  };
+
+  const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+  if (picker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await picker({
+        suggestedName: fileName,
+        types: [{ description: '学习备份', accept: { 'application/octet-stream': [BACKUP_EXTENSION] } }],
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return false;
+      throw error;
+    }
+    const writable = await handle.createWritable();
+    try {
+      await writable.write(header);
+      await writable.write(manifestBytes);
+      let doneBytes = 0;
+      for (const entry of manifest.media) {
+        await writable.write(await readMedia(entry));
+        doneBytes += entry.size;
+        onProgress?.({ doneBytes, totalBytes });
+      }
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+    return true;
+  }
+
+  // 组合 Blob 只引用各媒体文件，浏览器不会把内容整个复制到内存
+  const parts: BlobPart[] = [header, manifestBytes];
+  let doneBytes = 0;
+  for (const entry of manifest.media) {
+    parts.push(await readMedia(entry));
+    doneBytes += entry.size;
+    onProgress?.({ doneBytes, totalBytes });
+  }
+  const archive = new Blob(parts, { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(archive);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+  return true;
+}
+
+// ===== 读取 =====
+
+// 逐条校验并还原日期，无效的记录跳过并记下原因
+const readRecords = <T>(storeName: MetadataStoreName, value: unknown, label: string, problems: string[]): T[] => {
+  if (!Array.isArray(value)) {
+    problems.push(`缺少${label}数据`);
+    return [];
+  }
+  return value.flatMap(raw => {
+    const record = isRecord(raw) ? reviveRecordDates(storeName, raw) : raw;
+    const reason = validateRecord(storeName, record);
+    if (reason) {
+      problems.push(`跳过无效的${label}：${reason}`);
+      return [];
+    }
+    return [record as T];
+  });
+};
+
+const readEvents = (value: unknown, problems: string[]): ReviewEvent[] => {
+  if (!Array.isArray(value)) return [];
+  let skipped = 0;
+  const events = value.flatMap(raw => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.videoId !== 'string' || typeof raw.timestamp !== 'string') {
+      skipped++;
+      return [];
+    }
+    const timestamp = new Date(raw.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      skipped++;
+      return [];
+    }
+    if (!isRecord(raw.state)) return [{ ...raw, timestamp, state: undefined } as ReviewEvent];
+    const revived = reviveRecordDates('videos', raw.state) as unknown as ReviewEventState;
+    if (typeof revived.reviewCount !== 'number' || typeof revived.stage !== 'string') {
+      skipped++;
+      return [];
+    }
+    // 重置、毕业等事件靠值为空的字段清空调度状态，JSON 中省略了这些字段，要逐项补齐
+    return [{ ...raw, timestamp, state: completeEventState(revived) } as ReviewEvent];
+  });
+  if (skipped > 0) problems.push(`跳过 ${skipped} 条无效的学习记录`);
+  return events;
+};
+
+/**
+ * 读取并校验备份文件：格式或版本不对时抛出错误，个别无效记录跳过并列在 problems 中
+ */
+export async function readBackup(archive: Blob): Promise<ParsedBackup> {
+  if (archive.size < HEADER_BYTES) throw new Error('文件太小，不是有效的备份');
+  const header = new Uint8Array(await archive.slice(0, HEADER_BYTES).arrayBuffer());
+  if (new TextDecoder().decode(header.subarray(0, MAGIC.length)) !== MAGIC) {
+    throw new Error('不是本应用导出的备份文件');
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+  const mediaStart = HEADER_BYTES + manifestLength;
+  if (mediaStart > archive.size) throw new Error('备份文件不完整');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await archive.slice(HEADER_BYTES, mediaStart).text());
+  } catch {
+    throw new Error('备份清单已损坏');
+  }
+  if (!isRecord(manifest) || manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('备份清单格式不正确');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('这个备份来自更新版本的应用，请先更新后再导入');
+  }
+
+  const problems: string[] = [];
+  const collections = readRecords<Collection>('collections', manifest.collections, '合辑', problems);
+  const collectionIds = new Set(collections.map(collection => collection.id));
+  const videos = readRecords<StoredVideo>('videos', manifest.videos, '视频', problems).filter(video => {
+    if (collectionIds.has(video.collectionId)) return true;
+    problems.push(`跳过视频“${video.name}”：所属合辑不在备份中`);
+    return false;
+  });
+  const videoIds = new Set(videos.map(video => video.id));
+  const playlists = readRecords<DailyPlaylist>('playlists', manifest.playlists, '播放列表', problems);
+  const pauses = readRecords<PausePeriod>('pauses', manifest.pauses, '暂停记录', problems);
+  const events = readEvents(manifest.events, problems).filter(event => videoIds.has(event.videoId));
+
+  const mediaBytes = archive.size - mediaStart;
+  const media = (Array.isArray(manifest.media) ? manifest.media : []).flatMap((raw: unknown): BackupMediaEntry[] => {
+    if (
+      !isRecord(raw) || typeof raw.videoId !== 'string' || typeof raw.name !== 'string'
+      || typeof raw.size !== 'number' || typeof raw.offset !== 'number'
+    ) {
+      problems.push('跳过一个无效的媒体文件记录');
+      return [];
+    }
+    if (!videoIds.has(raw.videoId)) return [];
+    if (raw.offset < 0 || raw.offset + raw.size > mediaBytes) {
+      problems.push(`媒体文件“${raw.name}”不完整，恢复后需要重新导入`);
+      return [];
+    }
+    return [{ videoId: raw.videoId, name: raw.name, type: typeof raw.type === 'string' ? raw.type : '', size: raw.size, offset: raw.offset }];
+  });
+
+  const createdAt = typeof manifest.createdAt === 'string' ? new Date(manifest.createdAt) : new Date(NaN);
+  return {
+    createdAt,
+    collections,
+    videos,
+    playlists,
+    pauses,
+    events,
+    settings: isRecord(manifest.settings) ? (manifest.settings as Partial<AppSettings>) : undefined,
+    media,
+    archive,
+    mediaStart,
+    problems,
+  };
+}
+
+/**
+ * 从归档中取出一个媒体文件，只是切片引用，不读取内容
+ */
+export function getBackupMedia(backup: ParsedBackup, entry: BackupMediaEntry): File {
+  const start = backup.mediaStart + entry.offset;
+  return new File([backup.archive.slice(start, start + entry.size)], entry.name, { type: entry.type });
+}
+
+/**
+ * 合并导入时为全部记录生成新ID，并同步改写相互引用，避免与现有数据冲突
+ */
+export function remapBackupIds(backup: ParsedBackup, generateId: () => string): ParsedBackup {
+  const remap = (ids: string[]) => new Map(ids.map(id => [id, generateId()]));
+  const collectionIds = remap(backup.collections.map(collection => collection.id));
+  const videoIds = remap(backup.videos.map(video => video.id));
+  const playlistIds = remap(backup.playlists.map(playlist => playlist.id));
+  const eventIds = remap(backup.events.map(event => event.id));
+  const mapId = (ids: Map<string, string>, id: string) => ids.get(id) ?? id;
+
+  return {
+    ...backup,
+    collections: backup.collections.map(collection => ({ ...collection, id: mapId(collectionIds, collection.id) })),
+    videos: backup.videos.map(video => ({
+      ...video,
+      id: mapId(videoIds, video.id),
+      collectionId: mapId(collectionIds, video.collectionId),
+    })),
+    playlists: backup.playlists.map(playlist => ({
+      ...playlist,
+      id: mapId(playlistIds, playlist.id),
+      items: playlist.items.map(item => ({ ...item, videoId: mapId(videoIds, item.videoId) })),
+      cramFilter: playlist.cramFilter && {
+        ...playlist.cramFilter,
+        collectionId: mapId(collectionIds, playlist.cramFilter.collectionId),
+      },
+    })),
+    pauses: backup.pauses.map(pause => ({
+      ...pause,
+      id: generateId(),
+      collectionIds: pause.collectionIds?.map(id => mapId(collectionIds, id)),
+    })),
+    events: backup.events.map(event => ({
+      ...event,
+      id: mapId(eventIds, event.id),
+      videoId: mapId(videoIds, event.videoId),
+      sessionId: mapId(playlistIds, event.sessionId),
+      undoneEventId: event.undoneEventId && mapId(eventIds, event.undoneEventId),
+    })),
+    media: backup.media.map(entry => ({ ...entry, videoId: mapId(videoIds, entry.videoId) })),
+  };
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  SyncMessage,
+  acquirePlaylistLock,
+  broadcastChange,
+  notifyLocalChange,
+  subscribeChanges,
+  withWriteLock,
+} from './crossTab';
+
+const message: SyncMessage = { type: 'records', store: 'videos', put: ['v1'], deleted: [] };
+
+// 模拟另一个标签页打开的同名频道
+const openOtherTab = () => new BroadcastChannel('video-learning-sync');
+
+describe('subscribeChanges', () => {
+  it('delivers local changes until unsubscribed', () => {
+    const received: SyncMessage[] = [];
+    const unsubscribe = subscribeChanges(change => received.push(change));
+    notifyLocalChange(message);
+    unsubscribe();
+    notifyLocalChange({ type: 'settings' });
+    expect(received).toEqual([message]);
+  });
+
+  it('receives changes broadcast by other tabs', async () => {
+    const otherTab = openOtherTab();
+    const received = new Promise<SyncMessage>(resolve => {
+      const unsubscribe = subscribeChanges(change => {
+        unsubscribe();
+        resolve(change);
+      });
+    });
+    otherTab.postMessage(message);
+    expect(await received).toEqual(message);
+    otherTab.close();
+  });
+
+  it('sends changes to other tabs', async () => {
+    const otherTab = openOtherTab();
+    const received = new Promise(resolve => {
+      otherTab.onmessage = event => resolve(event.data);
+    });
+    broadcastChange({ type: 'settings' });
+    expect(await received).toEqual({ type: 'settings' });
+    otherTab.close();
+  });
+});
+
+describe('locks', () => {
+  // 不支持 Web Locks 的浏览器
+  beforeEach(() => {
+    vi.stubGlobal('navigator', {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('runs the write directly without Web Locks', async () => {
+    expect(await withWriteLock(async () => 42)).toBe(42);
+  });
+
+  it('always grants the playlist without Web Locks', async () => {
+    const release = await acquirePlaylistLock('p1');
+    expect(release).toBeTypeOf('function');
+  });
+});
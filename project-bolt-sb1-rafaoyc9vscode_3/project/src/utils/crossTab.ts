@@ -0,0 +1,83 @@
+// 多标签页协作：写入后用 BroadcastChannel 通知其他标签页重新读取，Web Locks 保证写入依次进行
+import type { MetadataStoreName } from './metadataStore';
+
+const CHANNEL_NAME = 'video-learning-sync';
+const WRITE_LOCK = 'video-learning-write';
+const PLAYLIST_LOCK_PREFIX = 'video-learning-playlist:';
+
+// 其他标签页写入的变化
+export type SyncMessage =
+  | { type: 'records'; store: MetadataStoreName; put: string[]; deleted: string[] }
+  | { type: 'settings' };
+
+type SyncListener = (message: SyncMessage) => void;
+
+// 每个标签页只建一个频道，自己发出的消息不会再收到
+let channel: BroadcastChannel | null | undefined;
+const listeners = new Set<SyncListener>();
+
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+    channel?.addEventListener('message', event => {
+      listeners.forEach(listener => listener(event.data as SyncMessage));
+    });
+  }
+  return channel;
+};
+
+const hasLocks = () => typeof navigator !== 'undefined' && !!navigator.locks;
+
+/**
+ * 通知其他标签页有数据变化
+ */
+export function broadcastChange(message: SyncMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * 本标签页的写入被合并或放弃时，像收到其他标签页的变化一样通知本页重新读取
+ */
+export function notifyLocalChange(message: SyncMessage): void {
+  listeners.forEach(listener => listener(message));
+}
+
+/**
+ * 监听其他标签页的数据变化，返回取消监听的函数
+ */
+export function subscribeChanges(listener: SyncListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 持有写入锁执行写入；不支持 Web Locks 时直接执行。锁不可重入，写入函数内不能再请求写入锁
+ */
+export async function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
+  if (!hasLocks()) return task();
+  return navigator.locks.request(WRITE_LOCK, task) as Promise<T>;
+}
+
+/**
+ * 占用播放列表，防止两个标签页同时播放同一个列表；已被占用时返回 null，否则返回释放函数。
+ * 标签页关闭时浏览器会自动释放
+ */
+export function acquirePlaylistLock(playlistId: string): Promise<(() => void) | null> {
+  if (!hasLocks()) return Promise.resolve(() => undefined);
+  return new Promise(resolve => {
+    navigator.locks.request(PLAYLIST_LOCK_PREFIX + playlistId, { ifAvailable: true }, lock => {
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      // 回调返回的 Promise 完成前一直持有锁
+      return new Promise<void>(release => resolve(() => release()));
+    }).catch(error => {
+      console.warn('Error acquiring playlist lock:', error);
+      resolve(() => undefined);
+    });
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * 应用的 IndexedDB 数据库
+ * 文件存储、学习事件日志和键值数据共用同一个连接，表结构升级集中在这里
+ */
+import { withWriteLock } from './crossTab';
+
+export const DB_NAME = 'VideoLearningApp';
+// 2: 媒体文件；3: 学习事件日志；4: 键值数据（Service Worker 也会读取）；5: 学习元数据；6: 关联文件夹
+export const DB_VERSION = 6;
+
+export const FILES_STORE = 'files';
+export const EVENTS_STORE = 'events';
+export const META_STORE = 'meta';
+export const VIDEOS_STORE = 'videos';
+export const PLAYLISTS_STORE = 'playlists';
+export const COLLECTIONS_STORE = 'collections';
+export const PAUSES_STORE = 'pauses';
+export const FOLDERS_STORE = 'folders';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgradeDatabase = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(FILES_STORE)) {
+    db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+    const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+    events.createIndex('videoId', 'videoId');
+    events.createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+  if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+    db.createObjectStore(VIDEOS_STORE, { keyPath: 'id' }).createIndex('collectionId', 'collectionId');
+  }
+  if (!db.objectStoreNames.contains(PLAYLISTS_STORE)) {
+    db.createObjectStore(PLAYLISTS_STORE, { keyPath: 'id' }).createIndex('date', 'date');
+  }
+  if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+    db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(PAUSES_STORE)) {
+    db.createObjectStore(PAUSES_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+    db.createObjectStore(FOLDERS_STORE, { keyPath: 'collectionId' });
+  }
+};
+
+/**
+ * 打开数据库，多次调用共用同一个连接
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // 其他标签页升级表结构时让出连接，下次使用时重新打开
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onupgradeneeded = () => {
+        upgradeDatabase(request.result);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * 等待事务提交
+ */
+export function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * 把 IDBRequest 包装为 Promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 读取键值数据，不存在时返回 undefined
+ */
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction([META_STORE], 'readonly').objectStore(META_STORE);
+  return promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * 写入键值数据，持有写入锁，与其他标签页的写入依次进行
+ */
+export async function setMeta<T>(key: string, value: T): Promise<void> {
+  await withWriteLock(async () => {
+    const db = await openDatabase();
+    const store = db.transaction([META_STORE], 'readwrite').objectStore(META_STORE);
+    await promisifyRequest(store.put(value, key));
+  });
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewEvent, VideoFile } from '../types';
+import { findUndoablePlay, getEventState, getStateBeforeEvent, replayEvents } from './eventLog';
+
+const video: VideoFile = {
+  id: 'v1',
+  name: 'v1.mp4',
+  dateAdded: new Date(2026, 0, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+};
+
+const event = (id: string, type: ReviewEvent['type'], day: number, state: Partial<VideoFile>): ReviewEvent => ({
+  id,
+  videoId: 'v1',
+  type,
+  timestamp: new Date(2026, 0, day, 12),
+  sessionId: 's1',
+  secondsWatched: 0,
+  state: getEventState({ ...video, ...state }),
+});
+
+const learned = { reviewCount: 2, stage: 'learning' as const, firstPlayDate: new Date(2026, 0, 2), nextReviewDate: new Date(2026, 0, 5) };
+// 积压平摊：原到期日 1 月 5 日，平摊到 1 月 12 日
+const spread = { ...learned, backlogSince: new Date(2026, 0, 5), nextReviewDate: new Date(2026, 0, 12) };
+const played = { ...learned, reviewCount: 3, nextReviewDate: new Date(2026, 0, 20), backlogSince: undefined };
+
+describe('replayEvents', () => {
+  it('returns a new item without events', () => {
+    const result = replayEvents({ ...video, ...learned }, []);
+    expect(result).toMatchObject({ reviewCount: 0, stage: 'new', stageHistory: [] });
+    expect(result.firstPlayDate).toBeUndefined();
+  });
+
+  it('replays events in time order and ignores other items', () => {
+    const result = replayEvents(video, [
+      event('e2', 'play', 11, played),
+      { ...event('x1', 'play', 12, { reviewCount: 5, stage: 'graduated' }), videoId: 'v2' },
+      event('e1', 'play', 2, learned),
+    ]);
+    expect(result.reviewCount).toBe(3);
+    expect(result.nextReviewDate).toEqual(new Date(2026, 0, 20));
+  });
+
+  it('records stage transitions with the reason of the event', () => {
+    const result = replayEvents(video, [
+      event('e1', 'play', 2, learned),
+      event('e2', 'suspend', 3, { ...learned, stage: 'suspended' }),
+      event('e3', 'grade', 4, { ...learned, stage: 'suspended' }),
+    ]);
+    expect(result.stageHistory.map(({ from, to, reason }) => `${from}->${to}:${reason}`)).toEqual([
+      'new->learning:play',
+      'learning->suspended:suspend',
+    ]);
+    expect(result.stageHistory[1].at).toEqual(new Date(2026, 0, 3, 12));
+  });
+
+  it('keeps the stage history carried by a migration snapshot', () => {
+    const stageHistory = [{ from: 'new' as const, to: 'learning' as const, step: 1, at: new Date(2025, 11, 1), reason: 'play' as const }];
+    const snapshot = event('e1', 'snapshot', 1, learned);
+    const result = replayEvents(video, [{ ...snapshot, state: { ...snapshot.state!, stageHistory } }]);
+    expect(result.stageHistory).toEqual(stageHistory);
+  });
+
+  it('restores the backlog spread from a reschedule event', () => {
+    const result = replayEvents(video, [event('e1', 'play', 2, learned), event('e2', 'reschedule', 10, spread)]);
+    expect(result.backlogSince).toEqual(new Date(2026, 0, 5));
+    expect(result.nextReviewDate).toEqual(new Date(2026, 0, 12));
+  });
+
+  it('clears the backlog marker after the item is reviewed', () => {
+    const result = replayEvents(video, [
+      event('e1', 'play', 2, learned),
+      event('e2', 'reschedule', 10, spread),
+      event('e3', 'play', 11, played),
+    ]);
+    expect(result.backlogSince).toBeUndefined();
+    expect(result.reviewCount).toBe(3);
+  });
+
+  it('brings the backlog marker back when undoing the review', () => {
+    const events = [
+      event('e1', 'play', 2, learned),
+      event('e2', 'reschedule', 10, spread),
+      event('e3', 'play', 11, played),
+    ];
+    const result = getStateBeforeEvent(video, events, events[2]);
+    expect(result.backlogSince).toEqual(new Date(2026, 0, 5));
+    expect(result.nextReviewDate).toEqual(new Date(2026, 0, 12));
+  });
+});
+
+describe('findUndoablePlay', () => {
+  it('finds the latest play that has not been undone', () => {
+    const events = [
+      event('e1', 'play', 2, learned),
+      event('e2', 'play', 11, played),
+      { ...event('u1', 'undo', 12, learned), undoneEventId: 'e2' },
+      event('e3', 'reschedule', 13, spread),
+    ];
+    expect(findUndoablePlay(events)?.id).toBe('e1');
+  });
+
+  it('returns nothing when every play has been undone', () => {
+    const events = [event('e1', 'play', 2, learned), { ...event('u1', 'undo', 3, {}), undoneEventId: 'e1' }];
+    expect(findUndoablePlay(events)).toBeUndefined();
+  });
+});
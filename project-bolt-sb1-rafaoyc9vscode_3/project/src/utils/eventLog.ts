@@ -0,0 +1,206 @@
+/**
+ * 学习事件日志
+ * 每次播放、评分、跳过、改期、重置都作为一条事件追加到 IndexedDB，
+ * 条目的调度状态可以由事件回放得出
+ */
+import type { ReviewEvent, ReviewEventState, StageTransitionReason, VideoFile } from '../types';
+import { EVENTS_STORE, openDatabase, promisifyRequest } from './database';
+import { withWriteLock } from './crossTab';
+
+// 事件类型对应的阶段转换原因
+const TRANSITION_REASONS: Record<ReviewEvent['type'], StageTransitionReason | null> = {
+  play: 'play',
+  grade: null,
+  skip: null,
+  reschedule: 'reschedule',
+  reset: 'reset',
+  suspend: 'suspend',
+  unsuspend: 'unsuspend',
+  undo: null,
+  snapshot: 'migrate',
+};
+
+const byTimestamp = (a: ReviewEvent, b: ReviewEvent) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/**
+ * 取出条目的调度状态，作为事件的 state 记录
+ */
+export function getEventState(video: VideoFile): ReviewEventState {
+  return {
+    reviewCount: video.reviewCount,
+    stage: video.stage,
+    firstPlayDate: video.firstPlayDate,
+    lastReviewDate: video.lastReviewDate,
+    nextReviewDate: video.nextReviewDate,
+    intervalDays: video.intervalDays,
+    easeFactor: video.easeFactor,
+    lastGrade: video.lastGrade,
+    lapses: video.lapses,
+    backlogSince: video.backlogSince,
+  };
+}
+
+/**
+ * 补齐从 JSON 读回的事件状态：值为空的字段在序列化时被省略，逐项取出后回放时会清空这些字段，而不是保留之前的值
+ */
+export function completeEventState(state: ReviewEventState): ReviewEventState {
+  return {
+    reviewCount: state.reviewCount,
+    stage: state.stage,
+    firstPlayDate: state.firstPlayDate,
+    lastReviewDate: state.lastReviewDate,
+    nextReviewDate: state.nextReviewDate,
+    intervalDays: state.intervalDays,
+    easeFactor: state.easeFactor,
+    lastGrade: state.lastGrade,
+    lapses: state.lapses,
+    backlogSince: state.backlogSince,
+    stageHistory: Array.isArray(state.stageHistory) ? state.stageHistory : undefined,
+  };
+}
+
+/**
+ * 按时间顺序回放事件，得出条目的调度状态和阶段记录
+ * 没有事件的条目回到未开始状态；迁移快照附带的阶段记录原样保留
+ */
+export function replayEvents(video: VideoFile, events: ReviewEvent[]): VideoFile {
+  const ordered = events
+    .filter(event => event.videoId === video.id)
+    .sort(byTimestamp);
+
+  return ordered.reduce<VideoFile>((current, event) => {
+    if (!event.state) return current;
+    const { stageHistory, ...state } = event.state;
+    const reason = TRANSITION_REASONS[event.type];
+    const changed = state.stage !== current.stage || state.reviewCount !== current.reviewCount;
+    const history = stageHistory ?? current.stageHistory;
+    return {
+      ...current,
+      ...state,
+      stageHistory: changed && reason && !stageHistory
+        ? [...history, { from: current.stage, to: state.stage, step: state.reviewCount, at: event.timestamp, reason }]
+        : history,
+    };
+  }, {
+    ...video,
+    reviewCount: 0,
+    stage: 'new',
+    stageHistory: [],
+    firstPlayDate: undefined,
+    lastReviewDate: undefined,
+    nextReviewDate: undefined,
+    intervalDays: undefined,
+    easeFactor: undefined,
+    lastGrade: undefined,
+    lapses: undefined,
+    backlogSince: undefined,
+  });
+}
+
+/**
+ * 最近一次尚未被撤销的播放事件
+ */
+export function findUndoablePlay(events: ReviewEvent[]): ReviewEvent | undefined {
+  const undone = new Set(events.filter(event => event.type === 'undo').map(event => event.undoneEventId));
+  return [...events]
+    .sort(byTimestamp)
+    .reverse()
+    .find(event => event.type === 'play' && !undone.has(event.id));
+}
+
+/**
+ * 撤销一次播放：回放该播放之前的事件，得出播放前的状态（含阶段记录）
+ */
+export function getStateBeforeEvent(video: VideoFile, events: ReviewEvent[], target: ReviewEvent): VideoFile {
+  return replayEvents(video, events.filter(event => event.timestamp.getTime() < target.timestamp.getTime()));
+}
+
+// IndexedDB 事件存储
+class ReviewEventLog {
+  // 本标签页写入事件后通知，供学习日历等只读视图刷新
+  private listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  async append(events: ReviewEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await withWriteLock(async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([EVENTS_STORE], 'readwrite');
+      const store = transaction.objectStore(EVENTS_STORE);
+      events.forEach(event => store.add(event));
+      return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    });
+    this.notify();
+  }
+
+  async getAll(): Promise<ReviewEvent[]> {
+    const db = await openDatabase();
+    const store = db.transaction([EVENTS_STORE], 'readonly').objectStore(EVENTS_STORE);
+    return promisifyRequest(store.index('timestamp').getAll() as IDBRequest<ReviewEvent[]>);
+  }
+
+  async getByVideo(videoId: string): Promise<ReviewEvent[]> {
+    const db = await openDatabase();
+    const store = db.transaction([EVENTS_STORE], 'readonly').objectStore(EVENTS_STORE);
+    const events = await promisifyRequest(store.index('videoId').getAll(videoId) as IDBRequest<ReviewEvent[]>);
+    return events.sort(byTimestamp);
+  }
+
+  // 条目被删除时一并删除它的事件
+  async deleteByVideo(videoIds: string[]): Promise<void> {
+    if (videoIds.length === 0) return;
+    await withWriteLock(async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([EVENTS_STORE], 'readwrite');
+      const index = transaction.objectStore(EVENTS_STORE).index('videoId');
+      videoIds.forEach(videoId => {
+        const request = index.openKeyCursor(IDBKeyRange.only(videoId));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            transaction.objectStore(EVENTS_STORE).delete(cursor.primaryKey);
+            cursor.continue();
+          }
+        };
+      });
+      return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    });
+    this.notify();
+  }
+
+  // 从备份替换全部事件：清空和写入在同一个事务中，写入失败时原有事件保持不变
+  async replaceAll(events: ReviewEvent[]): Promise<void> {
+    await withWriteLock(async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([EVENTS_STORE], 'readwrite');
+      const store = transaction.objectStore(EVENTS_STORE);
+      store.clear();
+      events.forEach(event => store.add(event));
+      return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    });
+    this.notify();
+  }
+}
+
+export const reviewEventLog = new ReviewEventLog();
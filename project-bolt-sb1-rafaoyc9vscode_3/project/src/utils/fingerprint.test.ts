@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoFile } from '../types';
+import { RetiredVideo, computeFingerprint, getSampleOffsets, matchFingerprints } from './fingerprint';
+
+const KB = 1024;
+
+const makeVideo = (id: string, fingerprint?: string, needsRelink?: boolean): VideoFile => ({
+  id,
+  name: `${id}.mp4`,
+  dateAdded: new Date(2026, 0, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+  fingerprint,
+  needsRelink,
+});
+
+describe('getSampleOffsets', () => {
+  it('reads small files whole', () => {
+    expect(getSampleOffsets(100 * KB)).toEqual([0]);
+  });
+
+  it('spreads five samples from the start to the end of large files', () => {
+    const size = 64 * KB * 4 + 1024 * KB;
+    const offsets = getSampleOffsets(size);
+    expect(offsets).toHaveLength(5);
+    expect(offsets[0]).toBe(0);
+    expect(offsets[4]).toBe(size - 64 * KB);
+  });
+});
+
+describe('computeFingerprint', () => {
+  it('gives the same fingerprint for the same content, including the size', async () => {
+    const first = await computeFingerprint(new Blob(['同一个文件']));
+    expect(first).toBe(await computeFingerprint(new Blob(['同一个文件'])));
+    expect(first).toMatch(/^v1:\d+:[0-9a-f]{32}$/);
+    expect(first).not.toBe(await computeFingerprint(new Blob(['另一个文件'])));
+  });
+
+  it('detects changes inside a sampled range of large files', async () => {
+    const size = 2048 * KB;
+    const a = new Uint8Array(size);
+    const b = new Uint8Array(size);
+    // 改动落在第一个抽样片段内
+    b[10] = 1;
+    expect(await computeFingerprint(new Blob([a]))).not.toBe(await computeFingerprint(new Blob([b])));
+  });
+});
+
+describe('matchFingerprints', () => {
+  const retired: RetiredVideo = { fingerprint: 'f3', video: makeVideo('old', 'f3'), deletedAt: new Date(2026, 0, 5) };
+
+  it('matches existing, missing and deleted items', () => {
+    const videos = [makeVideo('a', 'f1'), makeVideo('b', 'f2', true)];
+    const matches = matchFingerprints(['f1', 'f2', 'f3', 'f4', undefined], videos, [retired]);
+    expect(matches).toEqual([
+      { kind: 'duplicate', video: videos[0] },
+      { kind: 'missing', video: videos[1] },
+      { kind: 'retired', retired },
+      null,
+      null,
+    ]);
+  });
+
+  it('prefers the item that needs relinking when a fingerprint appears twice', () => {
+    const videos = [makeVideo('a', 'f1'), makeVideo('b', 'f1', true)];
+    expect(matchFingerprints(['f1'], videos, [])).toEqual([{ kind: 'missing', video: videos[1] }]);
+  });
+
+  it('prefers items in the library over deleted ones', () => {
+    const videos = [makeVideo('a', 'f3')];
+    expect(matchFingerprints(['f3'], videos, [retired])[0]).toMatchObject({ kind: 'duplicate' });
+  });
+});
@@ -0,0 +1,82 @@
+// 内容指纹相关工具函数：文件大小加若干抽样片段的哈希，用于识别重复导入的同一个文件
+import type { VideoFile } from '../types';
+
+// 抽样片段数和每段大小；只读取文件的一小部分，大文件也能很快算完
+const SAMPLE_COUNT = 5;
+const SAMPLE_BYTES = 64 * 1024;
+// 指纹格式版本，算法改变后旧指纹不再参与比对
+const FINGERPRINT_VERSION = 'v1';
+
+// 已删除但有学习进度的条目，重新导入同一文件时可以恢复
+export interface RetiredVideo {
+  fingerprint: string;
+  video: Omit<VideoFile, 'file' | 'fileUrl'>;
+  deletedAt: Date;
+}
+
+// 待导入文件与已有数据的对应关系
+export type FingerprintMatch =
+  | { kind: 'duplicate'; video: VideoFile } // 库中已有同一个文件
+  | { kind: 'missing'; video: VideoFile } // 库中的条目找不到文件，可以用这个文件重新关联
+  | { kind: 'retired'; retired: RetiredVideo }; // 删除过的条目，可以恢复原进度和历史
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * 抽样片段的起始位置：均匀分布，包含开头和结尾；文件较小时整个读取
+ */
+export function getSampleOffsets(size: number): number[] {
+  if (size <= SAMPLE_COUNT * SAMPLE_BYTES) return [0];
+  const last = size - SAMPLE_BYTES;
+  return Array.from({ length: SAMPLE_COUNT }, (_, index) => Math.floor((last * index) / (SAMPLE_COUNT - 1)));
+}
+
+/**
+ * 计算内容指纹；当前环境不支持哈希时返回 undefined
+ */
+export async function computeFingerprint(blob: Blob): Promise<string | undefined> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return undefined;
+  const offsets = getSampleOffsets(blob.size);
+  const sampleLength = offsets.length === 1 ? blob.size : SAMPLE_BYTES;
+  const digests: Uint8Array[] = [];
+  for (const offset of offsets) {
+    const chunk = await blob.slice(offset, offset + sampleLength).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
+  }
+  const combined = new Uint8Array(digests.reduce((sum, digest) => sum + digest.length, 0));
+  digests.reduce((position, digest) => {
+    combined.set(digest, position);
+    return position + digest.length;
+  }, 0);
+  const hash = toHex(await crypto.subtle.digest('SHA-256', combined)).slice(0, 32);
+  return `${FINGERPRINT_VERSION}:${blob.size}:${hash}`;
+}
+
+/**
+ * 为每个指纹查找已有的条目：库中条目优先，其次是删除过的条目
+ */
+export function matchFingerprints(
+  fingerprints: (string | undefined)[],
+  videos: VideoFile[],
+  retired: RetiredVideo[]
+): (FingerprintMatch | null)[] {
+  const videoByFingerprint = new Map<string, VideoFile>();
+  videos.forEach(video => {
+    if (!video.fingerprint) return;
+    // 同一指纹有多条时优先找不到文件的，便于重新关联
+    const existing = videoByFingerprint.get(video.fingerprint);
+    if (!existing || (!existing.needsRelink && video.needsRelink)) {
+      videoByFingerprint.set(video.fingerprint, video);
+    }
+  });
+  const retiredByFingerprint = new Map(retired.map(item => [item.fingerprint, item]));
+
+  return fingerprints.map(fingerprint => {
+    if (!fingerprint) return null;
+    const video = videoByFingerprint.get(fingerprint);
+    if (video) return { kind: video.needsRelink ? 'missing' : 'duplicate', video };
+    const retiredVideo = retiredByFingerprint.get(fingerprint);
+    return retiredVideo ? { kind: 'retired', retired: retiredVideo } : null;
+  });
+}
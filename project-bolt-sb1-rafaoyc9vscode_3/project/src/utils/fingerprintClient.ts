@@ -0,0 +1,66 @@
+// 把指纹计算交给后台线程；无法创建线程时退回主线程计算
+import { computeFingerprint } from './fingerprint';
+
+interface FingerprintResponse {
+  id: number;
+  fingerprint?: string;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (fingerprint: string | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('../workers/fingerprint.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<FingerprintResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if (event.data.error) {
+        request.reject(new Error(event.data.error));
+      } else {
+        request.resolve(event.data.fingerprint);
+      }
+    };
+    worker.onerror = event => {
+      // 线程无法运行：未完成的请求改在主线程计算，之后不再使用线程
+      console.warn('指纹线程出错，改在主线程计算', event.message);
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pending.forEach(request => request.reject(new Error('Fingerprint worker failed')));
+      pending.clear();
+    };
+  } catch (error) {
+    console.warn('无法创建指纹线程，改在主线程计算', error);
+    workerFailed = true;
+  }
+  return worker;
+};
+
+/**
+ * 计算内容指纹，优先在后台线程中进行；失败时返回 undefined，不影响导入
+ */
+export async function fingerprintFile(blob: Blob): Promise<string | undefined> {
+  const current = getWorker();
+  try {
+    if (!current) return await computeFingerprint(blob);
+    const id = nextRequestId++;
+    return await new Promise<string | undefined>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      current.postMessage({ id, blob });
+    }).catch(() => (workerFailed ? computeFingerprint(blob) : undefined));
+  } catch (error) {
+    console.warn('计算内容指纹失败', error);
+    return undefined;
+  }
+}
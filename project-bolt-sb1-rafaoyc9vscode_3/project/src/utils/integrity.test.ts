@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { Collection, DailyPlaylist, VideoFile } from '../types';
+import { diagnoseIntegrity, dropDanglingItems, recountCollections } from './integrity';
+
+const makeVideo = (id: string, needsRelink?: boolean): VideoFile => ({
+  id,
+  name: `${id}.mp4`,
+  dateAdded: new Date(2026, 0, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+  needsRelink,
+});
+
+const files = [
+  { id: 'v1', name: 'v1.mp4', size: 100 },
+  { id: 'v2', name: 'v2.mp4', size: 0, linked: true },
+  { id: 'v3', name: 'v3.mp4', size: 0, linked: true },
+];
+
+const collection: Collection = {
+  id: 'c1',
+  name: '合辑',
+  dateCreated: new Date(2026, 0, 1),
+  isActive: true,
+  totalVideos: 5,
+  completedVideos: 0,
+  color: '#000000',
+};
+
+const makePlaylist = (id: string, videoIds: string[], lastPlayedIndex = 0, isCompleted = false): DailyPlaylist => ({
+  id,
+  date: new Date(2026, 0, 10),
+  items: videoIds.map(videoId => ({ videoId, reviewType: 'review', reviewNumber: 2 })),
+  isCompleted,
+  lastPlayedIndex,
+  isExtraSession: false,
+  playlistType: 'review',
+});
+
+describe('diagnoseIntegrity', () => {
+  it('reports linked files whose handle can no longer be read as missing', () => {
+    const videos = [makeVideo('v1'), makeVideo('v2'), makeVideo('v3', true), makeVideo('v4')];
+    const report = diagnoseIntegrity(videos, [], [], files, new Set(['v2', 'v3']));
+    expect(report.missingFiles.map(video => video.id)).toEqual(['v2', 'v3', 'v4']);
+    // 仍读不到的关联文件不算已恢复
+    expect(report.staleRelinkFlags).toEqual([]);
+    expect(report.orphanFiles).toEqual([]);
+  });
+
+  it('clears the relink flag once the linked file is readable again', () => {
+    const report = diagnoseIntegrity([makeVideo('v1'), makeVideo('v2'), makeVideo('v3', true)], [], [], files);
+    expect(report.missingFiles).toEqual([]);
+    expect(report.staleRelinkFlags.map(video => video.id)).toEqual(['v3']);
+  });
+
+  it('reports wrong collection counters, orphan files and dangling playlist items', () => {
+    const videos = [makeVideo('v1'), { ...makeVideo('v2'), stage: 'graduated' as const }];
+    const playlists = [
+      makePlaylist('open', ['v1', 'deleted']),
+      makePlaylist('done', ['deleted'], 1, true),
+    ];
+    const report = diagnoseIntegrity(videos, [collection], playlists, files);
+    expect(report.counterMismatches).toEqual([{
+      collectionId: 'c1',
+      name: '合辑',
+      totalVideos: 5,
+      actualTotal: 2,
+      completedVideos: 0,
+      actualCompleted: 1,
+    }]);
+    expect(report.orphanFiles.map(file => file.id)).toEqual(['v3']);
+    // 已完成的播放列表是学习历史，不检查
+    expect(report.danglingPlaylists).toMatchObject([{ playlistId: 'open', missingVideoIds: ['deleted'], remainingCount: 1 }]);
+  });
+});
+
+describe('recountCollections', () => {
+  it('fixes the counters and keeps collections that were already right', () => {
+    const right = { ...collection, id: 'c2', totalVideos: 0 };
+    const [fixed, unchanged] = recountCollections([collection, right], [makeVideo('v1')]);
+    expect(fixed).toMatchObject({ totalVideos: 1, completedVideos: 0 });
+    expect(unchanged).toBe(right);
+  });
+});
+
+describe('dropDanglingItems', () => {
+  it('removes deleted items and moves the playback position back', () => {
+    const [playlist] = dropDanglingItems([makePlaylist('p1', ['deleted', 'v1', 'v2'], 2)], new Set(['v1', 'v2']));
+    expect(playlist.items.map(item => item.videoId)).toEqual(['v1', 'v2']);
+    expect(playlist.lastPlayedIndex).toBe(1);
+  });
+
+  it('drops playlists with nothing left and keeps completed ones', () => {
+    const completed = makePlaylist('done', ['deleted'], 1, true);
+    expect(dropDanglingItems([makePlaylist('p1', ['deleted']), completed], new Set())).toEqual([completed]);
+  });
+});
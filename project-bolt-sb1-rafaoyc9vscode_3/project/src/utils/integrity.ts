@@ -0,0 +1,118 @@
+// 数据体检相关工具函数：检查元数据之间、元数据与已保存文件之间是否一致
+import type { Collection, DailyPlaylist, VideoFile } from '../types';
+import type { StoredFileInfo } from './storageUsage';
+import { isGraduated } from './lifecycle';
+
+// 合辑计数与实际条目不符
+export interface CounterMismatch {
+  collectionId: string;
+  name: string;
+  totalVideos: number;
+  actualTotal: number;
+  completedVideos: number;
+  actualCompleted: number;
+}
+
+// 未完成的播放列表中指向已删除条目的项
+export interface DanglingPlaylist {
+  playlistId: string;
+  date: Date;
+  playlistType: DailyPlaylist['playlistType'];
+  missingVideoIds: string[];
+  remainingCount: number; // 去掉后剩下的项数，为0时整个列表会被删除
+}
+
+export interface IntegrityReport {
+  orphanFiles: StoredFileInfo[]; // 没有对应条目的文件
+  missingFiles: VideoFile[]; // 找不到文件或关联文件已读取不到的条目
+  staleRelinkFlags: VideoFile[]; // 已标记缺失但文件其实还在的条目
+  counterMismatches: CounterMismatch[];
+  danglingPlaylists: DanglingPlaylist[];
+}
+
+/**
+ * 实际的合辑计数：条目数和已毕业条目数
+ */
+export function countCollectionVideos(videos: VideoFile[], collectionId: string): { total: number; completed: number } {
+  const collectionVideos = videos.filter(video => video.collectionId === collectionId);
+  return {
+    total: collectionVideos.length,
+    completed: collectionVideos.filter(isGraduated).length,
+  };
+}
+
+/**
+ * 扫描全部问题；已完成的播放列表是学习历史，不检查其中的条目。
+ * unreadableFileIds 是关联文件夹中句柄已读取不到（文件被移动或删除）的文件，按缺失处理
+ */
+export function diagnoseIntegrity(
+  videos: VideoFile[],
+  collections: Collection[],
+  playlists: DailyPlaylist[],
+  files: StoredFileInfo[],
+  unreadableFileIds: Set<string> = new Set()
+): IntegrityReport {
+  const videoIds = new Set(videos.map(video => video.id));
+  const fileIds = new Set(files.filter(file => !unreadableFileIds.has(file.id)).map(file => file.id));
+
+  const counterMismatches = collections.flatMap(collection => {
+    const { total, completed } = countCollectionVideos(videos, collection.id);
+    if (total === collection.totalVideos && completed === collection.completedVideos) return [];
+    return [{
+      collectionId: collection.id,
+      name: collection.name,
+      totalVideos: collection.totalVideos,
+      actualTotal: total,
+      completedVideos: collection.completedVideos,
+      actualCompleted: completed,
+    }];
+  });
+
+  const danglingPlaylists = playlists.flatMap(playlist => {
+    if (playlist.isCompleted) return [];
+    const missingVideoIds = playlist.items.filter(item => !videoIds.has(item.videoId)).map(item => item.videoId);
+    if (missingVideoIds.length === 0) return [];
+    return [{
+      playlistId: playlist.id,
+      date: playlist.date,
+      playlistType: playlist.playlistType,
+      missingVideoIds,
+      remainingCount: playlist.items.length - missingVideoIds.length,
+    }];
+  });
+
+  return {
+    orphanFiles: files.filter(file => !videoIds.has(file.id)),
+    missingFiles: videos.filter(video => !fileIds.has(video.id)),
+    staleRelinkFlags: videos.filter(video => video.needsRelink && fileIds.has(video.id)),
+    counterMismatches,
+    danglingPlaylists,
+  };
+}
+
+/**
+ * 按实际条目重新计算合辑计数，计数没变的合辑保持原对象
+ */
+export function recountCollections(collections: Collection[], videos: VideoFile[]): Collection[] {
+  return collections.map(collection => {
+    const { total, completed } = countCollectionVideos(videos, collection.id);
+    return total === collection.totalVideos && completed === collection.completedVideos
+      ? collection
+      : { ...collection, totalVideos: total, completedVideos: completed };
+  });
+}
+
+/**
+ * 去掉未完成播放列表中指向已删除条目的项，播放进度随之前移；全部项都已删除的列表整个去掉
+ */
+export function dropDanglingItems(playlists: DailyPlaylist[], videoIds: Set<string>): DailyPlaylist[] {
+  return playlists.flatMap(playlist => {
+    if (playlist.isCompleted || playlist.items.every(item => videoIds.has(item.videoId))) return [playlist];
+    const items = playlist.items.filter(item => videoIds.has(item.videoId));
+    if (items.length === 0) return [];
+    const removedBefore = playlist.items
+      .slice(0, playlist.lastPlayedIndex)
+      .filter(item => !videoIds.has(item.videoId)).length;
+    return [{ ...playlist, items, lastPlayedIndex: playlist.lastPlayedIndex - removedBefore }];
+  });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoFile } from '../types';
+import {
+  canTransition,
+  countStages,
+  getLegacyStage,
+  getResumeStage,
+  getStageProgress,
+  transitionStage,
+} from './lifecycle';
+
+const AT = new Date(2026, 2, 10, 10, 0);
+
+const makeVideo = (overrides: Partial<VideoFile> = {}): VideoFile => ({
+  id: 'v1',
+  name: 'v1.mp4',
+  dateAdded: new Date(2026, 1, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+  ...overrides,
+});
+
+describe('transitionStage', () => {
+  it('records the transition with its step, time and reason', () => {
+    const result = transitionStage(makeVideo(), 'learning', { at: AT, reason: 'play', step: 1 });
+    expect(result).toMatchObject({ stage: 'learning', reviewCount: 1 });
+    expect(result.stageHistory).toEqual([{ from: 'new', to: 'learning', step: 1, at: AT, reason: 'play' }]);
+  });
+
+  it('records step changes within the same stage', () => {
+    const video = makeVideo({ stage: 'learning', reviewCount: 1 });
+    const result = transitionStage(video, 'learning', { at: AT, reason: 'play', step: 2 });
+    expect(result.stageHistory).toHaveLength(1);
+    expect(result.reviewCount).toBe(2);
+  });
+
+  it('returns the same item when nothing changes', () => {
+    const video = makeVideo({ stage: 'learning', reviewCount: 2 });
+    expect(transitionStage(video, 'learning', { at: AT, reason: 'play' })).toBe(video);
+  });
+
+  it('rejects transitions that are not allowed', () => {
+    expect(canTransition('new', 'maintenance')).toBe(false);
+    expect(canTransition('maintenance', 'graduated')).toBe(false);
+    expect(() => transitionStage(makeVideo(), 'maintenance', { at: AT, reason: 'play' })).toThrow('不允许的阶段转换');
+  });
+});
+
+describe('getResumeStage', () => {
+  it('returns the stage before the last suspension', () => {
+    const video = makeVideo({
+      stage: 'suspended',
+      reviewCount: 5,
+      stageHistory: [
+        { from: 'learning', to: 'suspended', step: 2, at: AT, reason: 'suspend' },
+        { from: 'suspended', to: 'learning', step: 2, at: AT, reason: 'unsuspend' },
+        { from: 'graduated', to: 'suspended', step: 5, at: AT, reason: 'suspend' },
+      ],
+    });
+    expect(getResumeStage(video)).toBe('graduated');
+  });
+
+  it('falls back to the review count without a recorded suspension', () => {
+    expect(getResumeStage(makeVideo({ stage: 'suspended' }))).toBe('new');
+    expect(getResumeStage(makeVideo({ stage: 'suspended', reviewCount: 2 }))).toBe('learning');
+  });
+});
+
+describe('stage helpers', () => {
+  it('maps the legacy status field to a stage', () => {
+    expect(getLegacyStage('completed', 5)).toBe('graduated');
+    expect(getLegacyStage(undefined, 0)).toBe('new');
+    expect(getLegacyStage(undefined, 2)).toBe('learning');
+  });
+
+  it('shows graduated items as fully progressed', () => {
+    expect(getStageProgress({ stage: 'learning', reviewCount: 2 }, 5)).toBe('2/5');
+    expect(getStageProgress({ stage: 'maintenance', reviewCount: 3 }, 5)).toBe('5/5');
+  });
+
+  it('counts items in every stage', () => {
+    const counts = countStages([{ stage: 'new' }, { stage: 'new' }, { stage: 'maintenance' }]);
+    expect(counts).toEqual({ new: 2, learning: 0, relearning: 0, suspended: 0, graduated: 0, maintenance: 1 });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 条目生命周期
+ * 阶段的唯一来源：所有阶段变化都经过 transitionStage，并带时间记录
+ */
+import type { LifecycleStage, StageTransitionReason, VideoFile } from '../types';
+
+export const LIFECYCLE_STAGES: LifecycleStage[] = ['new', 'learning', 'relearning', 'suspended', 'graduated', 'maintenance'];
+
+export const STAGE_LABELS: Record<LifecycleStage, string> = {
+  new: '未开始',
+  learning: '学习中',
+  relearning: '重新学习',
+  suspended: '已搁置',
+  graduated: '已毕业',
+  maintenance: '维护复习',
+};
+
+export const STAGE_COLORS: Record<LifecycleStage, string> = {
+  new: 'bg-gray-100 text-gray-700',
+  learning: 'bg-blue-100 text-blue-700',
+  relearning: 'bg-red-100 text-red-700',
+  suspended: 'bg-slate-200 text-slate-600',
+  graduated: 'bg-green-100 text-green-700',
+  maintenance: 'bg-teal-100 text-teal-700',
+};
+
+// 允许的阶段转换；同阶段之间的转换表示学习步数变化
+// 回到未开始、从毕业退回学习中只来自手动重置和手动调整步数
+const ALLOWED_TRANSITIONS: Record<LifecycleStage, LifecycleStage[]> = {
+  new: ['learning', 'graduated', 'suspended'],
+  learning: ['new', 'learning', 'relearning', 'graduated', 'suspended'],
+  relearning: ['new', 'learning', 'relearning', 'graduated', 'suspended'],
+  graduated: ['new', 'learning', 'graduated', 'maintenance', 'relearning', 'suspended'],
+  maintenance: ['new', 'learning', 'maintenance', 'relearning', 'suspended'],
+  suspended: ['new', 'learning', 'relearning', 'graduated', 'maintenance'],
+};
+
+export interface TransitionOptions {
+  at: Date;
+  reason: StageTransitionReason;
+  step?: number; // 转换后的学习步数，缺省保持不变
+}
+
+/**
+ * 是否允许从 from 转换到 to
+ */
+export function canTransition(from: LifecycleStage, to: LifecycleStage): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 阶段转换：校验后返回更新后的条目，阶段或步数发生变化时追加一条转换记录
+ */
+export function transitionStage(video: VideoFile, to: LifecycleStage, { at, reason, step = video.reviewCount }: TransitionOptions): VideoFile {
+  if (!canTransition(video.stage, to)) {
+    throw new Error(`不允许的阶段转换：${STAGE_LABELS[video.stage]} → ${STAGE_LABELS[to]}`);
+  }
+  if (to === video.stage && step === video.reviewCount) {
+    return video;
+  }
+  return {
+    ...video,
+    stage: to,
+    reviewCount: step,
+    stageHistory: [...video.stageHistory, { from: video.stage, to, step, at, reason }],
+  };
+}
+
+/**
+ * 已毕业（含维护复习中）的条目视为已完成
+ */
+export function isGraduated(video: Pick<VideoFile, 'stage'>): boolean {
+  return video.stage === 'graduated' || video.stage === 'maintenance';
+}
+
+/**
+ * 取消搁置后回到搁置前的阶段
+ */
+export function getResumeStage(video: VideoFile): LifecycleStage {
+  const suspension = [...video.stageHistory].reverse().find(t => t.to === 'suspended');
+  if (suspension) return suspension.from;
+  return video.reviewCount > 0 ? 'learning' : 'new';
+}
+
+/**
+ * 阶段标签，学习中和重新学习附带当前步数
+ */
+export function getStageLabel(video: Pick<VideoFile, 'stage' | 'reviewCount'>): string {
+  if (video.stage === 'learning' || video.stage === 'relearning') {
+    return `${STAGE_LABELS[video.stage]} · 第${video.reviewCount}步`;
+  }
+  return STAGE_LABELS[video.stage];
+}
+
+/**
+ * 学习进度文本：当前步数 / 毕业所需步数
+ */
+export function getStageProgress(video: Pick<VideoFile, 'stage' | 'reviewCount'>, graduationStep: number): string {
+  const current = isGraduated(video) ? graduationStep : Math.min(video.reviewCount, graduationStep);
+  return `${current}/${graduationStep}`;
+}
+
+/**
+ * 旧版本数据只有 status 字段，换算为生命周期阶段
+ */
+export function getLegacyStage(status: string | undefined, reviewCount: number): LifecycleStage {
+  switch (status) {
+    case 'completed': return 'graduated';
+    case 'relearning': return 'relearning';
+    case 'learning': return 'learning';
+    default: return reviewCount > 0 ? 'learning' : 'new';
+  }
+}
+
+/**
+ * 统计各阶段的条目数
+ */
+export function countStages(videos: Pick<VideoFile, 'stage'>[]): Record<LifecycleStage, number> {
+  const counts = Object.fromEntries(LIFECYCLE_STAGES.map(stage => [stage, 0])) as Record<LifecycleStage, number>;
+  videos.forEach(video => {
+    counts[video.stage]++;
+  });
+  return counts;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { hasReadPermission, scanLinkedFolder } from './linkedFolders';
+
+// 只实现扫描用到的部分句柄接口
+const fileHandle = (name: string, content = 'x') => ({
+  kind: 'file' as const,
+  name,
+  getFile: async () => new File([content], name),
+});
+
+const directoryHandle = (name: string, children: { kind: 'file' | 'directory'; name: string }[]) => ({
+  kind: 'directory' as const,
+  name,
+  values: async function* () {
+    yield* children;
+  },
+});
+
+describe('scanLinkedFolder', () => {
+  it('collects media files from nested folders in natural path order', async () => {
+    const root = directoryHandle('课程', [
+      fileHandle('第10集.mp4'),
+      fileHandle('笔记.txt'),
+      fileHandle('空文件.mp4', ''),
+      directoryHandle('附录', [fileHandle('录音.mp3')]),
+      fileHandle('第2集.mp4'),
+    ]);
+    const entries = await scanLinkedFolder(root as unknown as FileSystemDirectoryHandle);
+    expect(entries.map(entry => entry.path)).toEqual(['第2集.mp4', '第10集.mp4', '附录/录音.mp3']);
+    expect(entries[0].file.name).toBe('第2集.mp4');
+  });
+});
+
+describe('hasReadPermission', () => {
+  it('asks the handle without prompting', async () => {
+    const granted = { queryPermission: async () => 'granted' };
+    const prompt = { queryPermission: async () => 'prompt' };
+    expect(await hasReadPermission(granted as unknown as FileSystemHandle)).toBe(true);
+    expect(await hasReadPermission(prompt as unknown as FileSystemHandle)).toBe(false);
+  });
+
+  it('treats browsers without the permission API as granted', async () => {
+    expect(await hasReadPermission(fileHandle('a.mp4') as unknown as FileSystemHandle)).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+// 关联文件夹相关工具函数
+// 关联模式的合辑只保存文件夹和文件的句柄，媒体留在原位置，播放时再读取
+import { FOLDERS_STORE, openDatabase, promisifyRequest } from './database';
+import { validateVideoFile } from './fileValidation';
+
+// 浏览器的实验性接口，类型定义中尚未包含
+type HandlePermissionMode = { mode: 'read' | 'readwrite' };
+
+type PermissionedHandle = FileSystemHandle & {
+  queryPermission?: (descriptor: HandlePermissionMode) => Promise<PermissionState>;
+  requestPermission?: (descriptor: HandlePermissionMode) => Promise<PermissionState>;
+};
+
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values: () => AsyncIterable<FileSystemHandle>;
+};
+
+type FilePickerWindow = Window & {
+  showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  showOpenFilePicker?: (options?: { multiple?: boolean }) => Promise<FileSystemFileHandle[]>;
+};
+
+// folders 表中的记录
+export interface LinkedFolder {
+  collectionId: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+}
+
+// 扫描文件夹得到的媒体文件
+export interface LinkedFileEntry {
+  handle: FileSystemFileHandle;
+  file: File; // 只含文件信息，内容在读取时才从磁盘载入
+  path: string; // 文件夹内的相对路径
+}
+
+const READ_PERMISSION: HandlePermissionMode = { mode: 'read' };
+
+// 用户关闭选择窗口时浏览器抛出 AbortError
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * 当前浏览器能否关联本地文件夹
+ */
+export function isFolderLinkSupported(): boolean {
+  return typeof window !== 'undefined' && typeof (window as FilePickerWindow).showDirectoryPicker === 'function';
+}
+
+/**
+ * 能否为关联的条目重新选择文件
+ */
+export function isFileRelinkSupported(): boolean {
+  return typeof window !== 'undefined' && typeof (window as FilePickerWindow).showOpenFilePicker === 'function';
+}
+
+/**
+ * 选择要关联的文件夹，用户取消时返回 null
+ */
+export async function pickLinkedFolder(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as FilePickerWindow).showDirectoryPicker;
+  if (!picker) return null;
+  try {
+    return await picker({ id: 'linked-folder', mode: 'read' });
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * 选择一个文件重新关联，用户取消时返回 null
+ */
+export async function pickRelinkFile(): Promise<FileSystemFileHandle | null> {
+  const picker = (window as FilePickerWindow).showOpenFilePicker;
+  if (!picker) return null;
+  try {
+    const [handle] = await picker({ multiple: false });
+    return handle ?? null;
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * 递归扫描文件夹中的媒体文件，按路径的自然顺序排列（第2集在第10集前面）
+ */
+export async function scanLinkedFolder(directory: FileSystemDirectoryHandle): Promise<LinkedFileEntry[]> {
+  const entries: LinkedFileEntry[] = [];
+  const walk = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const handle of (dir as IterableDirectoryHandle).values()) {
+      const path = prefix ? `${prefix}/${handle.name}` : handle.name;
+      if (handle.kind === 'directory') {
+        await walk(handle as FileSystemDirectoryHandle, path);
+      } else {
+        const fileHandle = handle as FileSystemFileHandle;
+        const file = await fileHandle.getFile();
+        if (validateVideoFile(file).isValid) {
+          entries.push({ handle: fileHandle, file, path });
+        }
+      }
+    }
+  };
+  await walk(directory, '');
+  return entries.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+}
+
+/**
+ * 是否已有读取权限（不弹窗）；不支持权限接口的浏览器视为已授权
+ */
+export async function hasReadPermission(handle: FileSystemHandle): Promise<boolean> {
+  const query = (handle as PermissionedHandle).queryPermission;
+  if (!query) return true;
+  return (await query.call(handle, READ_PERMISSION)) === 'granted';
+}
+
+/**
+ * 申请读取权限，需要在用户点击等操作中调用
+ */
+export async function requestReadPermission(handle: FileSystemHandle): Promise<boolean> {
+  if (await hasReadPermission(handle)) return true;
+  const request = (handle as PermissionedHandle).requestPermission;
+  if (!request) return false;
+  try {
+    return (await request.call(handle, READ_PERMISSION)) === 'granted';
+  } catch (error) {
+    console.warn('申请文件夹权限失败', error);
+    return false;
+  }
+}
+
+export async function saveLinkedFolder(folder: LinkedFolder): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction([FOLDERS_STORE], 'readwrite').objectStore(FOLDERS_STORE);
+  await promisifyRequest(store.put(folder));
+}
+
+export async function getLinkedFolders(): Promise<LinkedFolder[]> {
+  const db = await openDatabase();
+  const store = db.transaction([FOLDERS_STORE], 'readonly').objectStore(FOLDERS_STORE);
+  return promisifyRequest(store.getAll() as IDBRequest<LinkedFolder[]>);
+}
+
+export async function deleteLinkedFolder(collectionId: string): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction([FOLDERS_STORE], 'readwrite').objectStore(FOLDERS_STORE);
+  await promisifyRequest(store.delete(collectionId));
+}
@@ -0,0 +1,30 @@
+// 媒体时长探测工具函数
+
+/**
+ * 只加载元数据读取音视频时长(秒)，无法读取或超时返回 undefined
+ */
+export function probeMediaDuration(source: Blob | string, timeoutMs: number = 10000): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const isAudio = source instanceof Blob && source.type.startsWith('audio/');
+    const element = document.createElement(isAudio ? 'audio' : 'video');
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      element.removeAttribute('src');
+      element.load();
+      if (typeof source !== 'string') {
+        URL.revokeObjectURL(url);
+      }
+      // 部分流式格式的时长为 Infinity，视为未知
+      resolve(duration && Number.isFinite(duration) && duration > 0 ? Math.round(duration) : undefined);
+    };
+
+    const timer = setTimeout(() => finish(), timeoutMs);
+    element.preload = 'metadata';
+    element.muted = true;
+    element.onloadedmetadata = () => finish(element.duration);
+    element.onerror = () => finish();
+    element.src = url;
+  });
+}
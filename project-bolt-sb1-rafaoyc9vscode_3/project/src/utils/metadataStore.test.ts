@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyPlaylist, VideoFile } from '../types';
+import { RECORD_ORDER, reviveRecordDates, toStoredVideo, validateRecord } from './metadataStore';
+
+const makeVideo = (overrides: Partial<VideoFile> = {}): VideoFile => ({
+  id: 'v1',
+  name: 'v1.mp4',
+  dateAdded: new Date(2026, 2, 1),
+  reviewCount: 1,
+  stage: 'learning',
+  stageHistory: [{ from: 'new', to: 'learning', step: 1, at: new Date(2026, 2, 2), reason: 'play' }],
+  collectionId: 'c1',
+  firstPlayDate: new Date(2026, 2, 2),
+  nextReviewDate: new Date(2026, 2, 3),
+  ...overrides,
+});
+
+// 模拟旧版本 localStorage 和备份文件中的 JSON 数据
+const fromJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('validateRecord', () => {
+  it('accepts complete records', () => {
+    expect(validateRecord('videos', makeVideo())).toBeNull();
+    expect(validateRecord('pauses', { id: 'p1', startDate: new Date(2026, 2, 1) })).toBeNull();
+  });
+
+  it('returns the reason for invalid records', () => {
+    expect(validateRecord('videos', { name: 'v1.mp4' })).toBe('缺少ID');
+    expect(validateRecord('videos', makeVideo({ stage: 'done' as VideoFile['stage'] }))).toBe('生命周期阶段无效');
+    expect(validateRecord('videos', makeVideo({ nextReviewDate: new Date('invalid') }))).toBe('复习日期无效');
+    expect(validateRecord('collections', { id: 'c1', name: '合辑', dateCreated: new Date(2026, 2, 1) })).toBe('启用状态无效');
+  });
+
+  it('rejects dates that were not revived from JSON', () => {
+    expect(validateRecord('videos', fromJson(makeVideo()))).toBe('添加日期无效');
+  });
+});
+
+describe('reviveRecordDates', () => {
+  it('turns date strings back into dates, including the stage history', () => {
+    const video = makeVideo();
+    const revived = reviveRecordDates('videos', fromJson(video));
+    expect(revived).toEqual(video);
+    expect(validateRecord('videos', revived)).toBeNull();
+  });
+
+  it('leaves missing optional dates alone', () => {
+    const revived = reviveRecordDates('pauses', fromJson({ id: 'p1', startDate: new Date(2026, 2, 1) }));
+    expect(revived.startDate).toEqual(new Date(2026, 2, 1));
+    expect(revived).not.toHaveProperty('endDate');
+  });
+});
+
+describe('toStoredVideo', () => {
+  it('drops the file object and its URL', () => {
+    const stored = toStoredVideo(makeVideo({ file: new File(['x'], 'v1.mp4'), fileUrl: 'blob:v1' }));
+    expect(stored).not.toHaveProperty('file');
+    expect(stored).not.toHaveProperty('fileUrl');
+    expect(stored.name).toBe('v1.mp4');
+  });
+});
+
+describe('RECORD_ORDER', () => {
+  it('sorts videos by date added, then episode', () => {
+    const videos = [
+      makeVideo({ id: 'b', episodeNumber: 2 }),
+      makeVideo({ id: 'late', dateAdded: new Date(2026, 2, 5) }),
+      makeVideo({ id: 'a', episodeNumber: 1 }),
+    ];
+    expect(videos.sort(RECORD_ORDER.videos).map(video => video.id)).toEqual(['a', 'b', 'late']);
+  });
+
+  it('puts the newest playlist first', () => {
+    const playlist = (id: string, day: number) => ({ id, date: new Date(2026, 2, day) }) as DailyPlaylist;
+    const playlists = [playlist('old', 1), playlist('new', 5)];
+    expect(playlists.sort(RECORD_ORDER.playlists).map(p => p.id)).toEqual(['new', 'old']);
+  });
+});
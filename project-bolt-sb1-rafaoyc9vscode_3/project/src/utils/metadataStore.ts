@@ -0,0 +1,416 @@
+/**
+ * 学习元数据（条目、播放列表、合辑、暂停记录、设置）的 IndexedDB 存储
+ * 每条记录单独保存，变化时只写入改动的记录；旧版本保存在 localStorage 中的数据按步骤迁移过来
+ */
+import type { AppSettings, Collection, DailyPlaylist, LifecycleStage, PausePeriod, VideoFile } from '../types';
+import {
+  COLLECTIONS_STORE,
+  META_STORE,
+  PAUSES_STORE,
+  PLAYLISTS_STORE,
+  VIDEOS_STORE,
+  openDatabase,
+  getMeta,
+  promisifyRequest,
+  setMeta,
+  waitForTransaction,
+} from './database';
+import { broadcastChange, notifyLocalChange, withWriteLock } from './crossTab';
+import { getEventState } from './eventLog';
+import { getLegacyStage } from './lifecycle';
+import { SETTINGS_KEY } from './settings';
+
+// 已完成的迁移版本，记录在键值数据中
+const SCHEMA_VERSION_KEY = 'metadataSchemaVersion';
+
+// 条目记录不含文件对象和临时地址，媒体文件单独保存在 files 表中
+export type StoredVideo = Omit<VideoFile, 'file' | 'fileUrl'>;
+
+// 各表保存的记录类型
+export interface MetadataRecords {
+  videos: StoredVideo;
+  playlists: DailyPlaylist;
+  collections: Collection;
+  pauses: PausePeriod;
+}
+
+export type MetadataStoreName = keyof MetadataRecords;
+
+// 内存中的对象：条目带文件对象和地址，保存时去掉
+export type MetadataItems = Omit<MetadataRecords, 'videos'> & { videos: VideoFile };
+
+const METADATA_STORES: MetadataStoreName[] = [VIDEOS_STORE, PLAYLISTS_STORE, COLLECTIONS_STORE, PAUSES_STORE];
+
+// 各表记录在内存中的顺序：播放列表最新的在前，其余按创建先后；数据库按 ID 返回，加载后重新排序
+export const RECORD_ORDER: { [K in MetadataStoreName]: (a: MetadataRecords[K], b: MetadataRecords[K]) => number } = {
+  videos: (a, b) =>
+    a.dateAdded.getTime() - b.dateAdded.getTime()
+    || (a.episodeNumber ?? Number.MAX_SAFE_INTEGER) - (b.episodeNumber ?? Number.MAX_SAFE_INTEGER)
+    || a.name.localeCompare(b.name)
+    || a.id.localeCompare(b.id),
+  playlists: (a, b) => b.date.getTime() - a.date.getTime() || a.id.localeCompare(b.id),
+  collections: (a, b) => a.dateCreated.getTime() - b.dateCreated.getTime() || a.id.localeCompare(b.id),
+  pauses: (a, b) => a.startDate.getTime() - b.startDate.getTime() || a.id.localeCompare(b.id),
+};
+
+// 加载时未通过校验的记录，保留在数据库中不做改动
+export interface InvalidRecord {
+  store: MetadataStoreName;
+  id?: string;
+  reason: string;
+}
+
+export interface MetadataSnapshot {
+  videos: StoredVideo[];
+  playlists: DailyPlaylist[];
+  collections: Collection[];
+  pauses: PausePeriod[];
+  settings?: Partial<AppSettings>;
+  invalidRecords: InvalidRecord[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null;
+
+const isValidDate = (value: unknown): value is Date =>
+  value instanceof Date && !isNaN(value.getTime());
+
+const isOptionalDate = (value: unknown) => value === undefined || isValidDate(value);
+
+const LIFECYCLE_STAGES: LifecycleStage[] = ['new', 'learning', 'relearning', 'suspended', 'graduated', 'maintenance'];
+const PLAYLIST_TYPES: DailyPlaylist['playlistType'][] = ['new', 'review', 'cram'];
+
+// 校验函数：通过返回 null，否则返回原因
+const VALIDATORS: { [K in MetadataStoreName]: (record: UnknownRecord) => string | null } = {
+  videos: record => {
+    if (typeof record.name !== 'string') return '缺少名称';
+    if (typeof record.collectionId !== 'string') return '缺少所属合辑';
+    if (!isValidDate(record.dateAdded)) return '添加日期无效';
+    if (typeof record.reviewCount !== 'number') return '复习次数无效';
+    if (!LIFECYCLE_STAGES.includes(record.stage as LifecycleStage)) return '生命周期阶段无效';
+    if (!Array.isArray(record.stageHistory)) return '阶段记录无效';
+    if (![record.firstPlayDate, record.lastReviewDate, record.nextReviewDate, record.backlogSince].every(isOptionalDate)) {
+      return '复习日期无效';
+    }
+    return null;
+  },
+  playlists: record => {
+    if (!isValidDate(record.date)) return '日期无效';
+    if (!Array.isArray(record.items) || !record.items.every(item => isRecord(item) && typeof item.videoId === 'string')) {
+      return '播放项无效';
+    }
+    if (typeof record.lastPlayedIndex !== 'number') return '播放进度无效';
+    if (!PLAYLIST_TYPES.includes(record.playlistType as DailyPlaylist['playlistType'])) return '列表类型无效';
+    return null;
+  },
+  collections: record => {
+    if (typeof record.name !== 'string') return '缺少名称';
+    if (!isValidDate(record.dateCreated)) return '创建日期无效';
+    if (typeof record.isActive !== 'boolean') return '启用状态无效';
+    return null;
+  },
+  pauses: record => {
+    if (!isValidDate(record.startDate)) return '开始日期无效';
+    if (!isOptionalDate(record.endDate)) return '结束日期无效';
+    return null;
+  },
+};
+
+/**
+ * 校验一条记录，通过返回 null，否则返回原因
+ */
+export function validateRecord(storeName: MetadataStoreName, record: unknown): string | null {
+  if (!isRecord(record) || typeof record.id !== 'string') return '缺少ID';
+  return VALIDATORS[storeName](record);
+}
+
+// 条目的调度状态是否相同
+const isSameSchedule = (a: StoredVideo, b: StoredVideo) =>
+  JSON.stringify(getEventState(a)) === JSON.stringify(getEventState(b));
+
+// 写入时数据库中的记录已被其他标签页改过（与本页上次写入的不同）：返回实际写入的记录，返回数据库中的记录表示放弃写入
+const CONFLICT_RESOLVERS: {
+  [K in MetadataStoreName]?: (stored: MetadataRecords[K], previous: MetadataRecords[K], next: MetadataRecords[K]) => MetadataRecords[K];
+} = {
+  // 其他标签页复习过：本页没改调度状态时只合入其他字段，两边都改了保留复习时间较晚的一方
+  videos: (stored, previous, next) => {
+    if (isSameSchedule(stored, previous)) return next;
+    if (isSameSchedule(next, previous)) {
+      return { ...next, ...getEventState(stored), stageHistory: stored.stageHistory };
+    }
+    return (stored.lastReviewDate?.getTime() ?? 0) > (next.lastReviewDate?.getTime() ?? 0) ? stored : next;
+  },
+  // 其他标签页推进了播放进度：本页的进度更落后时不覆盖
+  playlists: (stored, previous, next) => {
+    if (stored.lastPlayedIndex === previous.lastPlayedIndex && stored.isCompleted === previous.isCompleted) return next;
+    const isBehind = (stored.isCompleted && !next.isCompleted) || stored.lastPlayedIndex > next.lastPlayedIndex;
+    return isBehind ? stored : next;
+  },
+};
+
+/**
+ * 去掉条目中不保存的文件对象和临时地址
+ */
+export function toStoredVideo(video: VideoFile): StoredVideo {
+  const stored: Partial<VideoFile> = { ...video };
+  delete stored.file;
+  delete stored.fileUrl;
+  return stored as StoredVideo;
+}
+
+// ===== 从 localStorage 迁移 =====
+
+// 旧版本的 localStorage 键名
+const LEGACY_KEYS: Record<MetadataStoreName, string> = {
+  videos: 'videos',
+  playlists: 'playlists',
+  collections: 'collections',
+  pauses: 'pauses',
+};
+
+// 以 ISO 字符串保存的日期字段（旧版本的 localStorage 和备份文件）
+const DATE_FIELDS: Record<MetadataStoreName, string[]> = {
+  videos: ['dateAdded', 'firstPlayDate', 'lastReviewDate', 'nextReviewDate', 'backlogSince'],
+  playlists: ['date'],
+  collections: ['dateCreated'],
+  pauses: ['startDate', 'endDate'],
+};
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (error) {
+    console.error(`读取旧数据 "${key}" 失败`, error);
+    return undefined;
+  }
+};
+
+const reviveDates = (record: UnknownRecord, fields: string[]): UnknownRecord => {
+  const revived = { ...record };
+  fields.forEach(field => {
+    if (typeof revived[field] === 'string') {
+      revived[field] = new Date(revived[field] as string);
+    }
+  });
+  return revived;
+};
+
+/**
+ * 把 JSON 中的日期字符串转回 Date，条目的阶段记录一并处理
+ */
+export function reviveRecordDates(storeName: MetadataStoreName, record: UnknownRecord): UnknownRecord {
+  const revived = reviveDates(record, DATE_FIELDS[storeName]);
+  if (storeName === VIDEOS_STORE && Array.isArray(revived.stageHistory)) {
+    revived.stageHistory = revived.stageHistory.map(transition =>
+      isRecord(transition) ? reviveDates(transition, ['at']) : transition
+    );
+  }
+  return revived;
+}
+
+// 1：把 localStorage 中的 JSON 数组逐条写入各表，日期字符串转为 Date
+const importLegacyLocalStorage = (transaction: IDBTransaction) => {
+  METADATA_STORES.forEach(storeName => {
+    const legacy = readLegacyJson(LEGACY_KEYS[storeName]);
+    if (!Array.isArray(legacy)) return;
+    const store = transaction.objectStore(storeName);
+    legacy
+      // 没有ID的记录无法按主键保存，旧版本中也无法使用
+      .filter((record): record is UnknownRecord => isRecord(record) && typeof record.id === 'string')
+      .forEach(record => store.put(reviveRecordDates(storeName, record)));
+  });
+
+  const legacySettings = readLegacyJson(SETTINGS_KEY);
+  if (isRecord(legacySettings)) {
+    transaction.objectStore(META_STORE).put(legacySettings, SETTINGS_KEY);
+  }
+};
+
+const removeLegacyLocalStorage = () => {
+  [...Object.values(LEGACY_KEYS), SETTINGS_KEY].forEach(key => window.localStorage.removeItem(key));
+};
+
+// 2：旧版本只有 status 字段的条目换算为生命周期阶段，去掉已失效的文件对象和临时地址
+const normalizeLegacyVideos = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  const request = transaction.objectStore(VIDEOS_STORE).openCursor();
+  request.onerror = () => reject(request.error);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      resolve();
+      return;
+    }
+    if (isRecord(cursor.value)) {
+      const { status, ...video } = cursor.value;
+      delete video.file;
+      delete video.fileUrl;
+      cursor.update({
+        ...video,
+        stage: video.stage ?? getLegacyStage(typeof status === 'string' ? status : undefined, Number(video.reviewCount) || 0),
+        stageHistory: video.stageHistory ?? [],
+      });
+    }
+    cursor.continue();
+  };
+});
+
+interface MetadataMigration {
+  version: number;
+  migrate: (transaction: IDBTransaction) => void | Promise<void>;
+  afterCommit?: () => void; // 事务提交后执行，用于清理旧数据
+}
+
+// 元数据格式的迁移步骤，按版本顺序执行；每一步在单独的事务中完成并记录版本，中途失败时整步回滚
+const MIGRATIONS: MetadataMigration[] = [
+  { version: 1, migrate: importLegacyLocalStorage, afterCommit: removeLegacyLocalStorage },
+  { version: 2, migrate: normalizeLegacyVideos },
+];
+
+class MetadataStore {
+  private migrating: Promise<void> | null = null;
+
+  // 执行尚未完成的迁移，多次调用共用同一次迁移
+  migrate(): Promise<void> {
+    if (!this.migrating) {
+      this.migrating = this.runMigrations().catch(error => {
+        this.migrating = null;
+        throw error;
+      });
+    }
+    return this.migrating;
+  }
+
+  private async runMigrations(): Promise<void> {
+    for (const migration of MIGRATIONS) {
+      await this.runMigration(migration);
+    }
+  }
+
+  private async runMigration(migration: MetadataMigration): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([...METADATA_STORES, META_STORE], 'readwrite');
+    const committed = waitForTransaction(transaction);
+    const meta = transaction.objectStore(META_STORE);
+    // 在同一事务中读取版本，多个标签页同时打开时只会执行一次
+    const version = (await promisifyRequest(meta.get(SCHEMA_VERSION_KEY) as IDBRequest<number | undefined>)) ?? 0;
+    if (version >= migration.version) {
+      await committed;
+      return;
+    }
+    try {
+      await migration.migrate(transaction);
+      meta.put(migration.version, SCHEMA_VERSION_KEY);
+    } catch (error) {
+      transaction.abort();
+      await committed.catch(() => undefined);
+      throw error;
+    }
+    await committed;
+    migration.afterCommit?.();
+  }
+
+  // 读取全部元数据，未通过校验的记录跳过并列出
+  async load(): Promise<MetadataSnapshot> {
+    await this.migrate();
+    const db = await openDatabase();
+    const transaction = db.transaction([...METADATA_STORES, META_STORE], 'readonly');
+    const invalidRecords: InvalidRecord[] = [];
+
+    const readStore = async <K extends MetadataStoreName>(storeName: K): Promise<MetadataRecords[K][]> => {
+      const records = await promisifyRequest(transaction.objectStore(storeName).getAll());
+      return records.filter(record => {
+        const reason = validateRecord(storeName, record);
+        if (reason) {
+          invalidRecords.push({ store: storeName, id: isRecord(record) && typeof record.id === 'string' ? record.id : undefined, reason });
+        }
+        return !reason;
+      }).sort(RECORD_ORDER[storeName]);
+    };
+
+    const [videos, playlists, collections, pauses, settings] = await Promise.all([
+      readStore(VIDEOS_STORE),
+      readStore(PLAYLISTS_STORE),
+      readStore(COLLECTIONS_STORE),
+      readStore(PAUSES_STORE),
+      promisifyRequest(transaction.objectStore(META_STORE).get(SETTINGS_KEY) as IDBRequest<Partial<AppSettings> | undefined>),
+    ]);
+    return { videos, playlists, collections, pauses, settings, invalidRecords };
+  }
+
+  // 读取其他标签页改动过的记录，已不存在或未通过校验的不返回
+  async loadRecords<K extends MetadataStoreName>(storeName: K, ids: string[]): Promise<MetadataRecords[K][]> {
+    if (ids.length === 0) return [];
+    const db = await openDatabase();
+    const store = db.transaction([storeName], 'readonly').objectStore(storeName);
+    const records = await Promise.all(ids.map(id => promisifyRequest(store.get(id) as IDBRequest<unknown>)));
+    return records.filter((record): record is MetadataRecords[K] => record !== undefined && !validateRecord(storeName, record));
+  }
+
+  async loadSettings(): Promise<Partial<AppSettings> | undefined> {
+    return getMeta<Partial<AppSettings>>(SETTINGS_KEY);
+  }
+
+  // 对比前后两个数组，只写入新增或变化（引用不同）的记录，删除移除的记录；写入后通知其他标签页。
+  // 写入前在锁内读取数据库中的记录，已被其他标签页更新的按 CONFLICT_RESOLVERS 合并或放弃，并让本页重新读取
+  async saveChanges<K extends MetadataStoreName>(
+    storeName: K,
+    previous: MetadataItems[K][],
+    next: MetadataItems[K][]
+  ): Promise<void> {
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    const changed = next.filter(item => previousById.get(item.id) !== item);
+    const removed = previous.filter(item => !nextIds.has(item.id));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const toRecord = (item: MetadataItems[K]) =>
+      (storeName === VIDEOS_STORE ? toStoredVideo(item as VideoFile) : item) as MetadataRecords[K];
+    const resolve = CONFLICT_RESOLVERS[storeName] as
+      | ((stored: MetadataRecords[K], previous: MetadataRecords[K], next: MetadataRecords[K]) => MetadataRecords[K])
+      | undefined;
+    // 写入的记录和与本页内存不一致（合并过或放弃写入）的记录
+    const written: string[] = [];
+    const conflicted: string[] = [];
+
+    await withWriteLock(async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      const storedRecords = resolve
+        ? await Promise.all(changed.map(item =>
+          previousById.has(item.id) ? promisifyRequest(store.get(item.id) as IDBRequest<MetadataRecords[K] | undefined>) : undefined))
+        : [];
+      changed.forEach((item, index) => {
+        const next = toRecord(item);
+        const stored = storedRecords[index];
+        const base = previousById.get(item.id);
+        const record = resolve && stored && base ? resolve(stored, toRecord(base), next) : next;
+        if (record !== next) conflicted.push(item.id);
+        if (record === stored) return;
+        store.put(record);
+        written.push(item.id);
+      });
+      removed.forEach(item => store.delete(item.id));
+      await waitForTransaction(transaction);
+    });
+    broadcastChange({
+      type: 'records',
+      store: storeName,
+      put: written,
+      deleted: removed.map(item => item.id),
+    });
+    if (conflicted.length > 0) {
+      notifyLocalChange({ type: 'records', store: storeName, put: conflicted, deleted: [] });
+    }
+  }
+
+  async saveSettings(settings: AppSettings): Promise<void> {
+    await setMeta(SETTINGS_KEY, settings);
+    broadcastChange({ type: 'settings' });
+  }
+}
+
+export const metadataStore = new MetadataStore();
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyPlaylist, PlaylistItem } from '../types';
+import { isItemCreditable, mergeItemOutcome } from './playlistOutcome';
+
+const makePlaylist = (items: PlaylistItem[], lastPlayedIndex = 0): DailyPlaylist => ({
+  id: 'p1',
+  date: new Date(2026, 2, 10),
+  items,
+  isCompleted: false,
+  lastPlayedIndex,
+  isExtraSession: false,
+  playlistType: 'review',
+});
+
+const makeItem = (overrides: Partial<PlaylistItem> = {}): PlaylistItem => ({
+  videoId: 'v1',
+  reviewType: 'review',
+  reviewNumber: 2,
+  ...overrides,
+});
+
+describe('mergeItemOutcome', () => {
+  it('never lowers the watched percentage or seconds', () => {
+    const previous = { watchedPercent: 80, watchedSeconds: 240 };
+    expect(mergeItemOutcome(previous, { watchedPercent: 30, watchedSeconds: 90 })).toMatchObject({
+      watchedPercent: 80,
+      watchedSeconds: 240,
+    });
+  });
+
+  it('keeps an item credited once it has been credited', () => {
+    const merged = mergeItemOutcome({ watchedPercent: 100, credited: true }, { watchedPercent: 20, credited: false });
+    expect(merged.credited).toBe(true);
+  });
+
+  it('starts from nothing for the first outcome', () => {
+    expect(mergeItemOutcome(undefined, { skipped: true, mode: 'audio' })).toMatchObject({
+      watchedPercent: 0,
+      skipped: true,
+      mode: 'audio',
+    });
+  });
+});
+
+describe('isItemCreditable', () => {
+  it('credits items watched past the threshold', () => {
+    const item = makeItem({ outcome: { watchedPercent: 85 } });
+    expect(isItemCreditable(item, 0, makePlaylist([item]), 80)).toBe(true);
+    expect(isItemCreditable(item, 0, makePlaylist([item]), 90)).toBe(false);
+  });
+
+  it('does not credit missing or already credited items', () => {
+    const missing = makeItem({ outcome: { watchedPercent: 100, missing: true } });
+    const credited = makeItem({ outcome: { watchedPercent: 100, credited: true } });
+    expect(isItemCreditable(missing, 0, makePlaylist([missing]), 80)).toBe(false);
+    expect(isItemCreditable(credited, 0, makePlaylist([credited]), 80)).toBe(false);
+  });
+
+  it('treats items before the last played index of old playlists as watched', () => {
+    const items = [makeItem(), makeItem({ videoId: 'v2' })];
+    const playlist = makePlaylist(items, 1);
+    expect(isItemCreditable(items[0], 0, playlist, 80)).toBe(true);
+    expect(isItemCreditable(items[1], 1, playlist, 80)).toBe(false);
+  });
+});
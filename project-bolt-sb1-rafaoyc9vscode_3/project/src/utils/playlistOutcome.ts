@@ -0,0 +1,30 @@
+// 播放列表逐项播放结果相关工具函数
+import type { DailyPlaylist, PlaylistItem, PlaylistItemOutcome } from '../types';
+
+/**
+ * 合并一次新的播放结果：观看比例只增不减，已计入的标记不会被清除
+ */
+export function mergeItemOutcome(
+  previous: PlaylistItemOutcome | undefined,
+  next: Partial<PlaylistItemOutcome>
+): PlaylistItemOutcome {
+  return {
+    watchedPercent: Math.max(previous?.watchedPercent ?? 0, next.watchedPercent ?? 0),
+    skipped: next.skipped ?? previous?.skipped,
+    missing: next.missing ?? previous?.missing,
+    credited: previous?.credited || next.credited,
+    watchedSeconds: Math.max(previous?.watchedSeconds ?? 0, next.watchedSeconds ?? 0),
+    mode: next.mode ?? previous?.mode,
+  };
+}
+
+/**
+ * 该项是否应计入调度：未计入过、文件未缺失、观看比例达到阈值
+ * 旧版本生成的播放列表没有播放结果，已播放过的位置（lastPlayedIndex 之前）按看完处理
+ */
+export function isItemCreditable(item: PlaylistItem, index: number, playlist: DailyPlaylist, watchThreshold: number): boolean {
+  const { outcome } = item;
+  if (!outcome) return index < playlist.lastPlayedIndex;
+  if (outcome.credited || outcome.missing) return false;
+  return outcome.watchedPercent >= watchThreshold;
+}
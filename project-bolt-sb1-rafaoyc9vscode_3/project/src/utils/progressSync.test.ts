@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { Collection, VideoFile } from '../types';
+import { getEventState } from './eventLog';
+import {
+  ProgressFile,
+  ProgressItem,
+  buildProgressFile,
+  decodeProgressChunks,
+  encodeProgressChunks,
+  parseProgressChunk,
+  parseProgressFile,
+  planProgressMerge,
+} from './progressSync';
+
+const day = (value: number) => new Date(2026, 0, value);
+
+const collection: Collection = {
+  id: 'c1',
+  name: '英语',
+  dateCreated: day(1),
+  isActive: true,
+  totalVideos: 0,
+  completedVideos: 0,
+  color: '#000000',
+};
+
+const makeVideo = (id: string, overrides: Partial<VideoFile> = {}): VideoFile => ({
+  id,
+  name: `${id}.mp4`,
+  dateAdded: day(1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+  ...overrides,
+});
+
+const learned = (reviewCount: number): Partial<VideoFile> => ({
+  reviewCount,
+  stage: 'learning',
+  firstPlayDate: day(2),
+  lastReviewDate: day(2 + reviewCount),
+  nextReviewDate: day(10 + reviewCount),
+  intervalDays: reviewCount * 2,
+});
+
+const remoteItem = (video: VideoFile, updatedAt: Date, state: Partial<VideoFile>): ProgressItem => ({
+  fingerprint: video.fingerprint,
+  name: video.name,
+  collectionName: '英语',
+  size: video.fileSize,
+  updatedAt,
+  state: getEventState({ ...video, ...state }),
+});
+
+const toFile = (items: ProgressItem[]): ProgressFile => ({
+  format: 'video-learning-progress',
+  version: 1,
+  createdAt: day(10),
+  items,
+});
+
+describe('buildProgressFile / parseProgressFile', () => {
+  it('exports only items with progress and reads them back', () => {
+    const video = makeVideo('a', { ...learned(2), fingerprint: 'fa', fileSize: 100 });
+    const file = buildProgressFile([video, makeVideo('b')], [collection], new Map(), new Map([['a', day(4)]]));
+    expect(file.items).toHaveLength(1);
+
+    const parsed = parseProgressFile(JSON.stringify(file));
+    expect(parsed.items).toEqual([{
+      fingerprint: 'fa',
+      name: 'a.mp4',
+      collectionName: '英语',
+      size: 100,
+      updatedAt: day(4),
+      state: { ...getEventState(video), stageHistory: [] },
+    }]);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseProgressFile('{')).toThrow('进度文件已损坏');
+    expect(() => parseProgressFile('{"format":"other","version":1,"items":[]}')).toThrow('不是本应用导出的进度文件');
+    expect(() => parseProgressFile(JSON.stringify({ ...toFile([]), version: 2 }))).toThrow('更新版本');
+  });
+});
+
+describe('planProgressMerge', () => {
+  it('applies newer progress and keeps newer local progress', () => {
+    const fresh = makeVideo('fresh', { fingerprint: 'f1' });
+    const ahead = makeVideo('ahead', { ...learned(3), fileSize: 100 });
+    const file = toFile([
+      remoteItem(fresh, day(5), learned(2)),
+      remoteItem(ahead, day(6), learned(2)),
+    ]);
+    const { updates, report } = planProgressMerge(file, [fresh, ahead], [collection], new Map(), new Map([['ahead', day(8)]]));
+    expect(updates).toEqual([{ videoId: 'fresh', state: file.items[0].state, updatedAt: day(5) }]);
+    expect(report.applied.map(entry => entry.video?.id)).toEqual(['fresh']);
+    expect(report.keptLocal.map(entry => entry.video?.id)).toEqual(['ahead']);
+  });
+
+  it('reports a conflict when the newer side would drop reviews', () => {
+    const video = makeVideo('v1', learned(3));
+    const file = toFile([remoteItem(video, day(9), learned(2))]);
+    const { updates, report } = planProgressMerge(file, [video], [collection], new Map(), new Map([['v1', day(5)]]));
+    expect(report.conflicts).toMatchObject([{ winner: 'remote', video: { id: 'v1' } }]);
+    expect(updates).toHaveLength(1);
+  });
+
+  it('counts unchanged, unmatched and ambiguous items', () => {
+    const same = makeVideo('same', learned(2));
+    const duplicates = [makeVideo('d1', { name: 'dup.mp4' }), makeVideo('d2', { name: 'dup.mp4' })];
+    const file = toFile([
+      remoteItem(same, day(9), learned(2)),
+      remoteItem(makeVideo('elsewhere'), day(9), learned(1)),
+      remoteItem(duplicates[0], day(9), learned(1)),
+    ]);
+    const { updates, report } = planProgressMerge(file, [same, ...duplicates], [collection], new Map(), new Map());
+    expect(updates).toEqual([]);
+    expect(report.unchanged).toBe(1);
+    expect(report.unmatched.map(entry => entry.item.name)).toEqual(['elsewhere.mp4']);
+    expect(report.ambiguous.map(entry => entry.item.name)).toEqual(['dup.mp4']);
+  });
+});
+
+describe('progress QR chunks', () => {
+  it('splits the file into chunks and puts it back together in any order', async () => {
+    // 指纹各不相同，压缩后仍需要多段
+    let seed = 1;
+    const randomHex = () => Array.from({ length: 32 }, () => {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      return ((seed >>> 16) & 15).toString(16);
+    }).join('');
+    const items = Array.from({ length: 80 }, (_, i) =>
+      remoteItem(makeVideo(`第${i + 1}集`, { fingerprint: randomHex() }), day(5), learned(2))
+    );
+    const file = toFile(items);
+    const chunks = (await encodeProgressChunks(file)).map(text => parseProgressChunk(text)!);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.total === chunks.length && chunk.setId === chunks[0].setId)).toBe(true);
+
+    const decoded = await decodeProgressChunks([...chunks].reverse());
+    expect(decoded.items).toEqual(parseProgressFile(JSON.stringify(file)).items);
+  });
+
+  it('ignores QR codes that are not progress chunks', () => {
+    expect(parseProgressChunk('https://example.com')).toBeNull();
+    expect(parseProgressChunk('VLP1|abc|3|2|g|data')).toBeNull();
+    expect(parseProgressChunk('VLP1|abc|1|2|x|data')).toBeNull();
+  });
+});
@@ -0,0 +1,318 @@
+// 学习进度同步相关工具函数：只导出调度状态不含媒体，在另一台设备上按条目合并
+import type { Collection, ReviewEvent, ReviewEventState, VideoFile } from '../types';
+import { completeEventState, getEventState, reviewEventLog } from './eventLog';
+import { reviveRecordDates } from './metadataStore';
+import { fileStorage } from '../hooks/useLocalStorage';
+
+export const PROGRESS_FORMAT = 'video-learning-progress';
+export const PROGRESS_EXTENSION = '.vlprogress.json';
+// 进度文件格式版本，结构改变时递增
+export const PROGRESS_VERSION = 1;
+
+// 一个条目的进度，另一台设备用指纹或“合辑名 + 文件名 + 大小”找到对应条目
+export interface ProgressItem {
+  fingerprint?: string;
+  name: string;
+  collectionName: string;
+  size?: number;
+  updatedAt: Date; // 最近一次改变调度状态的时间
+  state: ReviewEventState;
+}
+
+export interface ProgressFile {
+  format: typeof PROGRESS_FORMAT;
+  version: number;
+  createdAt: Date;
+  items: ProgressItem[];
+}
+
+// 合并结果中的一项
+export interface ProgressMergeEntry {
+  item: ProgressItem;
+  video?: VideoFile;
+  localUpdatedAt?: Date;
+}
+
+// 合并报告：冲突指双方各有对方没有的复习，按时间较新的一方为准
+export interface ProgressMergeReport {
+  applied: ProgressMergeEntry[]; // 采用导入的进度
+  conflicts: (ProgressMergeEntry & { winner: 'local' | 'remote' })[];
+  keptLocal: ProgressMergeEntry[]; // 本机的进度更新，保持不变
+  unchanged: number;
+  unmatched: ProgressMergeEntry[]; // 本机找不到对应条目
+  ambiguous: ProgressMergeEntry[]; // 本机有多个条目都可能对应，不自动合并
+}
+
+// 要写入的新状态
+export interface ProgressUpdate {
+  videoId: string;
+  state: ReviewEventState;
+  updatedAt: Date;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null;
+
+const hasProgress = (state: ReviewEventState) => state.reviewCount > 0 || state.stage !== 'new';
+
+/**
+ * 每个条目最近一次学习事件的时间
+ */
+export function getLastChangeTimes(events: ReviewEvent[]): Map<string, Date> {
+  const times = new Map<string, Date>();
+  events.forEach(event => {
+    const current = times.get(event.videoId);
+    if (!current || event.timestamp > current) times.set(event.videoId, event.timestamp);
+  });
+  return times;
+}
+
+// 没有事件的旧条目退回到最近复习时间或添加时间
+const getUpdatedAt = (video: VideoFile, lastChange: Map<string, Date>) =>
+  lastChange.get(video.id) ?? video.lastReviewDate ?? video.dateAdded;
+
+/**
+ * 生成进度文件，只包含有学习进度的条目
+ */
+export function buildProgressFile(
+  videos: VideoFile[],
+  collections: Collection[],
+  sizes: Map<string, number>,
+  lastChange: Map<string, Date>
+): ProgressFile {
+  const collectionNames = new Map(collections.map(collection => [collection.id, collection.name]));
+  const items = videos
+    .filter(video => hasProgress(video))
+    .map(video => ({
+      fingerprint: video.fingerprint,
+      name: video.name,
+      collectionName: collectionNames.get(video.collectionId) ?? '',
+      size: sizes.get(video.id) ?? video.fileSize,
+      updatedAt: getUpdatedAt(video, lastChange),
+      state: { ...getEventState(video), stageHistory: video.stageHistory },
+    }));
+  return { format: PROGRESS_FORMAT, version: PROGRESS_VERSION, createdAt: new Date(), items };
+}
+
+/**
+ * 读取本机数据生成进度文件
+ */
+export async function collectProgress(videos: VideoFile[], collections: Collection[]): Promise<ProgressFile> {
+  const [events, files] = await Promise.all([reviewEventLog.getAll(), fileStorage.listFiles()]);
+  return buildProgressFile(videos, collections, new Map(files.map(file => [file.id, file.size])), getLastChangeTimes(events));
+}
+
+/**
+ * 把进度文件转成可分享的文件
+ */
+export function toProgressShareFile(file: ProgressFile): File {
+  const date = file.createdAt;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const name = `学习进度-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}${PROGRESS_EXTENSION}`;
+  return new File([JSON.stringify(file)], name, { type: 'application/json' });
+}
+
+/**
+ * 能否用系统分享发送进度文件（通常在手机和平板上可用）
+ */
+export function canShareProgressFile(file: File): boolean {
+  return typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] });
+}
+
+/**
+ * 下载进度文件
+ */
+export function downloadProgressFile(file: File): void {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+/**
+ * 解析进度文件，格式或版本不对时抛出错误，无效的条目跳过
+ */
+export function parseProgressFile(text: string): ProgressFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('进度文件已损坏');
+  }
+  if (!isRecord(raw) || raw.format !== PROGRESS_FORMAT || typeof raw.version !== 'number' || !Array.isArray(raw.items)) {
+    throw new Error('不是本应用导出的进度文件');
+  }
+  if (raw.version > PROGRESS_VERSION) throw new Error('这个进度文件来自更新版本的应用，请先更新后再导入');
+
+  const items = raw.items.flatMap((item): ProgressItem[] => {
+    if (!isRecord(item) || typeof item.name !== 'string' || !isRecord(item.state) || typeof item.updatedAt !== 'string') return [];
+    const revived = reviveRecordDates('videos', item.state) as unknown as ReviewEventState;
+    const updatedAt = new Date(item.updatedAt);
+    if (typeof revived.reviewCount !== 'number' || typeof revived.stage !== 'string' || isNaN(updatedAt.getTime())) return [];
+    // JSON 中省略了值为空的字段，逐项取出，合并时这些字段会被清空而不是保留本机的值
+    const state = completeEventState(revived);
+    return [{
+      fingerprint: typeof item.fingerprint === 'string' ? item.fingerprint : undefined,
+      name: item.name,
+      collectionName: typeof item.collectionName === 'string' ? item.collectionName : '',
+      size: typeof item.size === 'number' ? item.size : undefined,
+      updatedAt,
+      state,
+    }];
+  });
+  return { format: PROGRESS_FORMAT, version: raw.version, createdAt: new Date(String(raw.createdAt)), items };
+}
+
+// 比较两个调度状态是否相同（阶段记录只比较条数）
+const sameState = (a: ReviewEventState, b: ReviewEventState) =>
+  a.reviewCount === b.reviewCount
+  && a.stage === b.stage
+  && a.nextReviewDate?.getTime() === b.nextReviewDate?.getTime()
+  && a.intervalDays === b.intervalDays
+  && a.easeFactor === b.easeFactor
+  && a.lapses === b.lapses
+  && (a.stageHistory?.length ?? 0) === (b.stageHistory?.length ?? 0);
+
+const matchKey = (collectionName: string, name: string, size?: number) => `${collectionName}\u0000${name}\u0000${size ?? ''}`;
+
+/**
+ * 计划合并：先按指纹、再按“合辑名 + 文件名 + 大小”匹配，双方都有改动时以较新的为准
+ */
+export function planProgressMerge(
+  file: ProgressFile,
+  videos: VideoFile[],
+  collections: Collection[],
+  sizes: Map<string, number>,
+  lastChange: Map<string, Date>
+): { updates: ProgressUpdate[]; report: ProgressMergeReport } {
+  const collectionNames = new Map(collections.map(collection => [collection.id, collection.name]));
+  const byFingerprint = new Map<string, VideoFile[]>();
+  const byKey = new Map<string, VideoFile[]>();
+  const push = (map: Map<string, VideoFile[]>, key: string, video: VideoFile) => map.set(key, [...(map.get(key) ?? []), video]);
+  videos.forEach(video => {
+    if (video.fingerprint) push(byFingerprint, video.fingerprint, video);
+    const size = sizes.get(video.id) ?? video.fileSize;
+    push(byKey, matchKey(collectionNames.get(video.collectionId) ?? '', video.name, size), video);
+  });
+
+  const report: ProgressMergeReport = { applied: [], conflicts: [], keptLocal: [], unchanged: 0, unmatched: [], ambiguous: [] };
+  const updates: ProgressUpdate[] = [];
+
+  file.items.forEach(item => {
+    const candidates = (item.fingerprint && byFingerprint.get(item.fingerprint))
+      || byKey.get(matchKey(item.collectionName, item.name, item.size))
+      || [];
+    if (candidates.length === 0) {
+      report.unmatched.push({ item });
+      return;
+    }
+    if (candidates.length > 1) {
+      report.ambiguous.push({ item });
+      return;
+    }
+
+    const video = candidates[0];
+    const local = getEventState(video);
+    const localUpdatedAt = getUpdatedAt(video, lastChange);
+    const entry = { item, video, localUpdatedAt };
+    if (sameState(local, item.state)) {
+      report.unchanged++;
+      return;
+    }
+
+    const remoteNewer = item.updatedAt > localUpdatedAt;
+    const winner = remoteNewer ? item.state : local;
+    const loser = remoteNewer ? local : item.state;
+    // 较旧的一方复习次数更多，说明双方各自学过，较新一方会覆盖这些复习
+    const diverged = hasProgress(local) && loser.reviewCount > winner.reviewCount;
+    if (diverged) {
+      report.conflicts.push({ ...entry, winner: remoteNewer ? 'remote' : 'local' });
+    } else if (remoteNewer) {
+      report.applied.push(entry);
+    } else {
+      report.keptLocal.push(entry);
+    }
+    if (remoteNewer) updates.push({ videoId: video.id, state: item.state, updatedAt: item.updatedAt });
+  });
+
+  return { updates, report };
+}
+
+/**
+ * 读取本机数据后计划合并
+ */
+export async function prepareProgressMerge(file: ProgressFile, videos: VideoFile[], collections: Collection[]) {
+  const [events, files] = await Promise.all([reviewEventLog.getAll(), fileStorage.listFiles()]);
+  return planProgressMerge(file, videos, collections, new Map(files.map(f => [f.id, f.size])), getLastChangeTimes(events));
+}
+
+// ===== 二维码分段 =====
+
+// 分段格式：VLP1|分组ID|序号|总数|编码|数据，编码 g 为 gzip 压缩，p 为未压缩，数据均为 base64
+const CHUNK_PREFIX = 'VLP1';
+// 每段数据的字符数，生成的二维码约为 20 版，手机屏幕上仍易于识别
+const CHUNK_DATA_LENGTH = 800;
+
+export interface ProgressChunk {
+  setId: string;
+  index: number; // 从 1 开始
+  total: number;
+  encoding: 'g' | 'p';
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * 把进度文件切成二维码分段；支持时先压缩
+ */
+export async function encodeProgressChunks(file: ProgressFile): Promise<string[]> {
+  const json = new TextEncoder().encode(JSON.stringify(file));
+  const canCompress = typeof CompressionStream !== 'undefined';
+  const payload = toBase64(canCompress ? await transformBytes(json, new CompressionStream('gzip')) : json);
+  const setId = Math.random().toString(36).slice(2, 8);
+  const total = Math.max(1, Math.ceil(payload.length / CHUNK_DATA_LENGTH));
+  return Array.from({ length: total }, (_, i) =>
+    [CHUNK_PREFIX, setId, i + 1, total, canCompress ? 'g' : 'p', payload.slice(i * CHUNK_DATA_LENGTH, (i + 1) * CHUNK_DATA_LENGTH)].join('|')
+  );
+}
+
+/**
+ * 解析一段二维码内容，不是进度分段时返回 null
+ */
+export function parseProgressChunk(text: string): ProgressChunk | null {
+  const parts = text.trim().split('|');
+  if (parts.length !== 6 || parts[0] !== CHUNK_PREFIX) return null;
+  const [, setId, index, total, encoding, data] = parts;
+  const chunk = { setId, index: Number(index), total: Number(total), encoding: encoding as ProgressChunk['encoding'], data };
+  if (!Number.isInteger(chunk.index) || !Number.isInteger(chunk.total) || chunk.index < 1 || chunk.index > chunk.total) return null;
+  if (chunk.encoding !== 'g' && chunk.encoding !== 'p') return null;
+  return chunk;
+}
+
+/**
+ * 分段收齐后还原进度文件
+ */
+export async function decodeProgressChunks(chunks: ProgressChunk[]): Promise<ProgressFile> {
+  const sorted = [...chunks].sort((a, b) => a.index - b.index);
+  const bytes = fromBase64(sorted.map(chunk => chunk.data).join(''));
+  if (sorted[0].encoding === 'g') {
+    if (typeof DecompressionStream === 'undefined') throw new Error('当前浏览器无法解压这组二维码');
+    return parseProgressFile(new TextDecoder().decode(await transformBytes(bytes, new DecompressionStream('gzip'))));
+  }
+  return parseProgressFile(new TextDecoder().decode(bytes));
+}
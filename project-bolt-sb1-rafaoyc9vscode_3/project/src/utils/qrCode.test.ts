@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import jsQR from 'jsqr';
+import { QR_MAX_BYTES, encodeQrCode } from './qrCode';
+
+// 按模块画成灰度图（每个模块 4 像素，四周留白 4 个模块），交给独立的解码库识别
+const decode = (modules: boolean[][]) => {
+  const scale = 4;
+  const quiet = 4;
+  const width = (modules.length + quiet * 2) * scale;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = (((y + quiet) * scale + dy) * width + (x + quiet) * scale + dx) * 4;
+          pixels.fill(0, offset, offset + 3);
+        }
+      }
+    });
+  });
+  return jsQR(pixels, width, width);
+};
+
+const getVersion = (modules: boolean[][]) => (modules.length - 17) / 4;
+
+// 读出左上角的 15 位格式信息（高位在前）
+const readFormatBits = (modules: boolean[][]) => {
+  const positions: [number, number][] = [
+    ...[0, 1, 2, 3, 4, 5].map(i => [8, i] as [number, number]),
+    [8, 7], [8, 8], [7, 8],
+    ...[9, 10, 11, 12, 13, 14].map(i => [14 - i, 8] as [number, number]),
+  ];
+  return positions.reduce((bits, [x, y], i) => bits | (Number(modules[y][x]) << i), 0);
+};
+
+// 读出右上角的 18 位版本信息
+const readVersionBits = (modules: boolean[][]) => {
+  let bits = 0;
+  for (let i = 0; i < 18; i++) {
+    bits |= Number(modules[Math.floor(i / 3)][modules.length - 11 + (i % 3)]) << i;
+  }
+  return bits;
+};
+
+// ISO/IEC 18004 表 C.1：L 级纠错、掩码 0-7 的格式信息
+const L_FORMAT_BITS = [
+  0b111011111000100, 0b111001011110011, 0b111110110101010, 0b111100010011101,
+  0b110011000101111, 0b110001100011000, 0b110110001000001, 0b110100101110110,
+];
+
+describe('encodeQrCode', () => {
+  it.each([
+    ['a short text', 'hello'],
+    ['a medium text', 'https://example.com/sync?part=1&total=3&data=' + 'x'.repeat(60)],
+    ['multi-byte text', '学习进度同步：第 3 集已复习'],
+    ['a text needing 16-bit length and several blocks', 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'.repeat(12)],
+  ])('round-trips %s through an independent decoder', (_, text) => {
+    const modules = encodeQrCode(text);
+    const result = decode(modules);
+    expect(result).not.toBeNull();
+    expect(Array.from(result!.binaryData)).toEqual(Array.from(new TextEncoder().encode(text)));
+  });
+
+  it('picks the smallest version that fits', () => {
+    // 版本 1-L 字节模式最多 17 字节
+    expect(getVersion(encodeQrCode('x'.repeat(17)))).toBe(1);
+    expect(getVersion(encodeQrCode('x'.repeat(18)))).toBe(2);
+  });
+
+  it('writes a valid format information for level L', () => {
+    ['hello', 'x'.repeat(200)].forEach(text => {
+      expect(L_FORMAT_BITS).toContain(readFormatBits(encodeQrCode(text)));
+    });
+  });
+
+  it('writes the version information from version 7 on', () => {
+    const modules = encodeQrCode('x'.repeat(140));
+    expect(getVersion(modules)).toBe(7);
+    // ISO/IEC 18004 表 D.1：版本 7 为 0x07C94
+    expect(readVersionBits(modules)).toBe(0x07c94);
+  });
+
+  it('throws when the text exceeds the capacity', () => {
+    expect(encodeQrCode('x'.repeat(QR_MAX_BYTES)).length).toBe(177);
+    expect(() => encodeQrCode('x'.repeat(QR_MAX_BYTES + 1))).toThrow();
+  });
+});
@@ -0,0 +1,29 @@
+// 摄像头识别二维码：使用浏览器内置的 BarcodeDetector，不支持时不提供扫码入口
+
+// BarcodeDetector 尚未进入 TypeScript 的 DOM 类型，只声明用到的部分
+interface DetectedBarcode {
+  rawValue: string;
+}
+export interface QrDetector {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorWindow = Window & {
+  BarcodeDetector?: new (options: { formats: string[] }) => QrDetector;
+};
+
+/**
+ * 当前浏览器能否用摄像头识别二维码
+ */
+export function isQrScanSupported(): boolean {
+  return typeof window !== 'undefined'
+    && !!(window as BarcodeDetectorWindow).BarcodeDetector
+    && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * 创建二维码识别器，不支持时返回 null
+ */
+export function createQrDetector(): QrDetector | null {
+  const Detector = (window as BarcodeDetectorWindow).BarcodeDetector;
+  return Detector ? new Detector({ formats: ['qr_code'] }) : null;
+}
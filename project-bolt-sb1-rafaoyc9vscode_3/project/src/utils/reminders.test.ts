@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { ForecastDay, ForecastItem } from '../types';
+import { DEFAULT_APP_SETTINGS } from './settings';
+import { buildReminderSchedule, getNextReminderDelay, parseReminderTime } from './reminders';
+
+const NOW = new Date(2026, 2, 10, 10, 0);
+const MINUTE_MS = 60 * 1000;
+
+const item = (reviewType: ForecastItem['reviewType']): ForecastItem => ({
+  videoId: 'v1',
+  collectionId: 'c1',
+  reviewType,
+  reviewNumber: 1,
+  mode: 'video',
+  seconds: 300,
+  isEstimated: true,
+});
+
+describe('parseReminderTime', () => {
+  it('parses HH:mm', () => {
+    expect(parseReminderTime('07:30')).toEqual({ hour: 7, minute: 30 });
+  });
+
+  it('falls back to 20:00 for invalid values', () => {
+    expect(parseReminderTime('25:99')).toEqual({ hour: 20, minute: 0 });
+    expect(parseReminderTime('abc')).toEqual({ hour: 20, minute: 0 });
+  });
+});
+
+describe('getNextReminderDelay', () => {
+  it('waits until the reminder time later today', () => {
+    expect(getNextReminderDelay('10:30', NOW)).toBe(30 * MINUTE_MS);
+  });
+
+  it('moves to tomorrow once the time has passed', () => {
+    expect(getNextReminderDelay('10:00', NOW)).toBe(24 * 60 * MINUTE_MS);
+    expect(getNextReminderDelay('09:00', NOW)).toBe(23 * 60 * MINUTE_MS);
+  });
+});
+
+describe('buildReminderSchedule', () => {
+  it('counts reviews and new items for every forecast day', () => {
+    const forecast: ForecastDay[] = [
+      { date: new Date(2026, 2, 10), items: [item('review'), item('review'), item('new')] },
+      { date: new Date(2026, 2, 11), items: [] },
+    ];
+    const settings = { ...DEFAULT_APP_SETTINGS, reminderEnabled: true, reminderTime: '21:15' };
+    expect(buildReminderSchedule(settings, forecast)).toEqual({
+      enabled: true,
+      hour: 21,
+      minute: 15,
+      days: [
+        { dayStart: new Date(2026, 2, 10).getTime(), reviewCount: 2, newCount: 1 },
+        { dayStart: new Date(2026, 2, 11).getTime(), reviewCount: 0, newCount: 0 },
+      ],
+    });
+  });
+});
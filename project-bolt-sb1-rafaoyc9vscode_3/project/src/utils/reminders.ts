@@ -0,0 +1,121 @@
+// 每日学习提醒相关工具函数
+// 提醒计划写入 IndexedDB，由 public/sw.js 在后台同步或收到页面消息时读取并弹出通知
+import type { AppSettings, ForecastDay, ReminderSchedule } from '../types';
+import { getMeta, setMeta } from './database';
+
+export const REMINDER_SCHEDULE_KEY = 'reminderSchedule';
+export const REMINDER_SYNC_TAG = 'study-reminder';
+// 点击通知后打开复习预览
+export const OPEN_REVIEW_PARAM = 'open';
+export const OPEN_REVIEW_VALUE = 'review';
+
+// 浏览器的实验性接口，类型定义中尚未包含
+interface PeriodicSyncManager {
+  register: (tag: string, options: { minInterval: number }) => Promise<void>;
+  unregister: (tag: string) => Promise<void>;
+}
+
+type BadgeNavigator = Navigator & {
+  setAppBadge?: (count?: number) => Promise<void>;
+  clearAppBadge?: () => Promise<void>;
+};
+
+/**
+ * 当前环境是否支持通知提醒
+ */
+export function isReminderSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+}
+
+/**
+ * 解析 HH:mm 格式的提醒时间
+ */
+export function parseReminderTime(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map(Number);
+  return {
+    hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 20,
+    minute: Number.isInteger(minute) && minute >= 0 && minute < 60 ? minute : 0,
+  };
+}
+
+/**
+ * 由复习量预测生成提醒计划：记录未来几个学习日的待复习和新学数量，应用未打开时也能提醒
+ */
+export function buildReminderSchedule(settings: AppSettings, forecast: ForecastDay[]): ReminderSchedule {
+  return {
+    enabled: settings.reminderEnabled,
+    ...parseReminderTime(settings.reminderTime),
+    days: forecast.map(day => ({
+      dayStart: day.date.getTime(),
+      reviewCount: day.items.filter(item => item.reviewType === 'review').length,
+      newCount: day.items.filter(item => item.reviewType === 'new').length,
+    })),
+  };
+}
+
+/**
+ * 保存提醒计划，保留已提醒的学习日
+ */
+export async function saveReminderSchedule(schedule: ReminderSchedule): Promise<void> {
+  const previous = await getMeta<ReminderSchedule>(REMINDER_SCHEDULE_KEY);
+  await setMeta(REMINDER_SCHEDULE_KEY, { ...schedule, lastNotifiedDay: previous?.lastNotifiedDay });
+}
+
+/**
+ * 更新应用图标角标，不支持的环境忽略
+ */
+export async function updateAppBadge(count: number): Promise<void> {
+  const nav = navigator as BadgeNavigator;
+  try {
+    if (count > 0) {
+      await nav.setAppBadge?.(count);
+    } else {
+      await nav.clearAppBadge?.();
+    }
+  } catch (error) {
+    console.warn('更新应用角标失败', error);
+  }
+}
+
+/**
+ * 开启或关闭后台定期同步（仅部分浏览器在安装为应用后支持），返回是否已注册
+ */
+export async function configureReminderSync(enabled: boolean): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) return false;
+  const registration = await navigator.serviceWorker.ready;
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return false;
+  try {
+    if (!enabled) {
+      await periodicSync.unregister(REMINDER_SYNC_TAG);
+      return false;
+    }
+    await periodicSync.register(REMINDER_SYNC_TAG, { minInterval: 60 * 60 * 1000 });
+    return true;
+  } catch (error) {
+    console.warn('注册后台提醒失败', error);
+    return false;
+  }
+}
+
+/**
+ * 请求 Service Worker 检查是否到了提醒时间
+ */
+export async function requestReminderCheck(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'check-reminder' });
+}
+
+/**
+ * 距离下一次提醒时间的毫秒数
+ */
+export function getNextReminderDelay(time: string, now: Date): number {
+  const { hour, minute } = parseReminderTime(time);
+  const next = new Date(now);
+  next.setHours(hour, minute, 0, 0);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime() - now.getTime();
+}
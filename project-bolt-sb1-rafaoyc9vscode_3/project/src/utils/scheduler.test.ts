@@ -0,0 +1,625 @@
+import { describe, expect, it } from 'vitest';
+import type { AppSettings, Collection, CollectionSchedule, PausePeriod, VideoFile } from '../types';
+import { DEFAULT_APP_SETTINGS } from './settings';
+import {
+  DEFAULT_COLLECTION_SCHEDULE,
+  ScheduleContext,
+  SchedulerInput,
+  applyPlay,
+  fixedIntervalAlgorithm,
+  forecastWorkload,
+  fuzzDueDate,
+  getActiveVideos,
+  getBacklogForecast,
+  getCollectionSchedule,
+  getGraduationStep,
+  getPauseDays,
+  getShiftedDaysSince,
+  isCollectionPaused,
+  isDifficultVideo,
+  learningDayDiff,
+  previewGradeIntervals,
+  rescheduleVideo,
+  selectCramItems,
+  resetSchedule,
+  selectNewVideos,
+  selectReviews,
+  shiftScheduleStep,
+  sm2Algorithm,
+  spreadBacklog,
+  startOfLearningDay,
+  validateCollectionSchedule,
+} from './scheduler';
+
+// 固定的“当前时间”：2026-03-10 10:00（本地时间）
+const NOW = new Date(2026, 2, 10, 10, 0);
+
+const day = (offset: number, hour = 0) => new Date(2026, 2, 10 + offset, hour, 0, 0, 0);
+
+const makeVideo = (overrides: Partial<VideoFile> = {}): VideoFile => ({
+  id: 'v1',
+  name: 'v1.mp4',
+  dateAdded: day(-30),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId: 'c1',
+  ...overrides,
+});
+
+const makeCollection = (schedule?: Partial<CollectionSchedule>): Collection => ({
+  id: 'c1',
+  name: '合辑',
+  dateCreated: day(-30),
+  isActive: true,
+  totalVideos: 0,
+  completedVideos: 0,
+  color: '#000000',
+  schedule: schedule && { ...DEFAULT_COLLECTION_SCHEDULE, ...schedule },
+});
+
+const context = (overrides: Partial<ScheduleContext> = {}): ScheduleContext => ({
+  now: NOW,
+  schedule: DEFAULT_COLLECTION_SCHEDULE,
+  ...overrides,
+});
+
+const schedulerInput = (overrides: Partial<SchedulerInput> = {}): SchedulerInput => ({
+  videos: [],
+  collections: [makeCollection()],
+  history: [],
+  pauses: [],
+  now: NOW,
+  settings: DEFAULT_APP_SETTINGS,
+  ...overrides,
+});
+
+// 已学习过的条目：上次复习在昨天
+const learnedVideo = (overrides: Partial<VideoFile> = {}) => makeVideo({
+  firstPlayDate: day(-20),
+  lastReviewDate: day(-1),
+  nextReviewDate: day(0),
+  stage: 'learning',
+  ...overrides,
+});
+
+describe('fixedIntervalAlgorithm', () => {
+  it('schedules the first play for the next learning day', () => {
+    const result = applyPlay(makeVideo(), fixedIntervalAlgorithm, context());
+    expect(result).toMatchObject({
+      firstPlayDate: NOW,
+      lastReviewDate: NOW,
+      reviewCount: 1,
+      intervalDays: 1,
+      nextReviewDate: day(1),
+      stage: 'learning',
+    });
+  });
+
+  it('skips a step when the first play is graded easy', () => {
+    const result = applyPlay(makeVideo(), fixedIntervalAlgorithm, context({ grade: 'easy' }));
+    expect(result.reviewCount).toBe(2);
+    expect(result.nextReviewDate).toEqual(day(4));
+  });
+
+  it('moves along the interval ladder according to the grade', () => {
+    const video = learnedVideo({ reviewCount: 2, intervalDays: 4 });
+    expect(applyPlay(video, fixedIntervalAlgorithm, context({ grade: 'good' }))).toMatchObject({
+      reviewCount: 3,
+      intervalDays: 7,
+      nextReviewDate: day(7),
+    });
+    expect(applyPlay(video, fixedIntervalAlgorithm, context({ grade: 'hard' }))).toMatchObject({
+      reviewCount: 2,
+      intervalDays: 4,
+      nextReviewDate: day(4),
+    });
+    expect(applyPlay(video, fixedIntervalAlgorithm, context({ grade: 'easy' }))).toMatchObject({
+      reviewCount: 4,
+      intervalDays: 15,
+      nextReviewDate: day(15),
+    });
+  });
+
+  it('steps back and relearns from tomorrow when forgotten', () => {
+    const result = applyPlay(learnedVideo({ reviewCount: 3 }), fixedIntervalAlgorithm, context({ grade: 'again' }));
+    expect(result).toMatchObject({
+      reviewCount: 2,
+      lapses: 1,
+      intervalDays: 1,
+      nextReviewDate: day(1),
+      stage: 'relearning',
+    });
+  });
+
+  it('graduates on reaching reviewIntervals.length - 1', () => {
+    expect(getGraduationStep(DEFAULT_COLLECTION_SCHEDULE)).toBe(DEFAULT_COLLECTION_SCHEDULE.reviewIntervals.length - 1);
+
+    const beforeLast = applyPlay(learnedVideo({ reviewCount: 3 }), fixedIntervalAlgorithm, context());
+    expect(beforeLast.stage).toBe('learning');
+    expect(beforeLast.reviewCount).toBe(4);
+
+    const graduated = applyPlay(learnedVideo({ reviewCount: 4 }), fixedIntervalAlgorithm, context());
+    expect(graduated.stage).toBe('graduated');
+    expect(graduated.reviewCount).toBe(5);
+    expect(graduated.nextReviewDate).toBeUndefined();
+  });
+
+  it('uses the collection ladder for graduation', () => {
+    const schedule = { ...DEFAULT_COLLECTION_SCHEDULE, reviewIntervals: [1, 2, 3] };
+    const result = applyPlay(learnedVideo({ reviewCount: 1 }), fixedIntervalAlgorithm, context({ schedule }));
+    expect(result.stage).toBe('graduated');
+  });
+
+  it('counts days from the configured learning day start', () => {
+    // 凌晨2点仍属于前一个学习日（4点开始），下一次复习从当天4点起
+    const result = applyPlay(makeVideo(), fixedIntervalAlgorithm, context({ now: day(0, 2), dayStartHour: 4 }));
+    expect(result.nextReviewDate).toEqual(day(0, 4));
+  });
+
+  it('adds resumed pauses to intervals anchored on the first play', () => {
+    // 首次播放在 20 天前，之后暂停过 3 天；第 3 级（7 天）应在首次播放后第 10 天
+    const video = learnedVideo({ reviewCount: 2, intervalDays: 4, firstPlayDate: day(-20, 9) });
+    const pauses = [{ id: 'p1', startDate: day(-18), endDate: day(-15), shiftedDays: 3 }];
+    const result = applyPlay(video, fixedIntervalAlgorithm, context({ anchor: 'firstPlay', pauses, now: day(-12) }));
+    expect(result.nextReviewDate).toEqual(day(-10));
+    expect(result.firstPlayDate).toEqual(day(-20, 9));
+
+    const withoutPause = applyPlay(video, fixedIntervalAlgorithm, context({ anchor: 'firstPlay', now: day(-15) }));
+    expect(withoutPause.nextReviewDate).toEqual(day(-13));
+  });
+
+  it('keeps a maintenance item in maintenance when maintenance reviews were turned off', () => {
+    // 维护复习开启时生成的列表，关闭后才播放完
+    const video = learnedVideo({ reviewCount: 5, intervalDays: 30, stage: 'maintenance' });
+    const result = applyPlay(video, fixedIntervalAlgorithm, context({ maintenance: false }));
+    expect(result.stage).toBe('maintenance');
+    expect(result.nextReviewDate).toBeUndefined();
+    expect(result.stageHistory.map(({ from, to }) => `${from}->${to}`)).toEqual(['maintenance->maintenance']);
+  });
+
+  it('depends only on the injected clock', () => {
+    const later = new Date(2026, 5, 1, 10, 0);
+    const result = applyPlay(makeVideo(), fixedIntervalAlgorithm, context({ now: later }));
+    expect(result.firstPlayDate).toEqual(later);
+    expect(result.nextReviewDate).toEqual(new Date(2026, 5, 2));
+  });
+});
+
+describe('previewGradeIntervals', () => {
+  it('previews the days until the next review for each grade', () => {
+    const video = learnedVideo({ reviewCount: 2, intervalDays: 4 });
+    expect(previewGradeIntervals(video, fixedIntervalAlgorithm, context())).toEqual({
+      again: 1,
+      hard: 4,
+      good: 7,
+      easy: 15,
+    });
+  });
+
+  it('returns null for grades that complete the item', () => {
+    const preview = previewGradeIntervals(learnedVideo({ reviewCount: 4 }), fixedIntervalAlgorithm, context());
+    expect(preview.hard).toBe(15);
+    expect(preview.good).toBeNull();
+    expect(preview.easy).toBeNull();
+  });
+
+  it('does not modify the video', () => {
+    const video = learnedVideo({ reviewCount: 2 });
+    const before = structuredClone(video);
+    previewGradeIntervals(video, sm2Algorithm, context());
+    expect(video).toEqual(before);
+  });
+});
+
+describe('sm2Algorithm', () => {
+  it('uses 1 and 6 day intervals for the first two repetitions', () => {
+    const first = applyPlay(makeVideo(), sm2Algorithm, context());
+    expect(first).toMatchObject({ reviewCount: 1, intervalDays: 1, easeFactor: 2.5, nextReviewDate: day(1) });
+
+    const second = applyPlay(learnedVideo({ reviewCount: 1, intervalDays: 1, easeFactor: 2.5 }), sm2Algorithm, context());
+    expect(second).toMatchObject({ reviewCount: 2, intervalDays: 6, nextReviewDate: day(6) });
+  });
+
+  it('multiplies the interval by the ease factor', () => {
+    const video = learnedVideo({ reviewCount: 2, intervalDays: 6, easeFactor: 2.5 });
+    expect(applyPlay(video, sm2Algorithm, context({ grade: 'good' }))).toMatchObject({ intervalDays: 15, easeFactor: 2.5 });
+
+    const easy = applyPlay(video, sm2Algorithm, context({ grade: 'easy' }));
+    expect(easy.easeFactor).toBeCloseTo(2.6);
+    expect(easy.intervalDays).toBe(16);
+
+    const hard = applyPlay(video, sm2Algorithm, context({ grade: 'hard' }));
+    expect(hard.easeFactor).toBeCloseTo(2.36);
+    expect(hard.intervalDays).toBe(14);
+  });
+
+  it('restarts and lowers the ease factor when forgotten', () => {
+    const result = applyPlay(learnedVideo({ reviewCount: 4, intervalDays: 30, easeFactor: 2.5 }), sm2Algorithm, context({ grade: 'again' }));
+    expect(result).toMatchObject({ reviewCount: 1, intervalDays: 1, lapses: 1, stage: 'relearning', nextReviewDate: day(1) });
+    expect(result.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('never lowers the ease factor below the minimum', () => {
+    const result = applyPlay(learnedVideo({ reviewCount: 3, intervalDays: 10, easeFactor: 1.3 }), sm2Algorithm, context({ grade: 'again' }));
+    expect(result.easeFactor).toBe(1.3);
+  });
+
+  it('graduates once the interval exceeds the longest step of the ladder', () => {
+    const result = applyPlay(learnedVideo({ reviewCount: 5, intervalDays: 40, easeFactor: 2.5 }), sm2Algorithm, context());
+    expect(result.intervalDays).toBe(100);
+    expect(result.stage).toBe('graduated');
+    expect(result.nextReviewDate).toBeUndefined();
+  });
+});
+
+describe('forecastWorkload', () => {
+  const settings: AppSettings = { ...DEFAULT_APP_SETTINGS };
+  const videos = [1, 2, 3].map(episode => makeVideo({ id: `v${episode}`, name: `v${episode}.mp4`, episodeNumber: episode }));
+
+  const forecast = (days: number) => forecastWorkload(
+    { videos, collections: [makeCollection({ maxNewPerDay: 2 })], history: [], pauses: [], now: NOW, settings },
+    fixedIntervalAlgorithm,
+    days
+  );
+
+  it('simulates new items and the reviews they generate day by day', () => {
+    const result = forecast(3).map(({ date, items }) => ({
+      date,
+      items: items.map(item => `${item.reviewType}:${item.videoId}`),
+    }));
+    expect(result).toEqual([
+      { date: day(0), items: ['new:v1', 'new:v2'] },
+      { date: day(1), items: ['new:v3', 'review:v1', 'review:v2'] },
+      { date: day(2), items: ['review:v3'] },
+    ]);
+  });
+
+  it('does not modify the input videos', () => {
+    forecast(5);
+    expect(videos.every(video => video.stage === 'new' && !video.firstPlayDate)).toBe(true);
+  });
+
+  it('estimates durations for items without one', () => {
+    const [first] = forecast(1);
+    expect(first.items[0]).toMatchObject({ seconds: 300, isEstimated: true, mode: 'video' });
+  });
+
+  it('uses known durations and the collection average for the rest', () => {
+    const timed = [makeVideo({ id: 'a', duration: 120 }), makeVideo({ id: 'b', duration: 240, stage: 'suspended' }), makeVideo({ id: 'c' })];
+    const [first] = forecastWorkload(
+      { videos: timed, collections: [makeCollection()], history: [], pauses: [], now: NOW, settings },
+      fixedIntervalAlgorithm,
+      1
+    );
+    expect(first.items.map(({ videoId, seconds, isEstimated }) => ({ videoId, seconds, isEstimated }))).toEqual([
+      { videoId: 'a', seconds: 120, isEstimated: false },
+      { videoId: 'c', seconds: 180, isEstimated: true },
+    ]);
+  });
+
+  it('plans nothing for paused collections', () => {
+    const result = forecastWorkload(
+      { videos, collections: [makeCollection()], history: [], pauses: [{ id: 'p1', startDate: day(-1) }], now: NOW, settings },
+      fixedIntervalAlgorithm,
+      3
+    );
+    expect(result.every(({ items }) => items.length === 0)).toBe(true);
+  });
+});
+
+describe('selectNewVideos', () => {
+  it('keeps the previous global limit of 4 new items in collection order by default', () => {
+    const collections = [makeCollection(), { ...makeCollection(), id: 'c2', dateCreated: day(-29) }];
+    const videos = ['c1', 'c2'].flatMap(collectionId => [1, 2, 3, 4].map(episode => makeVideo({
+      id: `${collectionId}-${episode}`,
+      collectionId,
+      episodeNumber: episode,
+    })));
+    const items = selectNewVideos({ videos, collections, history: [], pauses: [], now: NOW, settings: DEFAULT_APP_SETTINGS });
+    expect(items.map(item => item.videoId)).toEqual(['c1-1', 'c1-2', 'c1-3', 'c1-4']);
+  });
+
+  // 两个合辑各 4 集，优先级分别为 2 和 1
+  const interleaveInput = (settings: Partial<AppSettings>) => schedulerInput({
+    collections: [makeCollection({ priority: 2 }), { ...makeCollection({ priority: 1 }), id: 'c2' }],
+    videos: ['c1', 'c2'].flatMap(collectionId => [1, 2, 3, 4].map(episode => makeVideo({
+      id: `${collectionId}-${episode}`,
+      collectionId,
+      episodeNumber: episode,
+    }))),
+    settings: { ...DEFAULT_APP_SETTINGS, ...settings },
+  });
+
+  it('alternates between collections in round robin order', () => {
+    const items = selectNewVideos(interleaveInput({ newItemSelection: 'roundRobin', maxNewPerDayTotal: 5 }));
+    expect(items.map(item => item.videoId)).toEqual(['c1-1', 'c2-1', 'c1-2', 'c2-2', 'c1-3']);
+  });
+
+  it('picks collections in proportion to their priority', () => {
+    const items = selectNewVideos(interleaveInput({ newItemSelection: 'weighted', maxNewPerDayTotal: 6 }));
+    expect(items.map(item => item.videoId)).toEqual(['c1-1', 'c2-1', 'c1-2', 'c1-3', 'c2-2', 'c1-4']);
+  });
+
+  it('keeps going with the remaining collections once one runs out', () => {
+    const items = selectNewVideos(interleaveInput({ newItemSelection: 'weighted', maxNewPerDayTotal: 0 }));
+    expect(items.map(item => item.videoId).slice(-2)).toEqual(['c2-3', 'c2-4']);
+    expect(items).toHaveLength(8);
+  });
+
+  it('takes the extra session size from every collection regardless of the total limit', () => {
+    const items = selectNewVideos(interleaveInput({ newItemSelection: 'roundRobin', maxNewPerDayTotal: 2 }), true);
+    expect(items).toHaveLength(8);
+  });
+});
+
+describe('collection schedules', () => {
+  it('validates the interval ladder, limits and priority', () => {
+    expect(validateCollectionSchedule(DEFAULT_COLLECTION_SCHEDULE)).toBeNull();
+    expect(validateCollectionSchedule({ ...DEFAULT_COLLECTION_SCHEDULE, reviewIntervals: [1] })).not.toBeNull();
+    expect(validateCollectionSchedule({ ...DEFAULT_COLLECTION_SCHEDULE, reviewIntervals: [1, 0.5] })).not.toBeNull();
+    expect(validateCollectionSchedule({ ...DEFAULT_COLLECTION_SCHEDULE, reviewIntervals: [2, 2, 5] })).not.toBeNull();
+    expect(validateCollectionSchedule({ ...DEFAULT_COLLECTION_SCHEDULE, maxNewPerDay: -1 })).not.toBeNull();
+    expect(validateCollectionSchedule({ ...DEFAULT_COLLECTION_SCHEDULE, priority: 6 })).not.toBeNull();
+  });
+
+  it('fills missing settings from the default schedule', () => {
+    expect(getCollectionSchedule(undefined)).toEqual(DEFAULT_COLLECTION_SCHEDULE);
+    const collection = { ...makeCollection(), schedule: { ...DEFAULT_COLLECTION_SCHEDULE, reviewIntervals: [], maxNewPerDay: 2 } };
+    expect(getCollectionSchedule(collection)).toMatchObject({
+      reviewIntervals: DEFAULT_COLLECTION_SCHEDULE.reviewIntervals,
+      maxNewPerDay: 2,
+    });
+  });
+
+  it('limits new items per collection', () => {
+    const collections = [makeCollection({ maxNewPerDay: 1 }), { ...makeCollection({ maxNewPerDay: 2 }), id: 'c2' }];
+    const videos = ['c1', 'c2'].flatMap(collectionId => [1, 2, 3].map(episode => makeVideo({
+      id: `${collectionId}-${episode}`,
+      collectionId,
+      episodeNumber: episode,
+    })));
+    const settings = { ...DEFAULT_APP_SETTINGS, maxNewPerDayTotal: 0 };
+    const items = selectNewVideos(schedulerInput({ videos, collections, settings }));
+    expect(items.map(item => item.videoId)).toEqual(['c1-1', 'c2-1', 'c2-2']);
+  });
+
+  it('limits reviews per collection, keeping the most overdue', () => {
+    const videos = [-1, -5, -3].map((offset, i) => learnedVideo({ id: `v${i + 1}`, nextReviewDate: day(offset) }));
+    const items = selectReviews(schedulerInput({ videos, collections: [makeCollection({ maxReviewsPerDay: 2 })] }));
+    expect(items.map(item => item.videoId)).toEqual(['v2', 'v3']);
+  });
+});
+
+describe('fuzzDueDate', () => {
+  it('keeps short intervals exact', () => {
+    expect(fuzzDueDate(day(2), 2, () => 0)).toEqual(day(2));
+  });
+
+  it('moves the due date by at most one day for intervals under a week', () => {
+    expect(fuzzDueDate(day(4), 4, () => 0)).toEqual(day(3));
+    expect(fuzzDueDate(day(4), 4, () => 0.5)).toEqual(day(4));
+    expect(fuzzDueDate(day(4), 4, () => 0.99)).toEqual(day(5));
+  });
+
+  it('scales the range with longer intervals', () => {
+    expect(fuzzDueDate(day(60), 60, () => 0)).toEqual(day(57));
+    expect(fuzzDueDate(day(60), 60, () => 0.99)).toEqual(day(63));
+  });
+});
+
+describe('backlog', () => {
+  // 四个逾期 1-4 天的条目，间隔相同，逾期越久越容易遗忘
+  const overdueVideos = [1, 2, 3, 4].map(days => learnedVideo({
+    id: `v${days}`,
+    intervalDays: 1,
+    nextReviewDate: day(-days),
+  }));
+
+  it('spreads overdue items over the given days, most overdue first', () => {
+    const assignments = spreadBacklog(schedulerInput({ videos: overdueVideos }), 2);
+    expect(Object.fromEntries(assignments)).toEqual({
+      v4: day(0),
+      v3: day(0),
+      v2: day(1),
+      v1: day(1),
+    });
+  });
+
+  it('leaves items due today alone', () => {
+    const assignments = spreadBacklog(schedulerInput({ videos: [learnedVideo()] }), 3);
+    expect(assignments.size).toBe(0);
+  });
+
+  it('forecasts spread backlog separately from regular reviews', () => {
+    const videos = [
+      learnedVideo({ id: 'overdue', nextReviewDate: day(-2) }),
+      learnedVideo({ id: 'spread', nextReviewDate: day(1), backlogSince: day(-3) }),
+      learnedVideo({ id: 'later', nextReviewDate: day(10) }),
+    ];
+    const forecast = getBacklogForecast(schedulerInput({ videos }), 3);
+    expect(forecast).toEqual([
+      { date: day(0), backlog: 0, regular: 1 },
+      { date: day(1), backlog: 1, regular: 0 },
+      { date: day(2), backlog: 0, regular: 0 },
+    ]);
+  });
+});
+
+describe('pauses', () => {
+  const pause = (overrides: Partial<PausePeriod> = {}): PausePeriod => ({
+    id: 'p1',
+    startDate: day(-5, 20),
+    ...overrides,
+  });
+
+  it('pauses only the selected collections while in progress', () => {
+    expect(isCollectionPaused([pause()], 'c1')).toBe(true);
+    expect(isCollectionPaused([pause({ collectionIds: ['c2'] })], 'c1')).toBe(false);
+    expect(isCollectionPaused([pause({ endDate: day(-1) })], 'c1')).toBe(false);
+  });
+
+  it('counts learning days up to now or the resume date', () => {
+    expect(getPauseDays(pause(), NOW)).toBe(5);
+    expect(getPauseDays(pause({ endDate: day(-2, 9) }), NOW)).toBe(3);
+    // 学习日从 4 点开始时，凌晨 2 点开始的暂停算作前一天
+    expect(getPauseDays(pause({ startDate: day(-5, 2) }), NOW, 4)).toBe(6);
+  });
+
+  it('sums the shift of resumed pauses that started after the given date', () => {
+    const pauses = [
+      pause({ id: 'before', startDate: day(-20), endDate: day(-18), shiftedDays: 2 }),
+      pause({ id: 'other', startDate: day(-8), endDate: day(-6), shiftedDays: 2, collectionIds: ['c2'] }),
+      pause({ id: 'after', startDate: day(-5), endDate: day(-2), shiftedDays: 3 }),
+      pause({ id: 'running', startDate: day(-1) }),
+    ];
+    expect(getShiftedDaysSince(pauses, 'c1', day(-10))).toBe(3);
+  });
+
+  it('leaves videos of paused collections out of the plan', () => {
+    const collections = [makeCollection(), { ...makeCollection(), id: 'c2' }];
+    const videos = [makeVideo({ id: 'a' }), makeVideo({ id: 'b', collectionId: 'c2' })];
+    const active = getActiveVideos({ videos, collections, pauses: [pause({ collectionIds: ['c2'] })] });
+    expect(active.map(video => video.id)).toEqual(['a']);
+  });
+});
+
+describe('learning days', () => {
+  it('starts the learning day at the configured hour', () => {
+    expect(startOfLearningDay(day(0, 10), 4)).toEqual(day(0, 4));
+    // 开始时刻之前仍属于前一个学习日
+    expect(startOfLearningDay(day(0, 2), 4)).toEqual(day(-1, 4));
+  });
+
+  it('counts learning days across midnight', () => {
+    expect(learningDayDiff(day(1, 3), day(0, 23), 4)).toBe(0);
+    expect(learningDayDiff(day(1, 5), day(0, 23), 4)).toBe(1);
+    expect(learningDayDiff(day(1, 3), day(0, 23))).toBe(1);
+  });
+
+  it('anchors the next review on the chosen date', () => {
+    const video = learnedVideo({ reviewCount: 2, intervalDays: 4, firstPlayDate: day(-3), nextReviewDate: day(-2) });
+    const nextReview = (anchor: ScheduleContext['anchor']) =>
+      applyPlay(video, fixedIntervalAlgorithm, context({ anchor })).nextReviewDate;
+    expect(nextReview('lastReview')).toEqual(day(7));
+    expect(nextReview('scheduled')).toEqual(day(5));
+    expect(nextReview('firstPlay')).toEqual(day(4));
+  });
+
+  it('never schedules a review earlier than tomorrow', () => {
+    const video = learnedVideo({ reviewCount: 1, intervalDays: 1, nextReviewDate: day(-5) });
+    expect(applyPlay(video, fixedIntervalAlgorithm, context({ anchor: 'scheduled' })).nextReviewDate).toEqual(day(1));
+  });
+});
+
+describe('manual schedule changes', () => {
+  it('resets an item to new and clears its schedule', () => {
+    const result = resetSchedule(learnedVideo({ reviewCount: 3, lapses: 1, backlogSince: day(-2) }), NOW);
+    expect(result).toMatchObject({ stage: 'new', reviewCount: 0 });
+    expect(result.firstPlayDate).toBeUndefined();
+    expect(result.nextReviewDate).toBeUndefined();
+    expect(result.lapses).toBeUndefined();
+    expect(result.backlogSince).toBeUndefined();
+    expect(result.stageHistory[result.stageHistory.length - 1]).toMatchObject({ from: 'learning', to: 'new', reason: 'reset' });
+  });
+
+  it('moves the due date to the start of the chosen day', () => {
+    const result = rescheduleVideo(learnedVideo({ backlogSince: day(-3) }), day(3, 15));
+    expect(result.nextReviewDate).toEqual(day(3));
+    expect(result.backlogSince).toBeUndefined();
+  });
+
+  it('shifts the step and schedules from today', () => {
+    const video = learnedVideo({ reviewCount: 2, intervalDays: 4 });
+    expect(shiftScheduleStep(video, 1, context())).toMatchObject({
+      stage: 'learning',
+      reviewCount: 3,
+      intervalDays: 7,
+      nextReviewDate: day(7),
+    });
+    expect(shiftScheduleStep(video, -1, context())).toMatchObject({
+      reviewCount: 1,
+      intervalDays: 1,
+      nextReviewDate: day(1),
+    });
+  });
+
+  it('graduates past the last step, scheduling maintenance only when enabled', () => {
+    const video = learnedVideo({ reviewCount: 4 });
+    const graduated = shiftScheduleStep(video, 1, context());
+    expect(graduated).toMatchObject({ stage: 'graduated', reviewCount: 5 });
+    expect(graduated.nextReviewDate).toBeUndefined();
+    expect(shiftScheduleStep(video, 1, context({ maintenance: true }))).toMatchObject({
+      intervalDays: 90,
+      nextReviewDate: day(90),
+    });
+  });
+
+  it('moves graduated items back onto the ladder', () => {
+    const result = shiftScheduleStep(learnedVideo({ stage: 'graduated', reviewCount: 5, nextReviewDate: undefined }), -1, context());
+    expect(result).toMatchObject({ stage: 'learning', reviewCount: 4, intervalDays: 15, nextReviewDate: day(15) });
+  });
+
+  it('resets when stepping back from the first step and stays put at the ends', () => {
+    expect(shiftScheduleStep(learnedVideo({ reviewCount: 1 }), -1, context()).stage).toBe('new');
+    const video = makeVideo();
+    expect(shiftScheduleStep(video, -1, context())).toBe(video);
+  });
+});
+
+describe('cram sessions', () => {
+  const videos = [
+    makeVideo({ id: 'new', episodeNumber: 4 }),
+    learnedVideo({ id: 'easy', episodeNumber: 3, lastGrade: 'good' }),
+    learnedVideo({ id: 'hard', episodeNumber: 2, lastGrade: 'hard' }),
+    learnedVideo({ id: 'done', episodeNumber: 1, stage: 'graduated', reviewCount: 5, lapses: 1 }),
+    makeVideo({ id: 'other', collectionId: 'c2' }),
+  ];
+
+  it('recognizes difficult items', () => {
+    expect(isDifficultVideo(learnedVideo({ lastGrade: 'good' }))).toBe(false);
+    expect(isDifficultVideo(learnedVideo({ lastGrade: 'again' }))).toBe(true);
+    expect(isDifficultVideo(learnedVideo({ lapses: 2, lastGrade: 'easy' }))).toBe(true);
+    expect(isDifficultVideo(learnedVideo({ stage: 'relearning' }))).toBe(true);
+  });
+
+  it('plays the whole collection in episode order without a stage filter', () => {
+    const items = selectCramItems(videos, { collectionId: 'c1', stages: [], difficultOnly: false });
+    expect(items.map(item => item.videoId)).toEqual(['done', 'hard', 'easy', 'new']);
+    expect(items[3]).toMatchObject({ reviewType: 'new', reviewNumber: 0 });
+  });
+
+  it('filters by stage and difficulty', () => {
+    const learning = selectCramItems(videos, { collectionId: 'c1', stages: ['learning'], difficultOnly: false });
+    expect(learning.map(item => item.videoId)).toEqual(['hard', 'easy']);
+    const difficult = selectCramItems(videos, { collectionId: 'c1', stages: [], difficultOnly: true });
+    expect(difficult.map(item => item.videoId)).toEqual(['done', 'hard']);
+  });
+});
+
+describe('daily minutes budget', () => {
+  const newVideos = [1, 2, 3].map(episode => makeVideo({ id: `n${episode}`, episodeNumber: episode, duration: 240 }));
+  const budgetInput = (dailyMinutesBudget: number, videos: VideoFile[] = newVideos) => schedulerInput({
+    videos,
+    settings: { ...DEFAULT_APP_SETTINGS, dailyMinutesBudget },
+  });
+
+  it('stops adding new items once the budget is used up', () => {
+    expect(selectNewVideos(budgetInput(10)).map(item => item.videoId)).toEqual(['n1', 'n2']);
+    expect(selectNewVideos(budgetInput(0))).toHaveLength(3);
+  });
+
+  it('counts the time of today\'s reviews first', () => {
+    const review = learnedVideo({ id: 'r1', duration: 480 });
+    expect(selectNewVideos(budgetInput(10, [...newVideos, review]))).toEqual([]);
+  });
+
+  it('still offers one new item that alone exceeds the budget', () => {
+    const long = [makeVideo({ id: 'long', duration: 3600 })];
+    expect(selectNewVideos(budgetInput(10, long)).map(item => item.videoId)).toEqual(['long']);
+  });
+
+  it('does not limit extra sessions', () => {
+    expect(selectNewVideos(budgetInput(5), true)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,806 @@
+/**
+ * 间隔重复调度引擎
+ * 不依赖 React：输入条目、播放历史和当前时间，输出当日学习计划和播放后的调度结果
+ */
+import type {
+  AppSettings,
+  BacklogDay,
+  CramFilter,
+  IntervalAnchor,
+  NewItemSelection,
+  VideoFile,
+  Collection,
+  CollectionSchedule,
+  DailyPlaylist,
+  ForecastDay,
+  ForecastItem,
+  PausePeriod,
+  PlaylistItem,
+  ReviewGrade,
+  SchedulerAlgorithmId,
+} from '../types';
+import { isGraduated, transitionStage } from './lifecycle';
+
+// 默认节奏：第1、4、7、15、30、90天复习（第一次复习为明天），每日新学4集
+export const DEFAULT_COLLECTION_SCHEDULE: CollectionSchedule = {
+  reviewIntervals: [1, 4, 7, 15, 30, 90],
+  maxNewPerDay: 4,
+  maxReviewsPerDay: 600,
+  extraSessionSize: 6,
+  priority: 1,
+};
+
+// SM-2 参数
+const SM2_DEFAULT_EASE = 2.5;
+const SM2_MIN_EASE = 1.3;
+// 评分对应的 SM-2 回忆质量（0-5）
+const SM2_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// 没有时长信息的条目按5分钟估算
+const DEFAULT_ITEM_SECONDS = 5 * 60;
+
+// 一次播放后需要写回条目的调度字段
+export type ScheduleUpdate = Partial<Pick<VideoFile,
+  'firstPlayDate' | 'lastReviewDate' | 'nextReviewDate' | 'reviewCount' | 'stage'
+  | 'intervalDays' | 'easeFactor' | 'lastGrade' | 'lapses'
+>>;
+
+export interface ScheduleContext {
+  now: Date;
+  schedule: CollectionSchedule; // 所属合辑的节奏
+  grade?: ReviewGrade; // 未评分时按“记得”处理
+  fuzz?: boolean; // 是否对新的到期日做随机扰动
+  random?: () => number; // 随机数来源，便于测试时固定
+  dayStartHour?: number; // 学习日开始的小时，默认0点
+  anchor?: IntervalAnchor; // 间隔的起算点，默认从本次复习起算
+  maintenance?: boolean; // 毕业后是否继续按最长间隔维护复习
+  pauses?: PausePeriod[]; // 暂停记录；按首次播放锚定时，首次播放后暂停顺延的天数计入间隔
+}
+
+export interface SchedulingAlgorithm {
+  id: SchedulerAlgorithmId;
+  name: string;
+  description: string;
+  // 根据本次播放的评分和所属合辑的节奏计算条目新的调度状态
+  schedule: (video: VideoFile, context: ScheduleContext) => ScheduleUpdate;
+}
+
+export interface SchedulerInput {
+  videos: VideoFile[];
+  collections: Collection[];
+  history: DailyPlaylist[]; // 已生成的播放列表（含已完成），供算法参考
+  pauses: PausePeriod[]; // 暂停记录，进行中的暂停会冻结对应合辑的计划
+  now: Date;
+  settings: AppSettings;
+}
+
+export interface DayPlan {
+  newVideos: PlaylistItem[];
+  reviews: PlaylistItem[];
+}
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * 某一时刻所在学习日的开始时刻：早于 dayStartHour 的时间算作前一天
+ */
+export function startOfLearningDay(date: Date, dayStartHour: number = 0): Date {
+  const result = new Date(date);
+  if (result.getHours() < dayStartHour) {
+    result.setDate(result.getDate() - 1);
+  }
+  result.setHours(dayStartHour, 0, 0, 0);
+  return result;
+}
+
+/**
+ * 两个时刻相差的学习日数
+ */
+export function learningDayDiff(later: Date, earlier: Date, dayStartHour: number = 0): number {
+  return Math.round(
+    (startOfLearningDay(later, dayStartHour).getTime() - startOfLearningDay(earlier, dayStartHour).getTime()) / DAY_MS
+  );
+}
+
+// 到期日按日历日期计，从当天的学习日开始时刻起到期（兼容旧数据中带时分的到期日）
+const startOfDueDay = (dueDate: Date, dayStartHour: number): Date => {
+  const result = new Date(dueDate);
+  result.setHours(dayStartHour, 0, 0, 0);
+  return result;
+};
+
+// 距到期还有几个学习日，负数表示已逾期
+const daysUntilDue = (dueDate: Date, now: Date, dayStartHour: number): number =>
+  Math.round((startOfDueDay(dueDate, dayStartHour).getTime() - startOfLearningDay(now, dayStartHour).getTime()) / DAY_MS);
+
+// 按锚定方式计算下一次到期日（学习日开始时刻），最早为下一个学习日
+// firstPlayOffset：按首次播放锚定时距首次播放的天数，缺省时在上一次计划日期上累加间隔
+const resolveDueDate = (
+  video: VideoFile,
+  intervalDays: number,
+  { now, dayStartHour = 0, anchor = 'lastReview', pauses = [] }: ScheduleContext,
+  firstPlayOffset?: number
+): Date => {
+  const today = startOfLearningDay(now, dayStartHour);
+  const scheduled = video.backlogSince ?? video.nextReviewDate;
+  let dueDate: Date;
+  if (anchor === 'firstPlay' && video.firstPlayDate) {
+    // 在上一次计划日期上累加时，计划日期已经顺延过，不再重复计入暂停
+    const offset = firstPlayOffset !== undefined
+      ? firstPlayOffset + getShiftedDaysSince(pauses, video.collectionId, video.firstPlayDate)
+      : (scheduled ? daysUntilDue(scheduled, video.firstPlayDate, dayStartHour) : learningDayDiff(now, video.firstPlayDate, dayStartHour)) + intervalDays;
+    dueDate = addDays(startOfLearningDay(video.firstPlayDate, dayStartHour), offset);
+  } else if (anchor === 'scheduled' && scheduled) {
+    dueDate = addDays(startOfDueDay(scheduled, dayStartHour), intervalDays);
+  } else {
+    dueDate = addDays(today, intervalDays);
+  }
+  const earliest = addDays(today, 1);
+  return dueDate.getTime() < earliest.getTime() ? earliest : dueDate;
+};
+
+// 重新学习：不论锚定方式，从今天起算
+const relearnDueDate = (intervalDays: number, { now, dayStartHour = 0 }: ScheduleContext): Date =>
+  addDays(startOfLearningDay(now, dayStartHour), intervalDays);
+
+// 固定间隔（艾宾浩斯）算法：按评分在合辑的间隔阶梯上移动
+// 记得前进一级，很轻松跳过一级，有点难停留在当前级，忘记了退回一级并进入重新学习
+// 按首次播放锚定时，阶梯中的天数即距首次播放的天数
+export const fixedIntervalAlgorithm: SchedulingAlgorithm = {
+  id: 'fixed',
+  name: '固定间隔',
+  description: '按合辑设定的艾宾浩斯间隔阶梯复习，评分决定前进、停留或退回',
+  schedule: (video, context) => {
+    const { now, schedule: { reviewIntervals }, grade = 'good' } = context;
+    if (!video.firstPlayDate) {
+      // 第一次播放：下一个学习日开始；很轻松则直接跳到第二级
+      const reviewCount = grade === 'easy' ? 2 : 1;
+      const intervalDays = reviewIntervals[reviewCount - 1];
+      return {
+        firstPlayDate: now,
+        lastReviewDate: now,
+        lastGrade: grade,
+        reviewCount,
+        intervalDays,
+        nextReviewDate: resolveDueDate(video, intervalDays, context),
+        stage: 'learning',
+      };
+    }
+
+    if (grade === 'again') {
+      // 回忆失败：退回一级，明天重新学习
+      return {
+        lastReviewDate: now,
+        lastGrade: grade,
+        lapses: (video.lapses ?? 0) + 1,
+        reviewCount: Math.max(1, video.reviewCount - 1),
+        intervalDays: reviewIntervals[0],
+        nextReviewDate: relearnDueDate(reviewIntervals[0], context),
+        stage: 'relearning',
+      };
+    }
+
+    const steps = grade === 'hard' ? 0 : grade === 'easy' ? 2 : 1;
+    const reviewCount = Math.max(1, video.reviewCount + steps);
+
+    if (reviewCount >= getGraduationStep(context.schedule)) {
+      return {
+        lastReviewDate: now,
+        lastGrade: grade,
+        reviewCount,
+        nextReviewDate: undefined,
+        stage: 'graduated',
+      };
+    }
+
+    const intervalDays = reviewIntervals[reviewCount - 1];
+    return {
+      lastReviewDate: now,
+      lastGrade: grade,
+      reviewCount,
+      intervalDays,
+      nextReviewDate: resolveDueDate(video, intervalDays, context, intervalDays),
+      stage: 'learning',
+    };
+  },
+};
+
+// SM-2 算法：间隔随难度系数增长，回忆失败则从头开始
+export const sm2Algorithm: SchedulingAlgorithm = {
+  id: 'sm2',
+  name: 'SM-2 自适应',
+  description: '经典 SuperMemo-2：评分调整难度系数，超过合辑阶梯的最长间隔后完成',
+  schedule: (video, context) => {
+    const { now, schedule: { reviewIntervals }, grade = 'good' } = context;
+    const quality = SM2_QUALITY[grade];
+    const previousEase = video.easeFactor ?? SM2_DEFAULT_EASE;
+    const easeFactor = Math.max(
+      SM2_MIN_EASE,
+      previousEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+    const firstPlayDate = video.firstPlayDate ?? now;
+
+    if (quality < 3 && video.firstPlayDate) {
+      return {
+        firstPlayDate,
+        lastReviewDate: now,
+        lastGrade: grade,
+        lapses: (video.lapses ?? 0) + 1,
+        reviewCount: 1,
+        easeFactor,
+        intervalDays: 1,
+        nextReviewDate: relearnDueDate(1, context),
+        stage: 'relearning',
+      };
+    }
+
+    const reviewCount = video.reviewCount + 1;
+    let intervalDays: number;
+    if (reviewCount === 1) {
+      intervalDays = 1;
+    } else if (reviewCount === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round((video.intervalDays ?? 6) * easeFactor);
+    }
+
+    if (intervalDays > reviewIntervals[reviewIntervals.length - 1]) {
+      return {
+        firstPlayDate,
+        lastReviewDate: now,
+        lastGrade: grade,
+        reviewCount,
+        easeFactor,
+        intervalDays,
+        nextReviewDate: undefined,
+        stage: 'graduated',
+      };
+    }
+
+    return {
+      firstPlayDate,
+      lastReviewDate: now,
+      lastGrade: grade,
+      reviewCount,
+      easeFactor,
+      intervalDays,
+      nextReviewDate: resolveDueDate(video, intervalDays, context),
+      stage: 'learning',
+    };
+  },
+};
+
+export const SCHEDULING_ALGORITHMS: Record<SchedulerAlgorithmId, SchedulingAlgorithm> = {
+  fixed: fixedIntervalAlgorithm,
+  sm2: sm2Algorithm,
+};
+
+/**
+ * 按 ID 获取调度算法，未知 ID 回退到固定间隔
+ */
+export function getSchedulingAlgorithm(id: SchedulerAlgorithmId | undefined): SchedulingAlgorithm {
+  return (id && SCHEDULING_ALGORITHMS[id]) || fixedIntervalAlgorithm;
+}
+
+/**
+ * 合辑的调度设置，缺省项使用默认节奏
+ */
+export function getCollectionSchedule(collection: Collection | undefined): CollectionSchedule {
+  const schedule = { ...DEFAULT_COLLECTION_SCHEDULE, ...(collection?.schedule || {}) };
+  if (schedule.reviewIntervals.length === 0) {
+    schedule.reviewIntervals = DEFAULT_COLLECTION_SCHEDULE.reviewIntervals;
+  }
+  return schedule;
+}
+
+/**
+ * 毕业所需的学习步数：到达阶梯长度减一级时毕业（默认阶梯为5步）
+ */
+export function getGraduationStep(schedule: CollectionSchedule): number {
+  return schedule.reviewIntervals.length - 1;
+}
+
+/**
+ * 由应用设置、所属合辑和暂停记录生成一次播放的调度上下文（不含评分）
+ */
+export function getScheduleContext(
+  settings: AppSettings,
+  collection: Collection | undefined,
+  now: Date,
+  pauses: PausePeriod[] = []
+): ScheduleContext {
+  return {
+    now,
+    schedule: getCollectionSchedule(collection),
+    dayStartHour: settings.dayStartHour,
+    anchor: settings.intervalAnchor,
+    maintenance: settings.maintenanceReviews,
+    pauses,
+  };
+}
+
+/**
+ * 校验合辑调度设置，返回错误信息（无错误返回 null）
+ */
+export function validateCollectionSchedule(schedule: CollectionSchedule): string | null {
+  const { reviewIntervals } = schedule;
+  if (reviewIntervals.length < 2) {
+    return '间隔阶梯至少需要2级';
+  }
+  if (reviewIntervals.some(days => !Number.isInteger(days) || days < 1)) {
+    return '间隔必须是大于0的整数天';
+  }
+  if (reviewIntervals.some((days, i) => i > 0 && days <= reviewIntervals[i - 1])) {
+    return '间隔必须逐级递增';
+  }
+  const counts = [schedule.maxNewPerDay, schedule.maxReviewsPerDay, schedule.extraSessionSize];
+  if (counts.some(count => !Number.isInteger(count) || count < 0)) {
+    return '数量上限必须是不小于0的整数';
+  }
+  if (!Number.isInteger(schedule.priority) || schedule.priority < 1 || schedule.priority > 5) {
+    return '优先级必须是1-5的整数';
+  }
+  return null;
+}
+
+/**
+ * 到期日随机扰动：间隔越长扰动越大，避免同批导入的条目永远在同一天到期
+ */
+export function fuzzDueDate(dueDate: Date, intervalDays: number, random: () => number = Math.random): Date {
+  if (intervalDays < 3) return dueDate;
+  const range = intervalDays < 7 ? 1 : Math.max(1, Math.round(intervalDays * 0.05));
+  const offset = Math.floor(random() * (range * 2 + 1)) - range;
+  return addDays(dueDate, offset);
+}
+
+// 算法结果 + 毕业后的维护复习：已毕业的条目再次复习后进入维护阶段，间隔不短于阶梯的最长间隔。
+// 维护复习关闭后仍可能播放维护中的条目（列表在关闭前生成），保持原阶段，不退回已毕业
+const scheduleWithMaintenance = (video: VideoFile, algorithm: SchedulingAlgorithm, context: ScheduleContext): ScheduleUpdate => {
+  const update = algorithm.schedule(video, context);
+  if (update.stage !== 'graduated') return update;
+  if (!context.maintenance) return isGraduated(video) ? { ...update, stage: video.stage } : update;
+  const { reviewIntervals } = context.schedule;
+  const intervalDays = Math.max(update.intervalDays ?? 0, reviewIntervals[reviewIntervals.length - 1]);
+  return {
+    ...update,
+    stage: isGraduated(video) ? 'maintenance' : 'graduated',
+    intervalDays,
+    nextReviewDate: resolveDueDate(video, intervalDays, context),
+  };
+};
+
+/**
+ * 记录一次播放，返回更新后的条目；阶段变化经由 transitionStage 记录
+ */
+export function applyPlay(video: VideoFile, algorithm: SchedulingAlgorithm, context: ScheduleContext): VideoFile {
+  const { stage, ...update } = scheduleWithMaintenance(video, algorithm, context);
+  if (context.fuzz && update.nextReviewDate && update.intervalDays) {
+    update.nextReviewDate = fuzzDueDate(update.nextReviewDate, update.intervalDays, context.random);
+  }
+  const transitioned = transitionStage(video, stage ?? video.stage, {
+    at: context.now,
+    reason: 'play',
+    step: update.reviewCount,
+  });
+  // 复习过后不再属于积压
+  return { ...transitioned, ...update, backlogSince: undefined };
+}
+
+/**
+ * 手动重置为未开始：清除全部调度状态，阶段记录保留
+ */
+export function resetSchedule(video: VideoFile, now: Date): VideoFile {
+  const transitioned = transitionStage(video, 'new', { at: now, reason: 'reset', step: 0 });
+  return {
+    ...transitioned,
+    firstPlayDate: undefined,
+    lastReviewDate: undefined,
+    nextReviewDate: undefined,
+    intervalDays: undefined,
+    easeFactor: undefined,
+    lastGrade: undefined,
+    lapses: undefined,
+    backlogSince: undefined,
+  };
+}
+
+/**
+ * 手动设置下一次复习日期，按所选日期的学习日开始时刻到期
+ */
+export function rescheduleVideo(video: VideoFile, dueDate: Date, dayStartHour: number = 0): VideoFile {
+  return {
+    ...video,
+    nextReviewDate: startOfDueDay(dueDate, dayStartHour),
+    backlogSince: undefined,
+  };
+}
+
+/**
+ * 手动前进或退回一级：按合辑的间隔阶梯从今天重新起算
+ * 退回到第0步等同于重置；前进到毕业步数即毕业（开启维护复习时按最长间隔安排）
+ */
+export function shiftScheduleStep(video: VideoFile, delta: 1 | -1, context: ScheduleContext): VideoFile {
+  const { now, schedule: { reviewIntervals }, dayStartHour = 0 } = context;
+  const graduationStep = getGraduationStep(context.schedule);
+  const currentStep = isGraduated(video) ? graduationStep : Math.min(video.reviewCount, graduationStep);
+  const step = Math.max(0, Math.min(graduationStep, currentStep + delta));
+  if (step === currentStep) return video;
+  if (step === 0) return resetSchedule(video, now);
+
+  const today = startOfLearningDay(now, dayStartHour);
+  if (step >= graduationStep) {
+    const intervalDays = reviewIntervals[reviewIntervals.length - 1];
+    const transitioned = transitionStage(video, 'graduated', { at: now, reason: 'reschedule', step });
+    return {
+      ...transitioned,
+      firstPlayDate: video.firstPlayDate ?? now,
+      intervalDays: context.maintenance ? intervalDays : undefined,
+      nextReviewDate: context.maintenance ? addDays(today, intervalDays) : undefined,
+      backlogSince: undefined,
+    };
+  }
+
+  const intervalDays = reviewIntervals[step - 1];
+  const transitioned = transitionStage(video, 'learning', { at: now, reason: 'reschedule', step });
+  return {
+    ...transitioned,
+    firstPlayDate: video.firstPlayDate ?? now,
+    intervalDays,
+    nextReviewDate: addDays(today, intervalDays),
+    backlogSince: undefined,
+  };
+}
+
+/**
+ * 预估各评分对应的下一次复习距今的学习日数，返回 null 表示该评分会使条目完成
+ */
+export function previewGradeIntervals(
+  video: VideoFile,
+  algorithm: SchedulingAlgorithm,
+  context: Omit<ScheduleContext, 'grade'>
+): Record<ReviewGrade, number | null> {
+  const grades: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+  return grades.reduce((result, grade) => {
+    const update = scheduleWithMaintenance(video, algorithm, { ...context, grade });
+    result[grade] = update.nextReviewDate
+      ? daysUntilDue(update.nextReviewDate, context.now, context.dayStartHour ?? 0)
+      : null;
+    return result;
+  }, {} as Record<ReviewGrade, number | null>);
+}
+
+/**
+ * 计算距离第一次观看的学习日数
+ */
+export function getDaysSinceFirstPlay(firstPlayDate: Date, now: Date, dayStartHour: number = 0): number {
+  return learningDayDiff(now, firstPlayDate, dayStartHour);
+}
+
+/**
+ * 合辑是否处于暂停中
+ */
+export function isCollectionPaused(pauses: PausePeriod[], collectionId: string): boolean {
+  return pauses.some(pause =>
+    !pause.endDate && (!pause.collectionIds || pause.collectionIds.includes(collectionId))
+  );
+}
+
+/**
+ * 暂停的天数（进行中的暂停算到 now），恢复时按此顺延
+ */
+export function getPauseDays(pause: PausePeriod, now: Date, dayStartHour: number = 0): number {
+  return Math.max(0, learningDayDiff(pause.endDate ?? now, pause.startDate, dayStartHour));
+}
+
+/**
+ * 某时刻之后开始、已恢复的暂停给合辑顺延的总天数
+ */
+export function getShiftedDaysSince(pauses: PausePeriod[], collectionId: string, since: Date): number {
+  return pauses
+    .filter(pause => pause.endDate && pause.startDate.getTime() >= since.getTime())
+    .filter(pause => !pause.collectionIds || pause.collectionIds.includes(collectionId))
+    .reduce((sum, pause) => sum + (pause.shiftedDays ?? 0), 0);
+}
+
+/**
+ * 参与学习计划的合辑（活跃且未暂停）
+ */
+export function getActiveCollections({ collections, pauses }: Pick<SchedulerInput, 'collections' | 'pauses'>): Collection[] {
+  return collections.filter(c => c.isActive && !isCollectionPaused(pauses, c.id));
+}
+
+/**
+ * 参与学习计划的条目（所属合辑活跃且未暂停，条目未搁置）
+ */
+export function getActiveVideos(input: Pick<SchedulerInput, 'videos' | 'collections' | 'pauses'>): VideoFile[] {
+  const activeCollectionIds = new Set(getActiveCollections(input).map(c => c.id));
+  return input.videos.filter(v => activeCollectionIds.has(v.collectionId) && v.stage !== 'suspended');
+}
+
+// 是否有待进行的复习：已毕业的条目只在开启维护复习时参与
+const hasPendingReview = (video: VideoFile, settings: AppSettings): boolean =>
+  !!video.nextReviewDate && (!isGraduated(video) || settings.maintenanceReviews);
+
+// 合辑内的新条目按集数排序，集数相同时按添加时间和 ID，保证每次加载的顺序一致
+const compareEpisodes = (a: VideoFile, b: VideoFile): number =>
+  (a.episodeNumber ?? Number.MAX_SAFE_INTEGER) - (b.episodeNumber ?? Number.MAX_SAFE_INTEGER)
+  || a.dateAdded.getTime() - b.dateAdded.getTime()
+  || a.id.localeCompare(b.id);
+
+interface NewItemQueue {
+  videos: VideoFile[];
+  weight: number;
+}
+
+// 按策略从各合辑的候选队列中依次取出条目
+// 轮流和加权使用平滑加权轮询：每轮各队列累加权重，取累计值最大者（相同取靠前的合辑），不含随机，结果稳定
+const interleaveQueues = (queues: NewItemQueue[], strategy: NewItemSelection, total: number): VideoFile[] => {
+  if (strategy === 'episode') {
+    return queues.flatMap(queue => queue.videos).slice(0, total);
+  }
+  const pending = queues.map(queue => ({
+    videos: [...queue.videos],
+    weight: strategy === 'weighted' ? queue.weight : 1,
+    current: 0,
+  }));
+  const result: VideoFile[] = [];
+  while (result.length < total) {
+    const available = pending.filter(queue => queue.videos.length > 0);
+    if (available.length === 0) break;
+    const totalWeight = available.reduce((sum, queue) => sum + queue.weight, 0);
+    available.forEach(queue => {
+      queue.current += queue.weight;
+    });
+    const chosen = available.reduce((best, queue) => (queue.current > best.current ? queue : best));
+    chosen.current -= totalWeight;
+    result.push(chosen.videos.shift()!);
+  }
+  return result;
+};
+
+/**
+ * 获取今日新学列表：每个活跃合辑按各自的每日上限（加餐时为加餐数量）提供候选，
+ * 再按选取策略在合辑之间分配，常规学习不超过合计上限和每日时长预算
+ */
+export function selectNewVideos(input: SchedulerInput, isExtraSession: boolean = false): PlaylistItem[] {
+  const activeVideos = getActiveVideos(input);
+  const { newItemSelection, maxNewPerDayTotal } = input.settings;
+  const queues = getActiveCollections(input).map(collection => {
+    const schedule = getCollectionSchedule(collection);
+    const limit = isExtraSession ? schedule.extraSessionSize : schedule.maxNewPerDay;
+    return {
+      videos: activeVideos
+        .filter(v => v.collectionId === collection.id && v.stage === 'new')
+        .sort(compareEpisodes)
+        .slice(0, limit),
+      weight: schedule.priority,
+    };
+  });
+  const total = isExtraSession || maxNewPerDayTotal <= 0 ? Infinity : maxNewPerDayTotal;
+  const selected = interleaveQueues(queues, newItemSelection, total);
+
+  return (isExtraSession ? selected : fitMinutesBudget(selected, input))
+    .map(video => ({
+      videoId: video.id,
+      reviewType: 'new',
+      reviewNumber: 1,
+    }));
+}
+
+// 条目当前的复习间隔（天），旧数据没有记录时按阶梯推算
+const getIntervalDays = (video: VideoFile, collection: Collection | undefined): number => {
+  const { reviewIntervals } = getCollectionSchedule(collection);
+  return video.intervalDays ?? reviewIntervals[Math.max(0, Math.min(video.reviewCount, reviewIntervals.length) - 1)];
+};
+
+// 相对逾期程度：逾期天数 / 间隔，越大越容易遗忘
+const getRelativeOverdue = (video: VideoFile, input: SchedulerInput): number => {
+  const dueDate = video.backlogSince ?? video.nextReviewDate;
+  if (!dueDate) return 0;
+  const collection = input.collections.find(c => c.id === video.collectionId);
+  return -daysUntilDue(dueDate, input.now, input.settings.dayStartHour) / Math.max(1, getIntervalDays(video, collection));
+};
+
+// 到期日不晚于今天（学习日）、尚未完成的条目
+const getDueVideos = (input: SchedulerInput): VideoFile[] => {
+  return getActiveVideos(input).filter(video => {
+    if (!hasPendingReview(video, input.settings)) return false;
+    return daysUntilDue(video.nextReviewDate!, input.now, input.settings.dayStartHour) <= 0;
+  });
+};
+
+/**
+ * 逾期条目（到期日早于今天），按相对逾期程度从高到低排序
+ */
+export function getOverdueVideos(input: SchedulerInput): VideoFile[] {
+  return getDueVideos(input)
+    .filter(video => daysUntilDue(video.nextReviewDate!, input.now, input.settings.dayStartHour) < 0)
+    .sort((a, b) => getRelativeOverdue(b, input) - getRelativeOverdue(a, input));
+}
+
+/**
+ * 把逾期条目平摊到从今天起的 days 天内，最容易遗忘的排在前面
+ * 返回 videoId -> 新到期日
+ */
+export function spreadBacklog(input: SchedulerInput, days: number): Map<string, Date> {
+  const overdue = getOverdueVideos(input);
+  const spreadDays = Math.max(1, days);
+  const assignments = new Map<string, Date>();
+  overdue.forEach((video, rank) => {
+    const dayIndex = Math.floor((rank * spreadDays) / overdue.length);
+    assignments.set(video.id, addDays(startOfLearningDay(input.now, input.settings.dayStartHour), dayIndex));
+  });
+  return assignments;
+}
+
+/**
+ * 未来 days 天的复习量：平摊到当天的积压 + 当天正常到期
+ */
+export function getBacklogForecast(input: SchedulerInput, days: number): BacklogDay[] {
+  const today = startOfLearningDay(input.now, input.settings.dayStartHour);
+  const forecast: BacklogDay[] = Array.from({ length: days }, (_, i) => ({
+    date: addDays(today, i),
+    backlog: 0,
+    regular: 0,
+  }));
+  getActiveVideos(input).forEach(video => {
+    if (!hasPendingReview(video, input.settings)) return;
+    const index = Math.max(0, daysUntilDue(video.nextReviewDate!, input.now, input.settings.dayStartHour));
+    if (index >= days) return;
+    if (video.backlogSince) {
+      forecast[index].backlog++;
+    } else {
+      forecast[index].regular++;
+    }
+  });
+  return forecast;
+}
+
+/**
+ * 获取今日复习列表（所有应复习的条目，音频/视频方式均可），每个合辑不超过其复习上限
+ * 积压模式下按相对逾期程度排序，否则按到期日排序
+ */
+export function selectReviews(input: SchedulerInput): PlaylistItem[] {
+  const byPriority = input.settings.backlogMode
+    ? (a: VideoFile, b: VideoFile) => getRelativeOverdue(b, input) - getRelativeOverdue(a, input)
+    : (a: VideoFile, b: VideoFile) => {
+        // 优先处理逾期时间长的
+        if (!a.nextReviewDate || !b.nextReviewDate) return 0;
+        return a.nextReviewDate.getTime() - b.nextReviewDate.getTime();
+      };
+
+  const dueVideos = getDueVideos(input);
+  const reviewVideos = getActiveCollections(input)
+    .flatMap(collection => dueVideos
+      .filter(v => v.collectionId === collection.id)
+      .sort(byPriority)
+      .slice(0, getCollectionSchedule(collection).maxReviewsPerDay)
+    )
+    .sort(byPriority);
+
+  return reviewVideos.map(video => ({
+    videoId: video.id,
+    reviewType: 'review',
+    reviewNumber: video.reviewCount + 1,
+    daysSinceFirstPlay: video.firstPlayDate ? getDaysSinceFirstPlay(video.firstPlayDate, input.now, input.settings.dayStartHour) : 0,
+    isRecommendedForVideo: [3, 4, 5].includes(video.reviewCount), // 15/30/90天建议视频复习
+  }));
+}
+
+/**
+ * 生成当日计划
+ */
+export function planDay(input: SchedulerInput, isExtraSession: boolean = false): DayPlan {
+  return {
+    newVideos: selectNewVideos(input, isExtraSession),
+    reviews: selectReviews(input),
+  };
+}
+
+// 按每日时长预算截取新学条目：先扣除当天复习的时长，按选取顺序依次放入，放不下即停止（保持集数顺序）
+// 没有复习时至少安排一个，避免超长条目永远排不上
+const fitMinutesBudget = (candidates: VideoFile[], input: SchedulerInput): VideoFile[] => {
+  const { dailyMinutesBudget } = input.settings;
+  if (!dailyMinutesBudget || dailyMinutesBudget <= 0) return candidates;
+
+  const reviewSeconds = selectReviews(input).reduce((sum, item) => {
+    const video = input.videos.find(v => v.id === item.videoId);
+    return video ? sum + estimateSeconds(video, input.videos).seconds : sum;
+  }, 0);
+  let remaining = dailyMinutesBudget * 60 - reviewSeconds;
+  const result: VideoFile[] = [];
+  for (const video of candidates) {
+    const { seconds } = estimateSeconds(video, input.videos);
+    if (seconds > remaining && !(result.length === 0 && reviewSeconds === 0)) break;
+    result.push(video);
+    remaining -= seconds;
+  }
+  return result;
+};
+
+// 条目预计时长：优先使用自身时长，其次同合辑已知时长的平均值
+const estimateSeconds = (video: VideoFile, videos: VideoFile[]): { seconds: number; isEstimated: boolean } => {
+  if (video.duration && video.duration > 0) {
+    return { seconds: video.duration, isEstimated: false };
+  }
+  const known = videos.filter(v => v.collectionId === video.collectionId && v.duration && v.duration > 0);
+  if (known.length > 0) {
+    const average = known.reduce((sum, v) => sum + v.duration!, 0) / known.length;
+    return { seconds: average, isEstimated: true };
+  }
+  return { seconds: DEFAULT_ITEM_SECONDS, isEstimated: true };
+};
+
+/**
+ * 难点条目：忘记过、最近一次评为“忘记了”或“有点难”、或正在重新学习
+ */
+export function isDifficultVideo(video: VideoFile): boolean {
+  return (video.lapses ?? 0) > 0
+    || video.lastGrade === 'again'
+    || video.lastGrade === 'hard'
+    || video.stage === 'relearning';
+}
+
+/**
+ * 考前突击列表：合辑内按筛选条件选出的全部条目，按集数顺序，不考虑到期日和每日上限
+ */
+export function selectCramItems(videos: VideoFile[], filter: CramFilter): PlaylistItem[] {
+  return videos
+    .filter(video => video.collectionId === filter.collectionId)
+    .filter(video => filter.stages.length === 0 || filter.stages.includes(video.stage))
+    .filter(video => !filter.difficultOnly || isDifficultVideo(video))
+    .sort(compareEpisodes)
+    .map(video => ({
+      videoId: video.id,
+      reviewType: video.stage === 'new' ? 'new' as const : 'review' as const,
+      reviewNumber: video.reviewCount,
+    }));
+}
+
+/**
+ * 预测未来 days 天每天的新学和复习
+ * 逐日模拟：按当天计划“播放”全部条目（评分按记得、不加随机扰动），再推进到下一天
+ */
+export function forecastWorkload(input: SchedulerInput, algorithm: SchedulingAlgorithm, days: number): ForecastDay[] {
+  let videos = input.videos;
+  const forecast: ForecastDay[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const now = addDays(input.now, i);
+    const dayInput: SchedulerInput = { ...input, videos, now };
+    const { newVideos, reviews } = planDay(dayInput);
+    const played = new Map<string, VideoFile>();
+
+    const items = [...newVideos, ...reviews].map((item): ForecastItem => {
+      const video = videos.find(v => v.id === item.videoId)!;
+      const collection = input.collections.find(c => c.id === video.collectionId);
+      played.set(video.id, applyPlay(video, algorithm, getScheduleContext(input.settings, collection, now, input.pauses)));
+      return {
+        videoId: video.id,
+        collectionId: video.collectionId,
+        reviewType: item.reviewType,
+        reviewNumber: item.reviewNumber,
+        mode: item.reviewType === 'new' || item.isRecommendedForVideo ? 'video' : 'audio',
+        ...estimateSeconds(video, input.videos),
+      };
+    });
+
+    forecast.push({ date: startOfLearningDay(now, input.settings.dayStartHour), items });
+    if (played.size > 0) {
+      videos = videos.map(v => played.get(v.id) ?? v);
+    }
+  }
+
+  return forecast;
+}
@@ -0,0 +1,27 @@
+// 应用设置相关工具函数
+import type { AppSettings } from '../types';
+
+// 设置在 IndexedDB 键值数据中的键名（旧版本为 localStorage 键名）
+export const SETTINGS_KEY = 'appSettings';
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  schedulerAlgorithm: 'fixed',
+  backlogMode: false,
+  backlogSpreadDays: 7,
+  fuzzDueDates: true,
+  dayStartHour: 0,
+  intervalAnchor: 'lastReview',
+  maintenanceReviews: false,
+  // 与旧版本一致：所有合辑合计每天 4 集，按合辑依次选取
+  newItemSelection: 'episode',
+  maxNewPerDayTotal: 4,
+  watchThreshold: 80,
+  dailyMinutesBudget: 0,
+  reminderEnabled: false,
+  reminderTime: '20:00',
+};
+
+// 合并默认值，兼容旧版本保存的不完整设置
+export function normalizeAppSettings(stored: Partial<AppSettings> | null | undefined): AppSettings {
+  return { ...DEFAULT_APP_SETTINGS, ...(stored || {}) };
+}
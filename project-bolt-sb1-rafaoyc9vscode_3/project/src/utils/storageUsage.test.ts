@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Collection, VideoFile } from '../types';
+import { StoredFileInfo, checkImportFits, formatBytes, summarizeStorage } from './storageUsage';
+
+const MB = 1024 * 1024;
+
+const makeVideo = (id: string, collectionId: string): VideoFile => ({
+  id,
+  name: `${id}.mp4`,
+  dateAdded: new Date(2026, 2, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId,
+});
+
+const makeCollection = (id: string, name: string): Collection => ({
+  id,
+  name,
+  dateCreated: new Date(2026, 2, 1),
+  isActive: true,
+  totalVideos: 0,
+  completedVideos: 0,
+  color: '#000000',
+});
+
+describe('summarizeStorage', () => {
+  const videos = [makeVideo('a1', 'a'), makeVideo('a2', 'a'), makeVideo('b1', 'b')];
+  const collections = [makeCollection('a', '合辑A'), makeCollection('b', '合辑B')];
+  const files: StoredFileInfo[] = [
+    { id: 'a1', name: 'a1.mp4', size: 10 * MB },
+    { id: 'a2', name: 'a2.mp4', size: 20 * MB },
+    { id: 'b1', name: 'b1.mp4', size: 50 * MB },
+    { id: 'gone', name: 'gone.mp4', size: 5 * MB },
+    { id: 'linked', name: 'linked.mp4', size: 100 * MB, linked: true },
+  ];
+
+  it('sums copied files per collection, largest first', () => {
+    const summary = summarizeStorage(files, videos, collections);
+    expect(summary.totalBytes).toBe(85 * MB);
+    expect(summary.collections.map(({ name, bytes, fileCount }) => ({ name, bytes, fileCount }))).toEqual([
+      { name: '合辑B', bytes: 50 * MB, fileCount: 1 },
+      { name: '合辑A', bytes: 30 * MB, fileCount: 2 },
+    ]);
+  });
+
+  it('lists the largest items and files without an item', () => {
+    const summary = summarizeStorage(files, videos, collections, 2);
+    expect(summary.largest.map(item => item.videoId)).toEqual(['b1', 'a2']);
+    expect(summary).toMatchObject({ orphanBytes: 5 * MB, orphanCount: 1 });
+  });
+});
+
+describe('checkImportFits', () => {
+  it('keeps some headroom below the available space', () => {
+    const estimate = { usage: 900 * MB, quota: 1000 * MB };
+    expect(checkImportFits(90 * MB, estimate)).toEqual({ fits: true, availableBytes: 100 * MB });
+    expect(checkImportFits(99 * MB, estimate).fits).toBe(false);
+  });
+
+  it('allows the import when the space cannot be estimated', () => {
+    expect(checkImportFits(10 * MB, null)).toEqual({ fits: true });
+  });
+});
+
+describe('formatBytes', () => {
+  it('picks a readable unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(250 * MB)).toBe('250 MB');
+    expect(formatBytes(3 * 1024 * MB)).toBe('3.0 GB');
+  });
+});
@@ -0,0 +1,150 @@
+// 存储空间统计相关工具函数
+import type { Collection, VideoFile } from '../types';
+
+// 浏览器报告的存储用量（字节）
+export interface StorageEstimateInfo {
+  usage: number;
+  quota: number;
+}
+
+// files 表中一个文件的大小信息，不含媒体内容
+export interface StoredFileInfo {
+  id: string;
+  name: string;
+  size: number;
+  linked?: boolean; // 关联文件夹中的文件，只保存了句柄，不占用浏览器存储
+  type?: string; // MIME 类型
+}
+
+export interface CollectionStorage {
+  collectionId: string;
+  name: string;
+  color?: string;
+  bytes: number;
+  fileCount: number;
+}
+
+export interface VideoStorage {
+  videoId: string;
+  name: string;
+  collectionName?: string;
+  bytes: number;
+}
+
+export interface StorageBreakdown {
+  totalBytes: number;
+  collections: CollectionStorage[]; // 按占用从大到小
+  largest: VideoStorage[];
+  orphanBytes: number; // 没有对应条目的文件
+  orphanCount: number;
+}
+
+// 导入时预留的余量：浏览器的估算并不精确，索引和元数据也要占用空间
+const IMPORT_HEADROOM_RATIO = 0.05;
+
+/**
+ * 读取浏览器的存储用量估算，不支持时返回 null
+ */
+export async function getStorageEstimate(): Promise<StorageEstimateInfo | null> {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (error) {
+    console.warn('读取存储用量失败', error);
+    return null;
+  }
+}
+
+/**
+ * 当前存储是否已持久化（不会在空间紧张时被浏览器自动清理）
+ */
+export async function isStoragePersisted(): Promise<boolean> {
+  if (!navigator.storage?.persisted) return false;
+  return navigator.storage.persisted().catch(() => false);
+}
+
+/**
+ * 申请持久化存储，返回是否获准
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist().catch(() => false);
+}
+
+/**
+ * 按合辑和条目汇总已保存文件的大小，关联文件夹中的文件不计入
+ */
+export function summarizeStorage(
+  files: StoredFileInfo[],
+  videos: VideoFile[],
+  collections: Collection[],
+  largestCount: number = 10
+): StorageBreakdown {
+  const videoById = new Map(videos.map(video => [video.id, video]));
+  const collectionById = new Map(collections.map(collection => [collection.id, collection]));
+  const byCollection = new Map<string, CollectionStorage>();
+  const videoSizes: VideoStorage[] = [];
+  let orphanBytes = 0;
+  let orphanCount = 0;
+
+  const copiedFiles = files.filter(file => !file.linked);
+  copiedFiles.forEach(file => {
+    const video = videoById.get(file.id);
+    if (!video) {
+      orphanBytes += file.size;
+      orphanCount++;
+      return;
+    }
+    const collection = collectionById.get(video.collectionId);
+    const entry = byCollection.get(video.collectionId) ?? {
+      collectionId: video.collectionId,
+      name: collection?.name ?? '未知合辑',
+      color: collection?.color,
+      bytes: 0,
+      fileCount: 0,
+    };
+    entry.bytes += file.size;
+    entry.fileCount++;
+    byCollection.set(video.collectionId, entry);
+    videoSizes.push({ videoId: video.id, name: video.name, collectionName: collection?.name, bytes: file.size });
+  });
+
+  return {
+    totalBytes: copiedFiles.reduce((sum, file) => sum + file.size, 0),
+    collections: [...byCollection.values()].sort((a, b) => b.bytes - a.bytes),
+    largest: videoSizes.sort((a, b) => b.bytes - a.bytes).slice(0, largestCount),
+    orphanBytes,
+    orphanCount,
+  };
+}
+
+/**
+ * 判断一批文件能否放进剩余空间；无法估算时视为可以
+ */
+export function checkImportFits(requiredBytes: number, estimate: StorageEstimateInfo | null): {
+  fits: boolean;
+  availableBytes?: number;
+} {
+  if (!estimate || estimate.quota <= 0) return { fits: true };
+  const availableBytes = Math.max(0, estimate.quota - estimate.usage);
+  return {
+    fits: requiredBytes * (1 + IMPORT_HEADROOM_RATIO) <= availableBytes,
+    availableBytes,
+  };
+}
+
+/**
+ * 字节数格式化为易读的大小
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyPlaylist, ReviewEvent, VideoFile } from '../types';
+import { getEventState } from './eventLog';
+import { buildStudyDays, getStudyStreaks } from './studyCalendar';
+
+// 固定的“当前时间”：2026-03-10 20:00，日历覆盖 3 月 1 日到 10 日
+const NOW = new Date(2026, 2, 10, 20, 0);
+
+const makeVideo = (id: string, collectionId = 'c1'): VideoFile => ({
+  id,
+  name: `${id}.mp4`,
+  dateAdded: new Date(2026, 1, 1),
+  reviewCount: 0,
+  stage: 'new',
+  stageHistory: [],
+  collectionId,
+});
+
+const videos = [makeVideo('v1'), makeVideo('v2'), makeVideo('v3', 'c2')];
+
+let eventId = 0;
+// 3 月 day 日 hour 点发生的事件，之后下一次复习在 3 月 nextDay 日
+const event = (videoId: string, type: ReviewEvent['type'], day: number, nextDay?: number, hour = 12): ReviewEvent => ({
+  id: `e${++eventId}`,
+  videoId,
+  type,
+  timestamp: new Date(2026, 2, day, hour),
+  sessionId: 's1',
+  secondsWatched: 0,
+  state: getEventState({
+    ...makeVideo(videoId),
+    reviewCount: 1,
+    stage: type === 'suspend' ? 'suspended' : 'learning',
+    nextReviewDate: nextDay === undefined ? undefined : new Date(2026, 2, nextDay),
+  }),
+});
+
+// 3 月 day 日生成的新学列表
+const newSession = (day: number, isCompleted: boolean, overrides: Partial<DailyPlaylist> = {}): DailyPlaylist => ({
+  id: `p${day}-${isCompleted}`,
+  date: new Date(2026, 2, day, 9),
+  items: [{ videoId: 'v1', reviewType: 'new', reviewNumber: 0 }],
+  isCompleted,
+  lastPlayedIndex: isCompleted ? 1 : 0,
+  isExtraSession: false,
+  playlistType: 'new',
+  ...overrides,
+});
+
+const build = (events: ReviewEvent[], playlists: DailyPlaylist[] = []) =>
+  buildStudyDays(events, playlists, videos, [], NOW, 0, 10);
+const dayOf = (days: ReturnType<typeof build>, date: number) => days[date - 1];
+
+describe('buildStudyDays', () => {
+  it('counts a day as done when every item due that day was reviewed', () => {
+    const days = build([
+      event('v1', 'play', 1, 3),
+      event('v2', 'play', 1, 3),
+      event('v1', 'play', 3, 7),
+      event('v2', 'play', 3, 7),
+      event('v1', 'play', 7, 12),
+    ]);
+    expect(dayOf(days, 3)).toMatchObject({ dueItems: 2, reviewedItems: 2, studiedItems: 2, isDone: true });
+    expect(dayOf(days, 7)).toMatchObject({ dueItems: 2, reviewedItems: 1, isDone: false });
+    // 没复习的条目第二天仍然到期
+    expect(dayOf(days, 8)).toMatchObject({ dueItems: 1, reviewedItems: 0, isDone: false });
+  });
+
+  it('counts a day with only planned new sessions as done once they are completed', () => {
+    const days = build([event('v1', 'play', 1, 3)], [newSession(1, true), newSession(2, false)]);
+    expect(dayOf(days, 1)).toMatchObject({ dueItems: 0, plannedNewSessions: 1, completedNewSessions: 1, isDone: true });
+    expect(dayOf(days, 2)).toMatchObject({ plannedNewSessions: 1, completedNewSessions: 0, isDone: false });
+  });
+
+  it('requires both the due reviews and the planned new sessions', () => {
+    const days = build([event('v1', 'play', 1, 3), event('v1', 'play', 3, 7)], [newSession(3, false)]);
+    expect(dayOf(days, 3)).toMatchObject({ dueItems: 1, reviewedItems: 1, isDone: false });
+  });
+
+  it('ignores extra and cram sessions and treats days with nothing planned as neutral', () => {
+    const days = build([], [
+      newSession(1, false, { isExtraSession: true }),
+      newSession(2, false, { playlistType: 'cram' }),
+    ]);
+    expect(dayOf(days, 1)).toMatchObject({ plannedNewSessions: 0, isDone: false });
+    expect(dayOf(days, 2)).toMatchObject({ plannedNewSessions: 0, isDone: false });
+  });
+
+  it('does not count items rescheduled or suspended that day as due', () => {
+    const days = build([
+      event('v1', 'play', 1, 3),
+      event('v2', 'play', 1, 3),
+      event('v1', 'reschedule', 3, 5),
+      event('v2', 'suspend', 3, 3),
+    ]);
+    expect(dayOf(days, 3).dueItems).toBe(0);
+    expect(dayOf(days, 5).dueItems).toBe(1);
+  });
+
+  it('skips items of paused collections and deleted items', () => {
+    const pauses = [{ id: 'p1', startDate: new Date(2026, 2, 2), endDate: new Date(2026, 2, 6), collectionIds: ['c2'] }];
+    const events = [event('v3', 'play', 1, 3), event('gone', 'play', 1, 3)];
+    const days = buildStudyDays(events, [], videos, pauses, NOW, 0, 10);
+    expect(dayOf(days, 3).dueItems).toBe(0);
+    expect(dayOf(days, 6).dueItems).toBe(1);
+  });
+});
+
+describe('getStudyStreaks', () => {
+  it('does not break the streak on days with nothing due', () => {
+    // 3、5、7 日有到期条目并完成，中间的日子没有到期条目
+    const days = build([
+      event('v1', 'play', 1, 3),
+      event('v1', 'play', 3, 5),
+      event('v1', 'play', 5, 7),
+      event('v1', 'play', 7, 20),
+    ]);
+    expect(getStudyStreaks(days)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('counts days with only new sessions towards the streak', () => {
+    // 1、2 日只有新学，3 日复习到期条目
+    const days = build([event('v1', 'play', 1, 3), event('v1', 'play', 3, 20)], [newSession(1, true), newSession(2, true)]);
+    expect(getStudyStreaks(days)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('breaks the streak when due items were left unreviewed', () => {
+    const days = build([
+      event('v1', 'play', 1, 3),
+      event('v1', 'play', 3, 5),
+      event('v1', 'play', 6, 8),
+      event('v1', 'play', 8, 20),
+    ]);
+    // 5 日到期未复习，6 日补上但 5 日已中断
+    expect(getStudyStreaks(days)).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('does not count today as a break before it is done', () => {
+    const days = build([event('v1', 'play', 1, 9), event('v1', 'play', 9, 10)]);
+    expect(dayOf(days, 10)).toMatchObject({ dueItems: 1, isDone: false });
+    expect(getStudyStreaks(days).current).toBe(1);
+  });
+});
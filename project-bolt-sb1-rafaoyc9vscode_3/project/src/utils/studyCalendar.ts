@@ -0,0 +1,135 @@
+// 学习日历（热力图、连续天数）相关工具函数
+import type { DailyPlaylist, PausePeriod, ReviewEvent, ReviewEventState, StudyDay, StudyStreaks, VideoFile } from '../types';
+import { addDays, learningDayDiff, startOfLearningDay } from './scheduler';
+
+// 某个学习日是否处于暂停期间；collectionId 为空时只看全部合辑的暂停
+const isPausedDay = (day: Date, pauses: PausePeriod[], now: Date, dayStartHour: number, collectionId?: string) =>
+  pauses.some(pause => {
+    if (pause.collectionIds && !(collectionId && pause.collectionIds.includes(collectionId))) return false;
+    const start = startOfLearningDay(pause.startDate, dayStartHour);
+    const end = startOfLearningDay(pause.endDate ?? now, dayStartHour);
+    return day.getTime() >= start.getTime() && day.getTime() < end.getTime();
+  });
+
+// 计入打卡的新学任务：当天生成的常规新学列表（加餐、考前突击不算）
+const isPlannedNewSession = (playlist: DailyPlaylist) =>
+  playlist.playlistType === 'new' && !playlist.isExtraSession && playlist.items.length > 0;
+
+// 既没有到期复习也没有新学计划的日子
+const hasNothingPlanned = (day: StudyDay) => day.dueItems === 0 && day.plannedNewSessions === 0;
+
+// 按某个调度状态，条目在该学习日是否需要复习（搁置、毕业后不再复习的不算）
+const isDueOn = (state: ReviewEventState | undefined, day: Date, dayStartHour: number) =>
+  !!state?.nextReviewDate && state.stage !== 'suspended' && learningDayDiff(day, state.nextReviewDate, dayStartHour) >= 0;
+
+/**
+ * 过去 days 个学习日（含今天）的学习记录：复习由学习事件回放得出，新学来自当天生成的新学列表。
+ * 当天开始时已到期的复习条目都播放过、计划的新学列表都完成即算完成；当天被改期或搁置的不算到期，
+ * 既没有到期条目也没有新学计划的日子不算完成也不算中断
+ */
+export function buildStudyDays(
+  events: ReviewEvent[],
+  playlists: DailyPlaylist[],
+  videos: VideoFile[],
+  pauses: PausePeriod[],
+  now: Date,
+  dayStartHour: number = 0,
+  days: number = 365
+): StudyDay[] {
+  const today = startOfLearningDay(now, dayStartHour);
+  const result: StudyDay[] = Array.from({ length: days }, (_, index) => {
+    const date = addDays(today, index - days + 1);
+    return {
+      date,
+      dueItems: 0,
+      reviewedItems: 0,
+      plannedNewSessions: 0,
+      completedNewSessions: 0,
+      studiedItems: 0,
+      isDone: false,
+      isPaused: isPausedDay(date, pauses, now, dayStartHour),
+    };
+  });
+
+  const eventsByVideo = new Map<string, ReviewEvent[]>();
+  events.forEach(event => {
+    const list = eventsByVideo.get(event.videoId) ?? [];
+    list.push(event);
+    eventsByVideo.set(event.videoId, list);
+  });
+  const collectionIds = new Map(videos.map(video => [video.id, video.collectionId]));
+
+  eventsByVideo.forEach((videoEvents, videoId) => {
+    // 已删除的条目不再计入
+    if (!collectionIds.has(videoId)) return;
+    const collectionId = collectionIds.get(videoId);
+    const sorted = [...videoEvents].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    let next = 0;
+    let state: ReviewEventState | undefined;
+    result.forEach(day => {
+      const dayEnd = addDays(day.date, 1);
+      while (next < sorted.length && sorted[next].timestamp < day.date) {
+        state = sorted[next].state ?? state;
+        next++;
+      }
+      const dueAtStart = isDueOn(state, day.date, dayStartHour);
+
+      let played = 0;
+      while (next < sorted.length && sorted[next].timestamp < dayEnd) {
+        if (sorted[next].type === 'play') played++;
+        state = sorted[next].state ?? state;
+        next++;
+      }
+      day.studiedItems += played;
+
+      if (!dueAtStart || isPausedDay(day.date, pauses, now, dayStartHour, collectionId)) return;
+      // 当天改期、搁置而没有播放的不算到期
+      if (played === 0 && !isDueOn(state, day.date, dayStartHour)) return;
+      day.dueItems++;
+      if (played > 0) day.reviewedItems++;
+    });
+  });
+
+  playlists.forEach(playlist => {
+    if (!isPlannedNewSession(playlist)) return;
+    const index = days - 1 - learningDayDiff(now, playlist.date, dayStartHour);
+    if (index < 0 || index >= days) return;
+    result[index].plannedNewSessions++;
+    if (playlist.isCompleted) result[index].completedNewSessions++;
+  });
+
+  result.forEach(day => {
+    day.isDone = !hasNothingPlanned(day)
+      && day.reviewedItems === day.dueItems
+      && day.completedNewSessions === day.plannedNewSessions;
+  });
+  return result;
+}
+
+// 不计入连续天数的日子：暂停中，或既没有到期条目也没有新学计划
+const isNeutralDay = (day: StudyDay) => day.isPaused || hasNothingPlanned(day);
+
+/**
+ * 当前和最长连续完成天数；暂停中和没有计划的日子跳过，不中断也不累计
+ */
+export function getStudyStreaks(studyDays: StudyDay[]): StudyStreaks {
+  let longest = 0;
+  let running = 0;
+  studyDays.forEach(day => {
+    if (isNeutralDay(day)) return;
+    running = day.isDone ? running + 1 : 0;
+    longest = Math.max(longest, running);
+  });
+
+  // 今天还没完成不算中断，从昨天往前数
+  let current = 0;
+  const lastIndex = studyDays.length - 1;
+  const start = lastIndex >= 0 && !studyDays[lastIndex].isDone ? lastIndex - 1 : lastIndex;
+  for (let i = start; i >= 0; i--) {
+    if (isNeutralDay(studyDays[i])) continue;
+    if (!studyDays[i].isDone) break;
+    current++;
+  }
+  return { current, longest };
+}
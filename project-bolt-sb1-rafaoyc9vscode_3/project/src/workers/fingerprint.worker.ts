@@ -0,0 +1,16 @@
+// 在后台线程计算内容指纹，避免读取和哈希大文件时页面卡顿
+import { computeFingerprint } from '../utils/fingerprint';
+
+interface FingerprintRequest {
+  id: number;
+  blob: Blob;
+}
+
+self.onmessage = async (event: MessageEvent<FingerprintRequest>) => {
+  const { id, blob } = event.data;
+  try {
+    self.postMessage({ id, fingerprint: await computeFingerprint(blob) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};